@@ -0,0 +1,108 @@
+// What the blocking modal and the hard block page say about the current state and bypass credit
+
+// The parts of the service worker's public state the block screens read
+export interface BlockScreenState {
+  serverConnected: boolean;
+  sessionCount: number;
+  needsPairing?: boolean;
+  budget?: {
+    global: Array<{ period: "daily" | "weekly" | "monthly"; limitUsd: number; spentUsd: number }>;
+  } | null;
+  budgetBlocked?: boolean;
+  graceUntil?: number | null; // Idle blocking is held off until then
+  typingUntil?: number | null;
+}
+
+export interface BlockStatus {
+  title: string;
+  message: string;
+  dot: "green" | "red" | "gray";
+  status: string;
+  hint: string;
+  hintCommand?: string; // Shown as code after the hint
+}
+
+export function getBlockStatus(state: BlockScreenState): BlockStatus {
+  const title = state.budgetBlocked && state.serverConnected ? "Budget Exhausted" : "Time to Work";
+
+  if (!state.serverConnected && state.needsPairing) {
+    return {
+      title,
+      message: "The extension isn't paired with the blocker server yet.",
+      dot: "red",
+      status: "Not Paired",
+      hint: "Open the extension settings → Server Connection and click Pair",
+    };
+  }
+  if (!state.serverConnected) {
+    return {
+      title,
+      message: "Server offline. Start the blocker server to continue.",
+      dot: "red",
+      status: "Server Offline",
+      hint: "Start it with",
+      hintCommand: "npx claude-blocker-advanced",
+    };
+  }
+  if (state.sessionCount === 0) {
+    return {
+      title,
+      message: "No Claude Code sessions detected.",
+      dot: "green",
+      status: "Waiting for Claude Code",
+      hint: "Open a terminal and start Claude Code",
+    };
+  }
+  if (state.budgetBlocked) {
+    const exhausted = state.budget?.global.find((p) => p.spentUsd >= p.limitUsd);
+    return {
+      title,
+      message: exhausted
+        ? `You've spent $${exhausted.spentUsd.toFixed(2)} of your $${exhausted.limitUsd.toFixed(2)} ${exhausted.period} budget.`
+        : "A project has used up its budget.",
+      dot: "red",
+      status: "Budget Exhausted",
+      hint: "Raise the limit in the extension settings to unblock",
+    };
+  }
+  return {
+    title,
+    message: "Your job finished!",
+    dot: "green",
+    status: `${state.sessionCount} session${state.sessionCount > 1 ? "s" : ""} idle`,
+    hint: "Type a prompt in Claude Code to unblock",
+  };
+}
+
+// "m:ss" countdown
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Why an idle page isn't blocked yet, or null when nothing is holding blocking off
+export function getGraceLabel(state: Pick<BlockScreenState, "graceUntil" | "typingUntil">, now = Date.now()): string | null {
+  const graceUntil = state.graceUntil && state.graceUntil > now ? state.graceUntil : null;
+  const typingUntil = state.typingUntil && state.typingUntil > now ? state.typingUntil : null;
+  if (typingUntil && (!graceUntil || typingUntil >= graceUntil)) return "Typing…";
+  if (graceUntil) return `Blocking in ${formatCountdown(graceUntil - now)}`;
+  return null;
+}
+
+// The bypass credit the block screens show (from GET_BYPASS_STATUS)
+export interface BypassCredit {
+  allowanceRemaining: number;
+  earnedMinutesRemaining: number;
+  nextBypassMinutes: number;
+  nextBypassSource: "allowance" | "earned" | null;
+  reason?: string;
+}
+
+// Bypass button text; null source means the button is disabled and shows why
+export function getBypassButtonLabel(credit: BypassCredit): string {
+  if (!credit.nextBypassSource) return credit.reason ?? "No bypass available";
+  const minutes = `${credit.nextBypassMinutes} minute${credit.nextBypassMinutes === 1 ? "" : "s"}`;
+  return credit.nextBypassSource === "earned"
+    ? `Give me ${minutes} (${credit.earnedMinutesRemaining} earned min left)`
+    : `Give me ${minutes} (${credit.allowanceRemaining} left today)`;
+}
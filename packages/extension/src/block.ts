@@ -0,0 +1,133 @@
+import { evaluateUrl } from "../../shared/src/url-rules.js";
+import { getBlockStatus, getBypassButtonLabel, type BlockScreenState, type BypassCredit } from "./block-status.js";
+
+export {};
+
+// State shape from service worker
+interface PublicState extends BlockScreenState {
+  blocked: boolean;
+  hardBlock?: boolean;
+  activeBlockedDomains?: string[];
+  allowedUrls?: string[];
+}
+
+// The blocked page, passed after "#" by the redirect rule or the content script
+const blockedUrl = window.location.hash.slice(1);
+const canReturn = /^https?:\/\//i.test(blockedUrl);
+// Redirects from the content script (source=tab) already counted the attempt
+const countAttempt =
+  !new URLSearchParams(window.location.search).has("source") &&
+  (performance.getEntriesByType("navigation")[0] as PerformanceNavigationTiming | undefined)?.type !== "reload";
+let returning = false;
+// block.html is web accessible (redirects need that), so a page could frame it to click the bypass for you
+const framed = window.top !== window;
+
+// Elements
+const titleEl = document.getElementById("title") as HTMLElement;
+const blockedUrlEl = document.getElementById("blocked-url") as HTMLElement;
+const messageEl = document.getElementById("message") as HTMLElement;
+const dotEl = document.getElementById("dot") as HTMLElement;
+const statusEl = document.getElementById("status") as HTMLElement;
+const hintEl = document.getElementById("hint") as HTMLElement;
+const bypassBtn = document.getElementById("bypass-btn") as HTMLButtonElement;
+
+function isStillBlocked(state: PublicState): boolean {
+  if (!state.blocked || !state.hardBlock) return false;
+  return evaluateUrl(blockedUrl, state.activeBlockedDomains ?? [], state.allowedUrls ?? []).blocked;
+}
+
+// Back to the page once it's no longer blocked (the redirect rules are already gone by then)
+function returnToPage(): void {
+  if (returning) return;
+  if (!canReturn) {
+    messageEl.textContent = "This page isn't blocked anymore.";
+    return;
+  }
+  returning = true;
+  window.location.replace(blockedUrl);
+}
+
+function renderState(state: PublicState): void {
+  const blockStatus = getBlockStatus(state);
+  titleEl.textContent = blockStatus.title;
+  messageEl.textContent = blockStatus.message;
+  dotEl.className = `dot ${blockStatus.dot}`;
+  statusEl.textContent = blockStatus.status;
+  hintEl.textContent = blockStatus.hint;
+  if (blockStatus.hintCommand) {
+    const command = document.createElement("code");
+    command.textContent = blockStatus.hintCommand;
+    hintEl.append(" ", command);
+  }
+}
+
+function renderError(): void {
+  messageEl.textContent = "Cannot connect to extension.";
+  dotEl.className = "dot red";
+  statusEl.textContent = "Extension Error";
+  hintEl.textContent = "Try reloading the extension";
+}
+
+function handleState(state: PublicState): void {
+  if (!isStillBlocked(state)) {
+    returnToPage();
+    return;
+  }
+  renderState(state);
+}
+
+// GET_STATE answers once the service worker's redirect rules match the state it returns
+function requestState(): void {
+  chrome.runtime.sendMessage({ type: "GET_STATE" }, (response) => {
+    if (chrome.runtime.lastError || !response) {
+      renderError();
+      return;
+    }
+    handleState(response);
+  });
+}
+
+function disableBypass(reason: string): void {
+  bypassBtn.textContent = reason;
+  bypassBtn.disabled = true;
+}
+
+bypassBtn.addEventListener("click", () => {
+  if (framed) return;
+  chrome.runtime.sendMessage({ type: "ACTIVATE_BYPASS", url: blockedUrl }, (response) => {
+    if (response?.success) {
+      requestState();
+    } else if (response?.reason) {
+      disableBypass(response.reason);
+    }
+  });
+});
+
+chrome.runtime.onMessage.addListener((message) => {
+  if (message.type === "STATE") {
+    handleState(message);
+  }
+});
+
+if (canReturn) {
+  const { hostname } = new URL(blockedUrl);
+  blockedUrlEl.textContent = blockedUrl;
+  document.title = `Blocked: ${hostname.replace(/^www\./, "")}`;
+  if (countAttempt && !framed) {
+    chrome.runtime.sendMessage({ type: "RECORD_DISTRACTION", event: "attempt", url: blockedUrl }).catch(() => {});
+  }
+}
+
+chrome.runtime.sendMessage({ type: "GET_BYPASS_STATUS" }, (status: BypassCredit | undefined) => {
+  if (!status) return;
+  if (framed) {
+    disableBypass("Open this page in its own tab");
+  } else if (status.nextBypassSource) {
+    bypassBtn.textContent = getBypassButtonLabel(status);
+  } else {
+    disableBypass(getBypassButtonLabel(status));
+  }
+});
+
+requestState();
+setInterval(requestState, 1000);
@@ -1,11 +1,27 @@
-import { executeSessionAction } from "../../shared/src/actions.js";
+import { executeSessionAction, setServerActionHandler } from "../../shared/src/actions.js";
+import { evaluateUrl } from "../../shared/src/url-rules.js";
+import { DEFAULT_BLOCKED_DOMAINS } from "../../shared/src/blocklists.js";
+import { buildHideStylesheet, getHideSelectors, type HideRule } from "../../shared/src/hide-rules.js";
+import { getBlockStatus, getBypassButtonLabel, getGraceLabel, type BypassCredit } from "./block-status.js";
+import { DND_DURATIONS, getQuietLabel, setDoNotDisturb, type QuietState } from "./quiet-status.js";
 
 export {};
 
+// Quick actions go through the service worker, which holds the server address and pairing token
+setServerActionHandler((path, body) =>
+  new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "SERVER_ACTION", path, body }, (response) => {
+      resolve(response ?? { ok: false, statusText: "Service worker not ready" });
+    });
+  })
+);
+
 const MODAL_ID = "claude-blocker-modal";
 const TOAST_ID = "claude-blocker-toast";
+const GRACE_ID = "claude-blocker-grace";
 const OVERLAY_ID = "claude-blocker-overlay";
-const DEFAULT_DOMAINS = ["x.com", "youtube.com"];
+const HIDE_STYLE_ID = "claude-blocker-hide";
+const UNBLOCKED_REPORT_MS = 15_000; // Batch time-on-site reports to the service worker
 
 // Tool call record
 interface ToolCall {
@@ -32,6 +48,14 @@ interface Session {
   waitingForInputSince?: string;
 }
 
+// Budget period status from the server (via service worker)
+interface BudgetPeriodStatus {
+  period: "daily" | "weekly" | "monthly";
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+}
+
 // State shape from service worker
 interface PublicState {
   serverConnected: boolean;
@@ -41,6 +65,27 @@ interface PublicState {
   waitingForInput: number;
   blocked: boolean;
   bypassActive: boolean;
+  graceUntil?: number | null; // Grace period after Claude stops; the page blocks when it ends
+  typingUntil?: number | null; // Kept unblocked while a prompt is being typed
+  needsPairing?: boolean;
+  budget?: { global: BudgetPeriodStatus[]; exhausted: boolean } | null;
+  budgetBlocked?: boolean;
+  capabilities?: PlatformCapabilities | null;
+  activeBlockedDomains?: string[]; // Blocked patterns whose schedule applies now
+  allowedUrls?: string[];
+  hardBlock?: boolean; // Redirect blocked pages to the extension's block page
+  hideRules?: HideRule[]; // Soft hiding: selectors hidden on matching pages while blocking applies
+  quiet?: QuietState | null; // Quiet hours or Do Not Disturb holding back alerts
+}
+
+// Quick actions the server's machine supports (null = unknown, show everything)
+interface PlatformCapabilities {
+  fileManager: string;
+  actions: {
+    openFolder: boolean;
+    openTerminal: boolean;
+    openEditor: boolean;
+  };
 }
 
 // Overlay config from storage
@@ -64,8 +109,12 @@ const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
 let lastKnownState: PublicState | null = null;
 let shouldBeBlocked = false;
 let blockedDomains: string[] = [];
+let allowedUrls: string[] = [];
+let lastUrl = window.location.href;
 let toastDismissed = false;
 let overlayConfig: OverlayConfig = DEFAULT_OVERLAY_CONFIG;
+let viewedUrl: string | null = null; // Blocked-site page view already counted as an attempt (or not)
+let pendingUnblocked: { origin: string; ms: number } | null = null;
 
 // Load domains from storage
 function loadDomains(): Promise<string[]> {
@@ -74,12 +123,21 @@ function loadDomains(): Promise<string[]> {
       if (result.blockedDomains && Array.isArray(result.blockedDomains)) {
         resolve(result.blockedDomains);
       } else {
-        resolve(DEFAULT_DOMAINS);
+        resolve(DEFAULT_BLOCKED_DOMAINS);
       }
     });
   });
 }
 
+// Load allowed page patterns from storage
+function loadAllowedUrls(): Promise<string[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["allowedUrls"], (result) => {
+      resolve(Array.isArray(result.allowedUrls) ? result.allowedUrls : []);
+    });
+  });
+}
+
 // Load overlay config from storage
 function loadOverlayConfig(): Promise<OverlayConfig> {
   return new Promise((resolve) => {
@@ -93,9 +151,8 @@ function loadOverlayConfig(): Promise<OverlayConfig> {
   });
 }
 
-function isBlockedDomain(): boolean {
-  const hostname = window.location.hostname.replace(/^www\./, "");
-  return blockedDomains.some((d) => hostname === d || hostname.endsWith(`.${d}`));
+function isBlockedPage(): boolean {
+  return evaluateUrl(window.location.href, blockedDomains, allowedUrls).blocked;
 }
 
 // Format duration
@@ -172,7 +229,7 @@ function createModal(): void {
           <rect x="3" y="11" width="18" height="11" rx="2" fill="#FFD700" stroke="#B8860B" stroke-width="1"/>
           <path d="M7 11V7a5 5 0 0 1 10 0v4" stroke="#888" stroke-width="2" fill="none"/>
         </svg>
-        <div style="color:#fff;font-size:24px;font-weight:bold;margin:0 0 16px;line-height:1.2;">Time to Work</div>
+        <div id="title" style="color:#fff;font-size:24px;font-weight:bold;margin:0 0 16px;line-height:1.2;">Time to Work</div>
         <div id="message" style="color:#888;font-size:16px;line-height:1.5;margin:0 0 24px;font-weight:normal;">Loading...</div>
         <div style="display:inline-flex;align-items:center;gap:8px;padding:8px 16px;background:#2a2a2a;border-radius:20px;font-size:14px;color:#666;line-height:1;">
           <span id="dot" style="width:8px;height:8px;border-radius:50%;background:#666;flex-shrink:0;"></span>
@@ -180,7 +237,7 @@ function createModal(): void {
         </div>
         <div id="hint" style="margin-top:24px;font-size:13px;color:#555;line-height:1.4;font-family:Arial,Helvetica,sans-serif;"></div>
         <button id="bypass-btn" style="all:initial;margin-top:24px;padding:12px 24px;background:#333;border:1px solid #444;border-radius:8px;color:#888;font-family:Arial,Helvetica,sans-serif;font-size:13px;cursor:pointer;transition:all 0.2s;">
-          Give me 5 minutes (1x per day)
+          Give me a few minutes
         </button>
       </div>
     </div>
@@ -189,9 +246,10 @@ function createModal(): void {
   // Wire up bypass button
   const bypassBtn = shadow.getElementById("bypass-btn");
   if (bypassBtn) {
-    chrome.runtime.sendMessage({ type: "GET_BYPASS_STATUS" }, (status) => {
-      if (status?.usedToday) {
-        bypassBtn.textContent = "Bypass already used today";
+    chrome.runtime.sendMessage({ type: "GET_BYPASS_STATUS" }, (status: BypassCredit | undefined) => {
+      if (!status) return;
+      bypassBtn.textContent = getBypassButtonLabel(status);
+      if (!status.nextBypassSource) {
         (bypassBtn as HTMLButtonElement).disabled = true;
         bypassBtn.style.opacity = "0.5";
         bypassBtn.style.cursor = "not-allowed";
@@ -199,7 +257,7 @@ function createModal(): void {
     });
 
     bypassBtn.addEventListener("click", () => {
-      chrome.runtime.sendMessage({ type: "ACTIVATE_BYPASS" }, (response) => {
+      chrome.runtime.sendMessage({ type: "ACTIVATE_BYPASS", url: window.location.href }, (response) => {
         if (response?.success) {
           removeModal();
         } else if (response?.reason) {
@@ -264,6 +322,38 @@ function removeToast(): void {
   getToast()?.remove();
 }
 
+// ============ GRACE COUNTDOWN ============
+
+function getGraceNotice(): HTMLElement | null {
+  return document.getElementById(GRACE_ID);
+}
+
+// Countdown on a blocked page while the grace period or a typing signal holds the modal off
+function updateGraceNotice(state: PublicState): void {
+  const label = !state.blocked && isBlockedPage() ? getGraceLabel(state) : null;
+  if (!label) {
+    getGraceNotice()?.remove();
+    return;
+  }
+
+  let container = getGraceNotice();
+  if (!container) {
+    container = document.createElement("div");
+    container.id = GRACE_ID;
+    const shadow = container.attachShadow({ mode: "open" });
+    shadow.innerHTML = `
+      <div style="all:initial;position:fixed;bottom:24px;left:50%;transform:translateX(-50%);background:#1a1a1a;border:1px solid #333;border-radius:12px;padding:12px 18px;font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#fff;z-index:2147483646;display:flex;align-items:center;gap:10px;box-shadow:0 4px 12px rgba(0,0,0,0.3);-webkit-font-smoothing:antialiased;">
+        <span style="font-size:16px;">⏳</span>
+        <span id="grace-label" style="font-variant-numeric:tabular-nums;"></span>
+      </div>
+    `;
+    document.documentElement.appendChild(container);
+  }
+
+  const labelEl = container.shadowRoot?.getElementById("grace-label");
+  if (labelEl) labelEl.textContent = label;
+}
+
 // ============ MINI OVERLAY ============
 
 function getOverlay(): HTMLElement | null {
@@ -273,7 +363,7 @@ function getOverlay(): HTMLElement | null {
 function shouldShowOverlay(): boolean {
   if (!overlayConfig.enabled) return false;
   if (overlayConfig.scope === "none") return false;
-  if (overlayConfig.scope === "blocked" && !isBlockedDomain()) return false;
+  if (overlayConfig.scope === "blocked" && !isBlockedPage()) return false;
   return true;
 }
 
@@ -352,6 +442,12 @@ function createOverlay(): void {
       .action-btn:hover svg { stroke: #fff; }
       .action-btn[data-tooltip]::before { content: attr(data-tooltip); position: absolute; bottom: 100%; left: 50%; transform: translateX(-50%); padding: 5px 8px; background: #252525; border: 1px solid #444; border-radius: 5px; font-size: 10px; font-weight: 500; color: #aaa; white-space: nowrap; opacity: 0; pointer-events: none; transition: opacity 0.15s ease; margin-bottom: 5px; z-index: 1000; font-family: Arial, Helvetica, sans-serif; }
       .action-btn:hover[data-tooltip]::before { opacity: 1; }
+      .dnd-row { display: flex; align-items: center; justify-content: space-between; gap: 8px; padding: 10px 12px; border-top: 1px solid #2a2a2a; background: #161616; }
+      .dnd-label { color: #888; font-size: 11px; font-weight: 500; }
+      .dnd-row.active .dnd-label { color: #bf5af2; }
+      .dnd-actions { display: flex; gap: 4px; }
+      .dnd-btn { all: initial; padding: 3px 8px; background: #2a2a2a; border-radius: 5px; font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #ccc; cursor: pointer; transition: background 0.15s; }
+      .dnd-btn:hover { background: #333; color: #fff; }
     </style>
     <div class="overlay">
       <div class="pill-wrapper">
@@ -359,7 +455,13 @@ function createOverlay(): void {
           <span class="status-dot" id="overlay-dot"></span>
           <span class="label" id="overlay-label">—</span>
         </div>
-        <div class="sessions-list" id="overlay-sessions"></div>
+        <div class="sessions-list">
+          <div id="overlay-sessions"></div>
+          <div class="dnd-row" id="overlay-dnd">
+            <span class="dnd-label"></span>
+            <div class="dnd-actions"></div>
+          </div>
+        </div>
       </div>
     </div>
   `;
@@ -456,7 +558,8 @@ function updateOverlay(state: PublicState): void {
   const dot = shadow.getElementById("overlay-dot");
   const label = shadow.getElementById("overlay-label");
   const sessionsList = shadow.getElementById("overlay-sessions");
-  if (!dot || !label || !sessionsList) return;
+  const dndRow = shadow.getElementById("overlay-dnd");
+  if (!dot || !label || !sessionsList || !dndRow) return;
 
   // Update status dot
   if (!state.serverConnected) {
@@ -476,6 +579,25 @@ function updateOverlay(state: PublicState): void {
     label.textContent = "No sessions";
   }
 
+  const graceLabel = state.serverConnected ? getGraceLabel(state) : null;
+  if (graceLabel) {
+    label.textContent += ` · ${graceLabel}`;
+  }
+
+  const quietLabel = getQuietLabel(state.quiet);
+  if (quietLabel) {
+    label.textContent += ` · ${quietLabel}`;
+  }
+
+  // Append the tightest global budget (smallest amount left)
+  const tightest = state.budget?.global.reduce<BudgetPeriodStatus | null>(
+    (min, p) => (!min || p.remainingUsd < min.remainingUsd ? p : min),
+    null
+  );
+  if (state.serverConnected && tightest) {
+    label.textContent += ` · $${tightest.remainingUsd.toFixed(2)} left`;
+  }
+
   // Update sessions list
   if (state.sessions.length === 0) {
     sessionsList.innerHTML = '<div class="no-sessions">No active sessions</div>';
@@ -525,18 +647,24 @@ function updateOverlay(state: PublicState): void {
 
         // Action buttons - use initialCwd (original project dir) for folder/terminal/editor actions
         const actionCwd = s.initialCwd || s.cwd;
+        const actions = state.capabilities?.actions;
+        const fileManager = state.capabilities?.fileManager ?? "Finder";
         const actionsHtml = `
           <div class="session-actions">
             <button class="action-btn" data-action="copy-id" data-session-id="${s.id}" data-project-name="${s.projectName}" data-tooltip="Copy session ID">
               <svg viewBox="0 0 24 24"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>
             </button>
-            ${actionCwd ? `
-            <button class="action-btn" data-action="open-folder" data-cwd="${actionCwd}" data-project-name="${s.projectName}" data-tooltip="Open in Finder">
+            ${actionCwd && actions?.openFolder !== false ? `
+            <button class="action-btn" data-action="open-folder" data-cwd="${actionCwd}" data-project-name="${s.projectName}" data-tooltip="Open in ${fileManager}">
               <svg viewBox="0 0 24 24"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"/></svg>
             </button>
-            <button class="action-btn" data-action="open-terminal" data-cwd="${actionCwd}" data-session-id="${s.id}" data-project-name="${s.projectName}" data-tooltip="Resume in Terminal">
+            ` : ""}
+            ${actionCwd && actions?.openTerminal !== false ? `
+            <button class="action-btn" data-action="focus-session" data-cwd="${actionCwd}" data-session-id="${s.id}" data-project-name="${s.projectName}" data-tooltip="Focus in Terminal">
               <svg viewBox="0 0 24 24"><polyline points="4 17 10 11 4 5"/><line x1="12" y1="19" x2="20" y2="19"/></svg>
             </button>
+            ` : ""}
+            ${actionCwd && actions?.openEditor !== false ? `
             <button class="action-btn" data-action="open-editor" data-cwd="${actionCwd}" data-project-name="${s.projectName}" data-tooltip="Open in Editor">
               <svg viewBox="0 0 24 24"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"/></svg>
             </button>
@@ -595,30 +723,66 @@ function updateOverlay(state: PublicState): void {
           } else if (action === "copy-command") {
             showOverlayToast(`Copied: claude --resume ${sessionId.substring(0, 8)}...`);
           } else if (action === "open-folder") {
-            if (result.success && !result.fallback) {
-              showOverlayToast(`Opened ${projectName} in Finder`);
+            if (result.success) {
+              showOverlayToast(`Opened ${projectName} in ${state.capabilities?.fileManager ?? "Finder"}`);
             } else {
-              showOverlayToast(`Copied path to clipboard`);
+              showOverlayToast(result.error || "Failed to open folder", "error");
             }
-          } else if (action === "open-terminal") {
+          } else if (action === "focus-session") {
             const terminalApp = configs.terminalConfig?.app || "warp";
-            if (result.success && !result.fallback) {
+            if (result.success && result.focused) {
+              showOverlayToast(`Focused ${projectName}`);
+            } else if (result.success && result.appActivated) {
+              showOverlayToast(`Brought ${terminalApp} to the front - switch to the ${projectName} tab`, "info");
+            } else if (result.success && !result.fallback) {
               showOverlayToast(`Opened ${projectName} in ${terminalApp}`);
-            } else {
+            } else if (result.success) {
               showOverlayToast(`Copied resume command to clipboard`);
+            } else {
+              showOverlayToast(result.error || "Failed to open terminal", "error");
             }
           } else if (action === "open-editor") {
             const editorApp = configs.editorConfig?.app || "cursor";
             if (result.success && !result.fallback) {
               showOverlayToast(`Opened ${projectName} in ${editorApp}`);
-            } else {
+            } else if (result.success) {
               showOverlayToast(`Copied editor command to clipboard`);
+            } else {
+              showOverlayToast(result.error || "Failed to open editor", "error");
             }
           }
         }
       });
     });
   }
+
+  updateOverlayDndRow(dndRow, state.quiet ?? null);
+}
+
+// Do Not Disturb controls at the bottom of the sessions dropdown, kept out of the sessions list rebuild
+function updateOverlayDndRow(row: HTMLElement, quiet: QuietState | null): void {
+  row.className = quiet ? "dnd-row active" : "dnd-row";
+  const label = row.querySelector(".dnd-label") as HTMLElement;
+  label.textContent = getQuietLabel(quiet) ?? "Do Not Disturb";
+
+  // Buttons are rebuilt only when this changes, so the once-a-second refresh doesn't swallow clicks
+  const key = `${quiet?.reason ?? ""}:${quiet?.until ?? ""}`;
+  if (row.dataset.key === key) return;
+  row.dataset.key = key;
+
+  const actions = row.querySelector(".dnd-actions") as HTMLElement;
+  actions.innerHTML = "";
+  const options = quiet?.reason === "dnd" ? [{ minutes: null, label: "Turn off" }] : DND_DURATIONS;
+  for (const { minutes, label: buttonLabel } of options) {
+    const button = document.createElement("button");
+    button.className = "dnd-btn";
+    button.textContent = buttonLabel;
+    button.addEventListener("click", (e) => {
+      e.stopPropagation();
+      setDoNotDisturb(minutes).catch(() => {});
+    });
+    actions.appendChild(button);
+  }
 }
 
 // ============ MODAL STATE RENDERING ============
@@ -636,27 +800,25 @@ function renderState(state: PublicState): void {
   const shadow = getShadow();
   if (!shadow) return;
 
+  const title = shadow.getElementById("title");
   const message = shadow.getElementById("message");
   const dot = shadow.getElementById("dot");
   const status = shadow.getElementById("status");
   const hint = shadow.getElementById("hint");
-  if (!message || !dot || !status || !hint) return;
-
-  if (!state.serverConnected) {
-    message.textContent = "Server offline. Start the blocker server to continue.";
-    setDotColor(dot, "red");
-    status.textContent = "Server Offline";
-    hint.innerHTML = `Run <span style="background:#2a2a2a;padding:2px 8px;border-radius:4px;font-family:ui-monospace,monospace;font-size:12px;">npx claude-blocker-advanced</span> to start`;
-  } else if (state.sessionCount === 0) {
-    message.textContent = "No Claude Code sessions detected.";
-    setDotColor(dot, "green");
-    status.textContent = "Waiting for Claude Code";
-    hint.textContent = "Open a terminal and start Claude Code";
-  } else {
-    message.textContent = "Your job finished!";
-    setDotColor(dot, "green");
-    status.textContent = `${state.sessionCount} session${state.sessionCount > 1 ? "s" : ""} idle`;
-    hint.textContent = "Type a prompt in Claude Code to unblock";
+  if (!title || !message || !dot || !status || !hint) return;
+
+  const blockStatus = getBlockStatus(state);
+  title.textContent = blockStatus.title;
+  message.textContent = blockStatus.message;
+  setDotColor(dot, blockStatus.dot);
+  status.textContent = blockStatus.status;
+  hint.textContent = blockStatus.hint;
+  if (blockStatus.hintCommand) {
+    const command = document.createElement("span");
+    command.style.cssText =
+      "background:#2a2a2a;padding:2px 8px;border-radius:4px;font-family:ui-monospace,monospace;font-size:12px;";
+    command.textContent = blockStatus.hintCommand;
+    hint.append(" ", command);
   }
 }
 
@@ -678,7 +840,11 @@ function renderError(): void {
 
 // ============ MUTATION OBSERVER ============
 
+let modalObserver: MutationObserver | null = null;
+
+// Idempotent: a schedule can start blocking a tab that was opened while unblocked
 function setupMutationObserver(): void {
+  if (modalObserver) return;
   const observer = new MutationObserver(() => {
     if (shouldBeBlocked && !getModal()) {
       createModal();
@@ -692,23 +858,90 @@ function setupMutationObserver(): void {
     childList: true,
     subtree: true,
   });
+  modalObserver = observer;
+}
+
+// ============ SOFT HIDING ============
+
+// Hide the distracting parts of this page while Claude is idle; a stylesheet also covers content added later
+function updateSoftHiding(state: PublicState): void {
+  const selectors = state.blocked ? getHideSelectors(window.location.href, state.hideRules ?? []) : [];
+  let style = document.getElementById(HIDE_STYLE_ID);
+  if (selectors.length === 0) {
+    style?.remove();
+    return;
+  }
+
+  if (!style) {
+    style = document.createElement("style");
+    style.id = HIDE_STYLE_ID;
+    document.documentElement.appendChild(style);
+  }
+  const css = buildHideStylesheet(selectors);
+  if (style.textContent !== css) {
+    style.textContent = css;
+  }
+}
+
+// ============ DISTRACTION TRACKING ============
+
+function recordAttempt(): void {
+  chrome.runtime.sendMessage({ type: "RECORD_DISTRACTION", event: "attempt", url: window.location.href }).catch(() => {});
+}
+
+function flushUnblockedTime(): void {
+  if (!pendingUnblocked) return;
+  const { origin, ms } = pendingUnblocked;
+  pendingUnblocked = null;
+  chrome.runtime.sendMessage({ type: "RECORD_DISTRACTION", event: "time", url: origin, ms }).catch(() => {});
+}
+
+// Called every second: time a blocked site is visible while it isn't blocked (Claude working, a bypass
+// or the grace period)
+function trackUnblockedTime(state: PublicState): void {
+  if (state.blocked || !isBlockedPage() || document.visibilityState !== "visible") {
+    flushUnblockedTime();
+    return;
+  }
+  if (pendingUnblocked && pendingUnblocked.origin !== window.location.origin) {
+    flushUnblockedTime();
+  }
+  pendingUnblocked = { origin: window.location.origin, ms: (pendingUnblocked?.ms ?? 0) + 1000 };
+  if (pendingUnblocked.ms >= UNBLOCKED_REPORT_MS) {
+    flushUnblockedTime();
+  }
 }
 
 // ============ STATE HANDLING ============
 
 function handleState(state: PublicState): void {
   lastKnownState = state;
+  if (state.activeBlockedDomains) {
+    blockedDomains = state.activeBlockedDomains;
+  }
+  if (state.allowedUrls) {
+    allowedUrls = state.allowedUrls;
+  }
 
   // Always update overlay (respects its own scope settings)
   updateOverlay(state);
+  updateGraceNotice(state);
+  updateSoftHiding(state);
 
-  if (!isBlockedDomain()) {
+  if (!isBlockedPage()) {
+    viewedUrl = null;
     shouldBeBlocked = false;
     removeModal();
     removeToast();
     return;
   }
 
+  // A page view that opens blocked is one attempt; an open page that becomes blocked isn't
+  if (window.location.href !== viewedUrl) {
+    viewedUrl = window.location.href;
+    if (state.blocked) recordAttempt();
+  }
+
   // Show toast notification when Claude has a question (non-blocking)
   if (state.waitingForInput > 0) {
     showToast();
@@ -717,9 +950,17 @@ function handleState(state: PublicState): void {
     removeToast();
   }
 
+  // Hard block: declarativeNetRequest catches new page loads; this covers pages that were already open
+  // and SPA navigations, which never hit the network. source=tab tells the block page the attempt is counted
+  if (state.blocked && state.hardBlock) {
+    window.location.replace(`${chrome.runtime.getURL("block.html")}?source=tab#${window.location.href}`);
+    return;
+  }
+
   // Show blocking modal when truly idle
   if (state.blocked) {
     shouldBeBlocked = true;
+    setupMutationObserver();
     createModal();
     renderState(state);
   } else {
@@ -732,7 +973,7 @@ function requestState(): void {
   chrome.runtime.sendMessage({ type: "GET_STATE" }, (response) => {
     if (chrome.runtime.lastError || !response) {
       setTimeout(requestState, 500);
-      if (isBlockedDomain()) {
+      if (isBlockedPage()) {
         createModal();
         renderError();
       }
@@ -753,6 +994,8 @@ function getNotificationToastType(event: string): ToastType {
       return "success"; // Green - completed
     case "disconnected":
       return "error"; // Red - session ended
+    case "budget":
+      return "warning"; // Yellow - spending threshold reached
     default:
       return "info";
   }
@@ -762,12 +1005,6 @@ chrome.runtime.onMessage.addListener((message) => {
   if (message.type === "STATE") {
     handleState(message);
   }
-  if (message.type === "DOMAINS_UPDATED") {
-    blockedDomains = message.domains;
-    if (lastKnownState) {
-      handleState(lastKnownState);
-    }
-  }
   if (message.type === "OVERLAY_CONFIG_UPDATED") {
     overlayConfig = { ...DEFAULT_OVERLAY_CONFIG, ...message.config };
     removeOverlay(); // Recreate with new config
@@ -784,26 +1021,52 @@ chrome.runtime.onMessage.addListener((message) => {
   }
 });
 
+// ============ SPA NAVIGATION ============
+
+// Single-page apps change the URL without reloading, so re-check the rules on every navigation.
+// pushState/replaceState are only visible to the page's world; navigation-hook.ts re-announces them
+const NAVIGATION_EVENT = "claude-blocker:navigation";
+
+function handleNavigation(): void {
+  if (window.location.href === lastUrl) return;
+  lastUrl = window.location.href;
+  if (lastKnownState) {
+    handleState(lastKnownState);
+  }
+}
+
+window.addEventListener(NAVIGATION_EVENT, handleNavigation);
+window.addEventListener("popstate", handleNavigation);
+window.addEventListener("hashchange", handleNavigation);
+
 // ============ INITIALIZATION ============
 
 async function init(): Promise<void> {
   blockedDomains = await loadDomains();
+  allowedUrls = await loadAllowedUrls();
   overlayConfig = await loadOverlayConfig();
 
   // Always set up state listener and request state for overlay
   requestState();
 
-  if (isBlockedDomain()) {
+  if (isBlockedPage()) {
     setupMutationObserver();
     createModal();
   }
 
-  // Refresh overlay periodically to update times
+  // Refresh overlay and grace countdown periodically to update times
   setInterval(() => {
     if (lastKnownState) {
       updateOverlay(lastKnownState);
+      updateGraceNotice(lastKnownState);
+      trackUnblockedTime(lastKnownState);
     }
   }, 1000);
+
+  window.addEventListener("pagehide", flushUnblockedTime);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushUnblockedTime();
+  });
 }
 
 init();
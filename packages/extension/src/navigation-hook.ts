@@ -0,0 +1,14 @@
+// Runs in the page's own JS world (see manifest.json). SPA routers navigate with history.pushState and
+// replaceState, which the isolated content script can't observe, so announce them as a window event
+export {};
+
+const NAVIGATION_EVENT = "claude-blocker:navigation";
+
+for (const method of ["pushState", "replaceState"] as const) {
+  const original = history[method];
+  history[method] = function (this: History, ...args: Parameters<History["pushState"]>) {
+    const result = original.apply(this, args);
+    window.dispatchEvent(new Event(NAVIGATION_EVENT));
+    return result;
+  };
+}
@@ -1,18 +1,29 @@
 // Offscreen document for audio playback
 // This document handles playing notification sounds using the Web Audio API
+import { getSoundClipData } from "./sound-library.js";
 
 interface PlaySoundMessage {
   type: "PLAY_SOUND";
-  sound: "subtle" | "clear" | "say";
+  sound: string; // A built-in preset or "say"
   volume: number; // 0-100
   message?: string; // For "say" mode
+  voice?: string; // voiceURI; empty or missing picks an English voice
+  rate?: number;
+  pitch?: number;
+}
+
+// Play a clip from the sound library, loaded from IndexedDB
+interface PlayClipMessage {
+  type: "PLAY_CLIP";
+  clipId: string;
+  volume: number; // 0-100
 }
 
 interface StopSoundMessage {
   type: "STOP_SOUND";
 }
 
-type OffscreenMessage = PlaySoundMessage | StopSoundMessage;
+type OffscreenMessage = PlaySoundMessage | PlayClipMessage | StopSoundMessage;
 
 // Audio context for generating sounds
 let audioContext: AudioContext | null = null;
@@ -92,17 +103,125 @@ function playClearBell(volume: number): void {
   console.log("[Offscreen] Playing clear bell at volume:", volume);
 }
 
-// Play sound based on type
-function playSound(sound: "subtle" | "clear", volume: number): void {
-  if (sound === "subtle") {
-    playSubtleChime(volume);
-  } else if (sound === "clear") {
-    playClearBell(volume);
+interface Tone {
+  frequency: number;
+  endFrequency?: number; // Slides to this frequency over the tone
+  start: number; // Seconds after now
+  duration: number;
+  peak: number;
+  type?: OscillatorType;
+}
+
+// Short enveloped tones, for the presets that are a handful of notes
+function playTones(tones: Tone[], volume: number): void {
+  const ctx = getAudioContext();
+  const gainNode = ctx.createGain();
+  gainNode.connect(ctx.destination);
+  gainNode.gain.value = volume / 100;
+  const now = ctx.currentTime;
+
+  for (const tone of tones) {
+    const osc = ctx.createOscillator();
+    const noteGain = ctx.createGain();
+    const start = now + tone.start;
+    const end = start + tone.duration;
+
+    osc.type = tone.type ?? "sine";
+    osc.frequency.setValueAtTime(tone.frequency, start);
+    if (tone.endFrequency) {
+      osc.frequency.exponentialRampToValueAtTime(tone.endFrequency, end);
+    }
+
+    noteGain.gain.setValueAtTime(0, start);
+    noteGain.gain.linearRampToValueAtTime(tone.peak, start + 0.01);
+    noteGain.gain.exponentialRampToValueAtTime(0.001, end);
+
+    osc.connect(noteGain);
+    noteGain.connect(gainNode);
+    osc.start(start);
+    osc.stop(end + 0.05);
   }
 }
 
+// Three ascending wooden notes
+function playMarimba(volume: number): void {
+  playTones(
+    [392, 523.25, 659.25].map((frequency, i) => ({ frequency, start: i * 0.12, duration: 0.3, peak: 0.35 })),
+    volume
+  );
+}
+
+// A single falling "bloop"
+function playDroplet(volume: number): void {
+  playTones([{ frequency: 1400, endFrequency: 500, start: 0, duration: 0.25, peak: 0.4 }], volume);
+}
+
+// Two short beeps
+function playPulse(volume: number): void {
+  playTones(
+    [0, 0.18].map((start) => ({ frequency: 1000, start, duration: 0.12, peak: 0.2, type: "square" as const })),
+    volume
+  );
+}
+
+// An upward sweep
+function playRise(volume: number): void {
+  playTones([{ frequency: 300, endFrequency: 1200, start: 0, duration: 0.6, peak: 0.3, type: "triangle" }], volume);
+}
+
+// A low, slowly fading gong
+function playGong(volume: number): void {
+  playTones(
+    [1, 2.76, 5.4].map((mult, i) => ({ frequency: 110 * mult, start: 0, duration: 2.5 - i * 0.6, peak: 0.5 / (i + 1) })),
+    volume
+  );
+}
+
+const PRESETS: Record<string, (volume: number) => void> = {
+  subtle: playSubtleChime,
+  clear: playClearBell,
+  marimba: playMarimba,
+  droplet: playDroplet,
+  pulse: playPulse,
+  rise: playRise,
+  gong: playGong,
+};
+
+// Play a built-in preset
+function playSound(sound: string, volume: number): void {
+  const preset = PRESETS[sound];
+  if (!preset) {
+    throw new Error(`Unknown sound: ${sound}`);
+  }
+  preset(volume);
+}
+
+// Clips are read and decoded on every play: the document is closed soon after audio stops, so a cache wouldn't last
+async function playClip(clipId: string, volume: number): Promise<void> {
+  const data = await getSoundClipData(clipId);
+  if (!data) {
+    throw new Error("Sound not found in the library");
+  }
+
+  const ctx = getAudioContext();
+  const buffer = await ctx.decodeAudioData(await data.arrayBuffer());
+  if (ctx.state === "suspended") {
+    await ctx.resume();
+  }
+
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = volume / 100;
+  gainNode.connect(ctx.destination);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(gainNode);
+  source.start();
+  console.log("[Offscreen] Playing clip", clipId, "at volume:", volume);
+}
+
 // Use Web Speech API for text-to-speech (macOS "say" equivalent)
-async function speakText(text: string, volume: number): Promise<void> {
+async function speakText(text: string, volume: number, voice = "", rate = 1, pitch = 1): Promise<void> {
   // Check if speech synthesis is available
   if (!("speechSynthesis" in window)) {
     console.error("[Offscreen] Speech synthesis not available");
@@ -114,14 +233,14 @@ async function speakText(text: string, volume: number): Promise<void> {
 
   const utterance = new SpeechSynthesisUtterance(text);
   utterance.volume = volume / 100;
-  utterance.rate = 1.0;
-  utterance.pitch = 1.0;
+  utterance.rate = rate;
+  utterance.pitch = pitch;
 
-  // Try to use a natural-sounding voice
+  // The chosen voice, else try to use a natural-sounding one
   const voices = window.speechSynthesis.getVoices();
-  const preferredVoice = voices.find(
-    (v) => v.name.includes("Samantha") || v.name.includes("Daniel") || v.lang.startsWith("en")
-  );
+  const preferredVoice =
+    voices.find((v) => voice && v.voiceURI === voice) ??
+    voices.find((v) => v.name.includes("Samantha") || v.name.includes("Daniel") || v.lang.startsWith("en"));
   if (preferredVoice) {
     utterance.voice = preferredVoice;
   }
@@ -147,10 +266,10 @@ chrome.runtime.onMessage.addListener((message: OffscreenMessage, _sender, sendRe
 
   if (message.type === "PLAY_SOUND") {
     if (message.sound === "say" && message.message) {
-      speakText(message.message, message.volume)
+      speakText(message.message, message.volume, message.voice, message.rate, message.pitch)
         .then(() => sendResponse({ success: true }))
         .catch((error) => sendResponse({ success: false, error: String(error) }));
-    } else if (message.sound === "subtle" || message.sound === "clear") {
+    } else if (Object.hasOwn(PRESETS, message.sound)) {
       try {
         playSound(message.sound, message.volume);
         sendResponse({ success: true });
@@ -165,6 +284,13 @@ chrome.runtime.onMessage.addListener((message: OffscreenMessage, _sender, sendRe
     return true; // Async response for "say"
   }
 
+  if (message.type === "PLAY_CLIP") {
+    playClip(message.clipId, message.volume)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+
   if (message.type === "STOP_SOUND") {
     stopSound();
     sendResponse({ success: true });
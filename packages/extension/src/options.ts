@@ -1,8 +1,55 @@
-import { executeSessionAction } from "../../shared/src/actions.js";
+import { executeSessionAction, setServerActionHandler } from "../../shared/src/actions.js";
+import { evaluateUrl, normalizeUrlRule, parseUrlRule, type UrlRule } from "../../shared/src/url-rules.js";
+import {
+  DEFAULT_BLOCKED_DOMAINS,
+  DOMAIN_CATEGORIES,
+  applyBlocklistBundle,
+  createBlocklistBundle,
+  getCategoryCoverage,
+  parseBlocklistBundle,
+  setCategoryEnabled,
+  type DomainCategory,
+} from "../../shared/src/blocklists.js";
+import { HIDE_PACKS, type HidePack, type HideRule } from "../../shared/src/hide-rules.js";
+import {
+  findNotificationProfile,
+  matchesProfile,
+  type NotificationProfile,
+  type ProfileEvent,
+} from "../../shared/src/notification-profiles.js";
+import {
+  BUILTIN_SOUNDS,
+  MAX_SOUND_CLIP_BYTES,
+  MAX_SOUND_CLIP_SECONDS,
+  MAX_SOUND_CLIPS,
+  getCustomSoundId,
+  getSoundClipId,
+  type SoundClip,
+} from "../../shared/src/sounds.js";
+import { deleteSoundClip, listSoundClips, saveSoundClip } from "./sound-library.js";
+import {
+  ANNOUNCEMENT_VARIABLES,
+  DEFAULT_ANNOUNCEMENT_TEMPLATES,
+  DEFAULT_SPEECH_CONFIG,
+  SAMPLE_ANNOUNCEMENT_VALUES,
+  normalizeSpeechConfig,
+  renderAnnouncement,
+  type AnnouncementEvent,
+  type SpeechConfig,
+} from "../../shared/src/announcements.js";
+import type { DailyReport } from "../../shared/src/daily-report.js";
+import { DEFAULT_RETENTION_DAYS, RETENTION_OPTIONS, type RetentionDays } from "../../shared/src/types.js";
 
 export {};
 
-const DEFAULT_DOMAINS = ["x.com", "youtube.com"];
+// Quick actions go through the service worker, which holds the server address and pairing token
+setServerActionHandler((path, body) =>
+  new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "SERVER_ACTION", path, body }, (response) => {
+      resolve(response ?? { ok: false, statusText: "Service worker not ready" });
+    });
+  })
+);
 
 interface ToolCall {
   name: string;
@@ -72,6 +119,19 @@ interface HistoricalSession {
   costUsd?: number;
 }
 
+// What the server can do on its machine (null until the server reports it)
+interface PlatformCapabilities {
+  platform: "macos" | "linux" | "unsupported";
+  fileManager: string;
+  actions: {
+    openFolder: boolean;
+    openTerminal: boolean;
+    openEditor: boolean;
+  };
+  terminals: TerminalApp[];
+  editors: EditorApp[];
+}
+
 interface ExtensionState {
   blocked: boolean;
   serverConnected: boolean;
@@ -80,12 +140,66 @@ interface ExtensionState {
   working: number;
   waitingForInput: number;
   bypassActive: boolean;
+  needsPairing?: boolean;
+  budget?: BudgetStatus | null;
+  capabilities?: PlatformCapabilities | null;
+  activeBlockedDomains?: string[];
+  quiet?: { reason: "dnd" | "quiet-hours"; until: number | null } | null;
+}
+
+interface GraceConfig {
+  gracePeriodSeconds: number; // 0 = block as soon as Claude stops
+  keepUnblockedWhileTyping: boolean;
+}
+
+const DEFAULT_GRACE_CONFIG: GraceConfig = {
+  gracePeriodSeconds: 0,
+  keepUnblockedWhileTyping: false,
+};
+
+const MAX_GRACE_PERIOD_SECONDS = 600;
+
+interface BypassPolicy {
+  durationMinutes: number;
+  perDay: number;
+  cooldownMinutes: number;
+  earnMinutesPerHour: number; // 0 = earning off
 }
 
+const DEFAULT_BYPASS_POLICY: BypassPolicy = {
+  durationMinutes: 5,
+  perDay: 1,
+  cooldownMinutes: 0,
+  earnMinutesPerHour: 0,
+};
+
+// Remaining bypass credit (from GET_BYPASS_STATUS)
 interface BypassStatus {
-  usedToday: boolean;
   bypassActive: boolean;
   bypassUntil: number | null;
+  usedToday: number;
+  allowanceRemaining: number;
+  earnedMinutes: number;
+  earnedMinutesRemaining: number;
+  cooldownUntil: number | null;
+  nextBypassMinutes: number;
+  nextBypassSource: "allowance" | "earned" | null;
+  reason?: string;
+  policy: BypassPolicy;
+}
+
+interface BypassLogEntry {
+  startedAt: number;
+  endsAt: number;
+  source: "allowance" | "earned";
+}
+
+// Blocked page views, bypasses and time on blocked sites for a day (kept by the service worker)
+interface DistractionStats {
+  date: string;
+  domains: Record<string, { attempts: number; bypasses: number; unblockedMs: number }>;
+  hourlyAttempts: number[]; // 24 entries, local hour of day
+  bypasses: number;
 }
 
 interface OverlayConfig {
@@ -101,9 +215,11 @@ interface NotificationConfig {
   onWaiting: boolean;
   onFinished: boolean;
   onDisconnected: boolean;
+  onBudget: boolean;
 }
 
-type SoundStyle = "none" | "subtle" | "clear" | "say";
+// "none", "say", a built-in preset or "custom:<clip id>" from the sound library
+type SoundStyle = string;
 
 interface SoundConfig {
   enabled: boolean;
@@ -113,9 +229,40 @@ interface SoundConfig {
     onFinished: SoundStyle;
     onDisconnected: SoundStyle;
   };
+  speech: SpeechConfig;
+}
+
+interface ReminderStep {
+  afterMinutes: number;
+  sound: SoundStyle;
+  volume: number;
 }
 
-type TerminalApp = "warp" | "iterm2" | "terminal" | "ghostty";
+interface ReminderConfig {
+  enabled: boolean;
+  steps: ReminderStep[];
+}
+
+const PROFILE_EVENTS: Array<{ event: ProfileEvent; label: string }> = [
+  { event: "onWaiting", label: "Waiting for input" },
+  { event: "onFinished", label: "Finished working" },
+  { event: "onDisconnected", label: "Session disconnected" },
+];
+
+const MAX_REMINDER_STEPS = 5;
+const MAX_REMINDER_MINUTES = 240;
+
+type TerminalApp =
+  | "warp"
+  | "iterm2"
+  | "terminal"
+  | "ghostty"
+  | "gnome-terminal"
+  | "konsole"
+  | "kitty"
+  | "alacritty"
+  | "wezterm"
+  | "tmux";
 
 interface TerminalConfig {
   app: TerminalApp;
@@ -179,6 +326,7 @@ const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
   onWaiting: true,
   onFinished: true,
   onDisconnected: true,
+  onBudget: true,
 };
 
 const DEFAULT_SOUND_CONFIG: SoundConfig = {
@@ -189,6 +337,23 @@ const DEFAULT_SOUND_CONFIG: SoundConfig = {
     onFinished: "subtle",
     onDisconnected: "subtle",
   },
+  speech: DEFAULT_SPEECH_CONFIG,
+};
+
+const SPEECH_EVENTS: Array<{ event: AnnouncementEvent; label: string }> = [
+  { event: "onWaiting", label: "Waiting for input" },
+  { event: "onReminder", label: "Waiting reminder" },
+  { event: "onFinished", label: "Finished working" },
+  { event: "onDisconnected", label: "Session disconnected" },
+];
+
+const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
+  enabled: true,
+  steps: [
+    { afterMinutes: 2, sound: "subtle", volume: 70 },
+    { afterMinutes: 5, sound: "clear", volume: 85 },
+    { afterMinutes: 15, sound: "say", volume: 100 },
+  ],
 };
 
 const DEFAULT_TERMINAL_CONFIG: TerminalConfig = {
@@ -199,6 +364,92 @@ const DEFAULT_EDITOR_CONFIG: EditorConfig = {
   app: "cursor",
 };
 
+// Server address (must match the server's --host/--port)
+interface ServerAddress {
+  host: string;
+  port: number;
+}
+
+const DEFAULT_SERVER_ADDRESS: ServerAddress = {
+  host: "localhost",
+  port: 8765,
+};
+
+// Blocked domains with a schedule are only blocked inside one of their windows
+interface BlockSchedule {
+  id: string;
+  domain: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM" (earlier than start = overnight, equal = all day)
+  enabled: boolean;
+}
+
+// Notifications and sounds are held back inside a quiet window
+interface QuietWindow {
+  id: string;
+  days: number[];
+  start: string;
+  end: string;
+  enabled: boolean;
+}
+
+interface QuietConfig {
+  windows: QuietWindow[];
+  criticalOnly: boolean; // Waiting-for-input alerts still get through
+}
+
+const DEFAULT_QUIET_CONFIG: QuietConfig = {
+  windows: [],
+  criticalOnly: true,
+};
+
+interface DailySummaryConfig {
+  enabled: boolean;
+  time: string; // HH:MM
+}
+
+const DEFAULT_DAILY_SUMMARY_CONFIG: DailySummaryConfig = {
+  enabled: false,
+  time: "18:00",
+};
+
+// Monday-first for the editor; values match Date.getDay()
+const SCHEDULE_DAYS: Array<{ day: number; label: string }> = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+// Budget limits in USD (null = no limit), owned by the server
+type BudgetPeriod = "daily" | "weekly" | "monthly";
+type BudgetLimits = Record<BudgetPeriod, number | null>;
+
+interface BudgetConfig {
+  limits: BudgetLimits;
+  projectLimits: Record<string, Partial<BudgetLimits>>;
+  thresholds: number[];
+  blockWhenExhausted: boolean;
+}
+
+interface BudgetStatus {
+  global: Array<{ period: BudgetPeriod; limitUsd: number; spentUsd: number; remainingUsd: number }>;
+  exhausted: boolean;
+}
+
+const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  limits: { daily: null, weekly: null, monthly: null },
+  projectLimits: {},
+  thresholds: [50, 80, 100],
+  blockWhenExhausted: false,
+};
+
 // Timeline constants
 const TIMELINE_HOURS = 4; // Show last 4 hours
 const TIMELINE_MS = TIMELINE_HOURS * 60 * 60 * 1000;
@@ -212,10 +463,41 @@ const blockStatusEl = document.getElementById("block-status") as HTMLElement;
 const addForm = document.getElementById("add-form") as HTMLFormElement;
 const domainInput = document.getElementById("domain-input") as HTMLInputElement;
 const domainList = document.getElementById("domain-list") as HTMLUListElement;
+const domainFeedback = document.getElementById("domain-feedback") as HTMLElement;
+const hardBlockToggle = document.getElementById("hard-block") as HTMLInputElement;
+const categoryPresets = document.getElementById("category-presets") as HTMLElement;
+const bundleImportMode = document.getElementById("bundle-import-mode") as HTMLSelectElement;
+const bundleFileInput = document.getElementById("bundle-file") as HTMLInputElement;
+const bundleImportBtn = document.getElementById("bundle-import") as HTMLButtonElement;
+const bundleExportBtn = document.getElementById("bundle-export") as HTMLButtonElement;
+const allowForm = document.getElementById("allow-form") as HTMLFormElement;
+const allowInput = document.getElementById("allow-input") as HTMLInputElement;
+const allowFeedback = document.getElementById("allow-feedback") as HTMLElement;
+const allowList = document.getElementById("allow-list") as HTMLUListElement;
+const allowCount = document.getElementById("allow-count") as HTMLElement;
+const hidePacksEl = document.getElementById("hide-packs") as HTMLElement;
+const hideForm = document.getElementById("hide-form") as HTMLFormElement;
+const hideSiteInput = document.getElementById("hide-site-input") as HTMLInputElement;
+const hideSelectorInput = document.getElementById("hide-selector-input") as HTMLInputElement;
+const hideFeedback = document.getElementById("hide-feedback") as HTMLElement;
+const hideList = document.getElementById("hide-list") as HTMLUListElement;
+const hideCount = document.getElementById("hide-count") as HTMLElement;
+const ruleTestInput = document.getElementById("rule-test-input") as HTMLInputElement;
+const ruleTestResult = document.getElementById("rule-test-result") as HTMLElement;
 const siteCount = document.getElementById("site-count") as HTMLElement;
 const bypassBtn = document.getElementById("bypass-btn") as HTMLButtonElement;
 const bypassText = document.getElementById("bypass-text") as HTMLElement;
 const bypassStatus = document.getElementById("bypass-status") as HTMLElement;
+const bypassDurationInput = document.getElementById("bypass-duration") as HTMLInputElement;
+const bypassPerDayInput = document.getElementById("bypass-per-day") as HTMLInputElement;
+const bypassCooldownInput = document.getElementById("bypass-cooldown") as HTMLInputElement;
+const bypassEarnInput = document.getElementById("bypass-earn") as HTMLInputElement;
+const bypassPolicySaveBtn = document.getElementById("bypass-policy-save") as HTMLButtonElement;
+const bypassPolicyStatus = document.getElementById("bypass-policy-status") as HTMLElement;
+const graceSecondsInput = document.getElementById("grace-seconds") as HTMLInputElement;
+const graceTypingToggle = document.getElementById("grace-typing") as HTMLInputElement;
+const graceSaveBtn = document.getElementById("grace-save") as HTMLButtonElement;
+const graceStatus = document.getElementById("grace-status") as HTMLElement;
 
 // Sessions panel elements
 const sessionsList = document.getElementById("sessions-list") as HTMLElement;
@@ -244,6 +526,7 @@ const notificationsEnabled = document.getElementById("notifications-enabled") as
 const notifyWaiting = document.getElementById("notify-waiting") as HTMLInputElement;
 const notifyFinished = document.getElementById("notify-finished") as HTMLInputElement;
 const notifyDisconnected = document.getElementById("notify-disconnected") as HTMLInputElement;
+const notifyBudget = document.getElementById("notify-budget") as HTMLInputElement;
 const testNotificationBtn = document.getElementById("test-notification-btn") as HTMLButtonElement;
 const notificationStatus = document.getElementById("notification-status") as HTMLSpanElement;
 const notificationDebugInfo = document.getElementById("notification-debug-info") as HTMLPreElement;
@@ -255,12 +538,73 @@ const volumeValue = document.getElementById("volume-value") as HTMLSpanElement;
 const soundWaiting = document.getElementById("sound-waiting") as HTMLSelectElement;
 const soundFinished = document.getElementById("sound-finished") as HTMLSelectElement;
 const soundDisconnected = document.getElementById("sound-disconnected") as HTMLSelectElement;
-const testSoundSubtle = document.getElementById("test-sound-subtle") as HTMLButtonElement;
-const testSoundClear = document.getElementById("test-sound-clear") as HTMLButtonElement;
-const testSoundSay = document.getElementById("test-sound-say") as HTMLButtonElement;
+const remindersEnabled = document.getElementById("reminders-enabled") as HTMLInputElement;
+const quietCriticalToggle = document.getElementById("quiet-critical") as HTMLInputElement;
+const summaryEnabled = document.getElementById("summary-enabled") as HTMLInputElement;
+const summaryTime = document.getElementById("summary-time") as HTMLInputElement;
+const reportDate = document.getElementById("report-date") as HTMLElement;
+const reportBody = document.getElementById("report-body") as HTMLElement;
+const profileList = document.getElementById("profile-list") as HTMLElement;
+const profileAddBtn = document.getElementById("profile-add") as HTMLButtonElement;
+const profileSaveBtn = document.getElementById("profile-save") as HTMLButtonElement;
+const quietList = document.getElementById("quiet-list") as HTMLElement;
+const quietAddBtn = document.getElementById("quiet-add") as HTMLButtonElement;
+const quietSaveBtn = document.getElementById("quiet-save") as HTMLButtonElement;
+const quietStatus = document.getElementById("quiet-status") as HTMLElement;
+const reminderList = document.getElementById("reminder-list") as HTMLElement;
+const reminderAddBtn = document.getElementById("reminder-add") as HTMLButtonElement;
+const reminderSaveBtn = document.getElementById("reminder-save") as HTMLButtonElement;
+const reminderStatus = document.getElementById("reminder-status") as HTMLElement;
+const soundPreviewBtns = document.querySelectorAll<HTMLButtonElement>(".sound-preview-btn");
+const soundClipList = document.getElementById("sound-clip-list") as HTMLElement;
+const speechVoice = document.getElementById("speech-voice") as HTMLSelectElement;
+const speechRate = document.getElementById("speech-rate") as HTMLInputElement;
+const speechRateValue = document.getElementById("speech-rate-value") as HTMLSpanElement;
+const speechPitch = document.getElementById("speech-pitch") as HTMLInputElement;
+const speechPitchValue = document.getElementById("speech-pitch-value") as HTMLSpanElement;
+const speechTemplates = document.getElementById("speech-templates") as HTMLElement;
+const speechVariables = document.getElementById("speech-variables") as HTMLElement;
+const speechResetBtn = document.getElementById("speech-reset") as HTMLButtonElement;
+const speechSaveBtn = document.getElementById("speech-save") as HTMLButtonElement;
+const soundUploadBtn = document.getElementById("sound-upload") as HTMLButtonElement;
+const soundUploadInput = document.getElementById("sound-upload-input") as HTMLInputElement;
+
+// Retention settings element
+const retentionDaysSelect = document.getElementById("retention-days") as HTMLSelectElement;
+
+// Server address elements
+const serverHostInput = document.getElementById("server-host") as HTMLInputElement;
+const serverPortInput = document.getElementById("server-port") as HTMLInputElement;
+const serverAddressSaveBtn = document.getElementById("server-address-save") as HTMLButtonElement;
+const serverAddressStatus = document.getElementById("server-address-status") as HTMLElement;
+const pairingStatus = document.getElementById("pairing-status") as HTMLElement;
+const pairStartBtn = document.getElementById("pair-start-btn") as HTMLButtonElement;
+const pairingCodeRow = document.getElementById("pairing-code-row") as HTMLElement;
+const pairingCodeInput = document.getElementById("pairing-code") as HTMLInputElement;
+const pairCompleteBtn = document.getElementById("pair-complete-btn") as HTMLButtonElement;
+
+// Blocking schedule elements
+const scheduleList = document.getElementById("schedule-list") as HTMLElement;
+const scheduleAddBtn = document.getElementById("schedule-add") as HTMLButtonElement;
+const scheduleSaveBtn = document.getElementById("schedule-save") as HTMLButtonElement;
+const scheduleStatusEl = document.getElementById("schedule-status") as HTMLElement;
+
+// Budget settings elements
+const budgetLimitInputs: Record<BudgetPeriod, HTMLInputElement> = {
+  daily: document.getElementById("budget-daily") as HTMLInputElement,
+  weekly: document.getElementById("budget-weekly") as HTMLInputElement,
+  monthly: document.getElementById("budget-monthly") as HTMLInputElement,
+};
+const budgetThresholdsInput = document.getElementById("budget-thresholds") as HTMLInputElement;
+const budgetBlockToggle = document.getElementById("budget-block") as HTMLInputElement;
+const budgetProjectList = document.getElementById("budget-project-list") as HTMLElement;
+const budgetAddProjectBtn = document.getElementById("budget-add-project") as HTMLButtonElement;
+const budgetSaveBtn = document.getElementById("budget-save") as HTMLButtonElement;
+const budgetStatusEl = document.getElementById("budget-status") as HTMLElement;
 
 // Terminal settings element
 const terminalApp = document.getElementById("terminal-app") as HTMLSelectElement;
+const terminalDesc = document.getElementById("terminal-desc") as HTMLElement;
 
 // Editor settings element
 const editorApp = document.getElementById("editor-app") as HTMLSelectElement;
@@ -283,6 +627,14 @@ const statsWaitingPct = document.getElementById("stats-waiting-pct") as HTMLElem
 const statsIdlePct = document.getElementById("stats-idle-pct") as HTMLElement;
 const statsSessionsStarted = document.getElementById("stats-sessions-started") as HTMLElement;
 const statsSessionsEnded = document.getElementById("stats-sessions-ended") as HTMLElement;
+const statsBypasses = document.getElementById("stats-bypasses") as HTMLElement;
+const statsBypassLabel = document.getElementById("stats-bypass-label") as HTMLElement;
+const distractionAttempts = document.getElementById("distraction-attempts") as HTMLElement;
+const distractionTime = document.getElementById("distraction-time") as HTMLElement;
+const distractionBypasses = document.getElementById("distraction-bypasses") as HTMLElement;
+const distractionHourlyChart = document.getElementById("distraction-hourly-chart") as HTMLElement;
+const distractionHourlyLabels = document.getElementById("distraction-hourly-labels") as HTMLElement;
+const distractionDomainList = document.getElementById("distraction-domain-list") as HTMLElement;
 const ringWorking = document.getElementById("ring-working") as SVGCircleElement;
 const ringWaiting = document.getElementById("ring-waiting") as SVGCircleElement;
 const ringIdle = document.getElementById("ring-idle") as SVGCircleElement;
@@ -303,6 +655,12 @@ const statsModelList = document.getElementById("stats-model-list") as HTMLElemen
 // Backfill progress elements
 const statsBackfill = document.getElementById("stats-backfill") as HTMLElement;
 const backfillProgress = document.getElementById("backfill-progress") as HTMLElement;
+// Export elements
+const exportFrom = document.getElementById("export-from") as HTMLInputElement;
+const exportTo = document.getElementById("export-to") as HTMLInputElement;
+const exportKind = document.getElementById("export-kind") as HTMLSelectElement;
+const exportFormat = document.getElementById("export-format") as HTMLSelectElement;
+const exportBtn = document.getElementById("export-btn") as HTMLButtonElement;
 
 // Cost chart elements
 const chart7DayTotal = document.getElementById("chart-7day-total") as HTMLElement;
@@ -341,11 +699,27 @@ let cachedStatsArray: DailyStats[] = [];
 
 let bypassCountdown: ReturnType<typeof setInterval> | null = null;
 let currentDomains: string[] = [];
+let currentAllowedUrls: string[] = [];
+let currentHidePacks: string[] = [];
+let currentHideRules: HideRule[] = [];
 let currentOverlayConfig: OverlayConfig = DEFAULT_OVERLAY_CONFIG;
 let currentNotificationConfig: NotificationConfig = DEFAULT_NOTIFICATION_CONFIG;
 let currentSoundConfig: SoundConfig = DEFAULT_SOUND_CONFIG;
+let currentReminderConfig: ReminderConfig = DEFAULT_REMINDER_CONFIG;
+let currentQuietConfig: QuietConfig = DEFAULT_QUIET_CONFIG;
+let currentDailySummaryConfig: DailySummaryConfig = DEFAULT_DAILY_SUMMARY_CONFIG;
+let currentNotificationProfiles: NotificationProfile[] = [];
+let soundClips: SoundClip[] = [];
 let currentTerminalConfig: TerminalConfig = DEFAULT_TERMINAL_CONFIG;
+let currentRetentionDays: RetentionDays = DEFAULT_RETENTION_DAYS;
+let currentServerAddress: ServerAddress = DEFAULT_SERVER_ADDRESS;
+let currentBudgetConfig: BudgetConfig = DEFAULT_BUDGET_CONFIG;
+let currentBlockSchedules: BlockSchedule[] = [];
+let currentBypassPolicy: BypassPolicy = DEFAULT_BYPASS_POLICY;
+let currentGraceConfig: GraceConfig = DEFAULT_GRACE_CONFIG;
+let budgetServerReachable = false;
 let currentEditorConfig: EditorConfig = DEFAULT_EDITOR_CONFIG;
+let currentCapabilities: PlatformCapabilities | null = null;
 let lastSessions: Session[] = [];
 let currentSortMode: SortMode = "status";
 let lastSortMode: SortMode = "status"; // Track previous sort mode for change detection
@@ -1240,6 +1614,8 @@ async function refreshStats(): Promise<void> {
 
   // Render selected date's stats
   renderRingChart(selectedStats);
+  renderBypassStats(await loadBypassLog(selectedDate));
+  renderDistractionStats(await loadDistractionStats(selectedDate));
 
   // Render weekly chart
   renderWeeklyChart(statsArray);
@@ -1252,6 +1628,63 @@ async function refreshStats(): Promise<void> {
   renderProjectBreakdown(projectStats);
 }
 
+// Bypass count and total unblocked time for the selected date
+function renderBypassStats(entries: BypassLogEntry[]): void {
+  const totalMs = entries.reduce((sum, entry) => sum + (entry.endsAt - entry.startedAt), 0);
+  statsBypasses.textContent = String(entries.length);
+  statsBypassLabel.textContent = entries.length > 0 ? `Bypasses · ${Math.round(totalMs / 60_000)} min` : "Bypasses";
+}
+
+const TOP_DISTRACTION_SITES = 8;
+
+// Distractions section: totals, attempts per hour and the sites tried most
+function renderDistractionStats(stats: DistractionStats): void {
+  const domains = Object.entries(stats.domains);
+  const attempts = domains.reduce((sum, [, d]) => sum + d.attempts, 0);
+  const unblockedMs = domains.reduce((sum, [, d]) => sum + d.unblockedMs, 0);
+  distractionAttempts.textContent = String(attempts);
+  distractionTime.textContent = formatStatsDuration(unblockedMs);
+  distractionBypasses.textContent = String(stats.bypasses);
+
+  const maxAttempts = Math.max(1, ...stats.hourlyAttempts);
+  distractionHourlyChart.innerHTML = stats.hourlyAttempts.map((count, hour) => `
+      <div class="stats-chart-bar">
+        <div class="stats-bar-tooltip">${String(hour).padStart(2, "0")}:00 · ${count} attempt${count === 1 ? "" : "s"}</div>
+        <div class="stats-bar-segment attempts" style="height: ${(count / maxAttempts) * 100}%"></div>
+      </div>
+    `).join("");
+  distractionHourlyLabels.innerHTML = stats.hourlyAttempts
+    .map((_, hour) => `<span class="stats-chart-label">${hour % 6 === 0 ? String(hour).padStart(2, "0") : ""}</span>`)
+    .join("");
+
+  const top = domains
+    .sort(([, a], [, b]) => b.attempts - a.attempts || b.unblockedMs - a.unblockedMs)
+    .slice(0, TOP_DISTRACTION_SITES);
+  if (top.length === 0) {
+    distractionDomainList.innerHTML = '<div class="no-projects">No visits to blocked sites on this date</div>';
+    return;
+  }
+
+  distractionDomainList.innerHTML = top.map(([domain, d]) => `
+    <div class="project-stats-row">
+      <div class="project-stats-header">
+        <span class="project-name">${domain}</span>
+        <span class="project-sessions">${d.attempts} attempt${d.attempts === 1 ? "" : "s"}</span>
+      </div>
+      <div class="project-stats-metrics">
+        <span class="project-metric">
+          <span class="metric-label">Time Unblocked:</span>
+          <span class="metric-value">${formatStatsDuration(d.unblockedMs)}</span>
+        </span>
+        <span class="project-metric">
+          <span class="metric-label">Bypasses:</span>
+          <span class="metric-value">${d.bypasses}</span>
+        </span>
+      </div>
+    </div>
+  `).join("");
+}
+
 // Format tool detail info (more verbose for vertical layout)
 function formatToolDetail(tool: ToolCall): string {
   const { input } = tool;
@@ -1320,6 +1753,11 @@ function truncatePath(path: string, maxLength: number = 50): string {
 // Toast notification system
 type ToastType = "success" | "info" | "error";
 
+// Toast messages are HTML; escape text that comes from imported files
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
 function showToast(message: string, type: ToastType = "success", duration: number = 2500): void {
   const toast = document.createElement("div");
   toast.className = "toast";
@@ -1356,13 +1794,78 @@ async function loadDomains(): Promise<string[]> {
       if (result.blockedDomains && Array.isArray(result.blockedDomains)) {
         resolve(result.blockedDomains);
       } else {
-        chrome.storage.sync.set({ blockedDomains: DEFAULT_DOMAINS });
-        resolve(DEFAULT_DOMAINS);
+        chrome.storage.sync.set({ blockedDomains: DEFAULT_BLOCKED_DOMAINS });
+        resolve(DEFAULT_BLOCKED_DOMAINS);
       }
     });
   });
 }
 
+// Load the hard block setting from storage
+async function loadHardBlock(): Promise<boolean> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["hardBlock"], (result) => {
+      resolve(result.hardBlock === true);
+    });
+  });
+}
+
+// Save the hard block setting (the service worker installs or removes its redirect rules)
+async function handleHardBlockChange(): Promise<void> {
+  await new Promise<void>((resolve) => {
+    chrome.storage.sync.set({ hardBlock: hardBlockToggle.checked }, resolve);
+  });
+  showToast(hardBlockToggle.checked ? "Hard block enabled" : "Hard block disabled");
+}
+
+// Load allowed page patterns from storage
+async function loadAllowedUrls(): Promise<string[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["allowedUrls"], (result) => {
+      resolve(Array.isArray(result.allowedUrls) ? result.allowedUrls : []);
+    });
+  });
+}
+
+// Save allowed page patterns to storage
+async function saveAllowedUrls(patterns: string[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ allowedUrls: patterns }, resolve);
+  });
+}
+
+// Load the enabled soft hiding packs from storage
+async function loadHidePacks(): Promise<string[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["hidePacks"], (result) => {
+      resolve(Array.isArray(result.hidePacks) ? result.hidePacks : []);
+    });
+  });
+}
+
+// Save the enabled soft hiding packs to storage
+async function saveHidePacks(packIds: string[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ hidePacks: packIds }, resolve);
+  });
+}
+
+// Load custom soft hiding rules from storage
+async function loadHideRules(): Promise<HideRule[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["hideRules"], (result) => {
+      resolve(Array.isArray(result.hideRules) ? result.hideRules : []);
+    });
+  });
+}
+
+// Save custom soft hiding rules to storage (the service worker sends them to tabs with the state)
+async function saveHideRules(rules: HideRule[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ hideRules: rules }, resolve);
+  });
+}
+
 // Load overlay config from storage
 async function loadOverlayConfig(): Promise<OverlayConfig> {
   return new Promise((resolve) => {
@@ -1431,7 +1934,7 @@ async function loadSoundConfig(): Promise<SoundConfig> {
   return new Promise((resolve) => {
     chrome.storage.sync.get(["soundConfig"], (result) => {
       if (result.soundConfig) {
-        resolve({ ...DEFAULT_SOUND_CONFIG, ...result.soundConfig });
+        resolve({ ...DEFAULT_SOUND_CONFIG, ...result.soundConfig, speech: normalizeSpeechConfig(result.soundConfig.speech) });
       } else {
         resolve(DEFAULT_SOUND_CONFIG);
       }
@@ -1446,6 +1949,176 @@ async function saveSoundConfig(config: SoundConfig): Promise<void> {
   });
 }
 
+// Load per-project notification profiles from storage
+async function loadNotificationProfiles(): Promise<NotificationProfile[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["notificationProfiles"], (result) => {
+      resolve(Array.isArray(result.notificationProfiles) ? result.notificationProfiles : []);
+    });
+  });
+}
+
+// Save per-project notification profiles to storage
+async function saveNotificationProfiles(profiles: NotificationProfile[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ notificationProfiles: profiles }, resolve);
+  });
+}
+
+// Load quiet hours from storage
+async function loadQuietConfig(): Promise<QuietConfig> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["quietConfig"], (result) => {
+      resolve({ ...DEFAULT_QUIET_CONFIG, ...result.quietConfig });
+    });
+  });
+}
+
+// Save quiet hours to storage
+async function saveQuietConfig(config: QuietConfig): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ quietConfig: config }, resolve);
+  });
+}
+
+// Load end-of-day summary settings from storage
+async function loadDailySummaryConfig(): Promise<DailySummaryConfig> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["dailySummaryConfig"], (result) => {
+      resolve({ ...DEFAULT_DAILY_SUMMARY_CONFIG, ...result.dailySummaryConfig });
+    });
+  });
+}
+
+// Save end-of-day summary settings to storage
+async function saveDailySummaryConfig(config: DailySummaryConfig): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ dailySummaryConfig: config }, resolve);
+  });
+}
+
+// Load waiting reminder config from storage
+async function loadReminderConfig(): Promise<ReminderConfig> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["reminderConfig"], (result) => {
+      resolve({ ...DEFAULT_REMINDER_CONFIG, ...result.reminderConfig });
+    });
+  });
+}
+
+// Save waiting reminder config to storage (the service worker reschedules pending reminders)
+async function saveReminderConfig(config: ReminderConfig): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ reminderConfig: config }, resolve);
+  });
+}
+
+// Load retention policy from storage (kept in sync with the server by the service worker)
+async function loadRetentionDays(): Promise<RetentionDays> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["retentionDays"], (result) => {
+      resolve(result.retentionDays !== undefined ? result.retentionDays : DEFAULT_RETENTION_DAYS);
+    });
+  });
+}
+
+// Load server address from storage
+async function loadServerAddress(): Promise<ServerAddress> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["serverAddress"], (result) => {
+      resolve({ ...DEFAULT_SERVER_ADDRESS, ...result.serverAddress });
+    });
+  });
+}
+
+// Save server address to storage (the service worker reconnects on change)
+async function saveServerAddress(address: ServerAddress): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ serverAddress: address }, resolve);
+  });
+}
+
+// Load blocking schedules from storage
+async function loadBlockSchedules(): Promise<BlockSchedule[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["blockSchedules"], (result) => {
+      resolve(Array.isArray(result.blockSchedules) ? result.blockSchedules : []);
+    });
+  });
+}
+
+// Save blocking schedules to storage (the service worker re-evaluates and broadcasts)
+async function saveBlockSchedules(schedules: BlockSchedule[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ blockSchedules: schedules }, resolve);
+  });
+}
+
+// Load grace period config from storage
+async function loadGraceConfig(): Promise<GraceConfig> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["graceConfig"], (result) => {
+      resolve({ ...DEFAULT_GRACE_CONFIG, ...result.graceConfig });
+    });
+  });
+}
+
+// Save grace period config to storage
+async function saveGraceConfig(config: GraceConfig): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ graceConfig: config }, resolve);
+  });
+}
+
+// Load bypass policy from storage
+async function loadBypassPolicy(): Promise<BypassPolicy> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(["bypassPolicy"], (result) => {
+      resolve({ ...DEFAULT_BYPASS_POLICY, ...result.bypassPolicy });
+    });
+  });
+}
+
+// Save bypass policy to storage (the service worker applies it to the next bypass)
+async function saveBypassPolicy(policy: BypassPolicy): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.set({ bypassPolicy: policy }, resolve);
+  });
+}
+
+// Bypasses granted on a date (logged by the service worker)
+async function loadBypassLog(date: string): Promise<BypassLogEntry[]> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "GET_BYPASS_LOG", date }, (response) => {
+      resolve(response?.success && Array.isArray(response.entries) ? response.entries : []);
+    });
+  });
+}
+
+// Distraction stats for a date (recorded by the service worker)
+async function loadDistractionStats(date: string): Promise<DistractionStats> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "GET_DISTRACTION_STATS", date }, (response) => {
+      resolve(
+        response?.success && response.stats
+          ? response.stats
+          : { date, domains: {}, hourlyAttempts: new Array(24).fill(0), bypasses: 0 }
+      );
+    });
+  });
+}
+
+// Load budget config from the server (through the service worker)
+async function loadBudgetConfig(): Promise<BudgetConfig> {
+  const response = await new Promise<{ success: boolean; config?: { budget?: BudgetConfig } } | undefined>(
+    (resolve) => {
+      chrome.runtime.sendMessage({ type: "GET_SERVER_CONFIG" }, resolve);
+    }
+  );
+  budgetServerReachable = !!response?.success;
+  return { ...DEFAULT_BUDGET_CONFIG, ...response?.config?.budget };
+}
+
 // Load terminal config from storage
 async function loadTerminalConfig(): Promise<TerminalConfig> {
   return new Promise((resolve) => {
@@ -1489,32 +2162,110 @@ async function saveEditorConfig(config: EditorConfig): Promise<void> {
 // Save domains to storage
 async function saveDomains(domains: string[]): Promise<void> {
   return new Promise((resolve) => {
-    chrome.storage.sync.set({ blockedDomains: domains }, () => {
-      chrome.tabs.query({}, (tabs) => {
-        for (const tab of tabs) {
-          if (tab.id) {
-            chrome.tabs.sendMessage(tab.id, { type: "DOMAINS_UPDATED", domains }).catch(() => {});
-          }
-        }
-      });
-      resolve();
-    });
+    // The service worker rebroadcasts state (with schedules applied) on storage changes
+    chrome.storage.sync.set({ blockedDomains: domains }, resolve);
   });
 }
 
-// Normalize domain input
-function normalizeDomain(input: string): string {
-  let domain = input.toLowerCase().trim();
-  domain = domain.replace(/^https?:\/\//, "");
-  domain = domain.replace(/^www\./, "");
-  domain = domain.replace(/\/.*$/, "");
-  return domain;
+// Plain-language description of what a rule covers
+function describeUrlRule(rule: UrlRule): string {
+  switch (rule.kind) {
+    case "domain":
+      return `All of ${rule.host} and its subdomains`;
+    case "path":
+      return `Pages under ${rule.pattern} on ${rule.host} and its subdomains`;
+    case "regex":
+      return "Full URLs matching the regular expression";
+  }
+}
+
+// Live validation while typing a rule
+function updateRuleFeedback(input: HTMLInputElement, feedback: HTMLElement): void {
+  const pattern = normalizeUrlRule(input.value);
+  if (!pattern) {
+    feedback.textContent = "";
+    feedback.classList.remove("error");
+    return;
+  }
+  const rule = parseUrlRule(pattern);
+  feedback.textContent = typeof rule === "string" ? rule : describeUrlRule(rule);
+  feedback.classList.toggle("error", typeof rule === "string");
+}
+
+// Normalize and validate a rule input; returns null (and flags the input) when invalid
+function readRuleInput(input: HTMLInputElement, feedback: HTMLElement): string | null {
+  const pattern = normalizeUrlRule(input.value);
+  if (!pattern) return null;
+
+  if (typeof parseUrlRule(pattern) === "string") {
+    updateRuleFeedback(input, feedback);
+    input.classList.add("error");
+    setTimeout(() => input.classList.remove("error"), 400);
+    return null;
+  }
+  return pattern;
+}
+
+// "Test a URL": show which rule decides it
+function updateRuleTestResult(): void {
+  const raw = ruleTestInput.value.trim();
+  ruleTestResult.classList.remove("blocked", "allowed");
+  if (!raw) {
+    ruleTestResult.textContent = "";
+    return;
+  }
+
+  const href = /^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`;
+  try {
+    new URL(href);
+  } catch {
+    ruleTestResult.textContent = "Not a valid URL";
+    return;
+  }
+
+  const match = evaluateUrl(href, currentDomains, currentAllowedUrls);
+  if (match.blocked) {
+    const scheduled = currentBlockSchedules.some((s) => s.enabled && s.domain === match.blockedBy);
+    ruleTestResult.textContent = `Blocked by ${match.blockedBy}${scheduled ? " (during its schedule)" : ""}`;
+    ruleTestResult.classList.add("blocked");
+  } else if (match.allowedBy) {
+    ruleTestResult.textContent = `Allowed by ${match.allowedBy} (overrides ${match.blockedBy})`;
+    ruleTestResult.classList.add("allowed");
+  } else {
+    ruleTestResult.textContent = "Not blocked";
+  }
 }
 
-// Validate domain format
-function isValidDomain(domain: string): boolean {
-  const regex = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*\.[a-z]{2,}$/;
-  return regex.test(domain);
+function createRuleItem(pattern: string, title: string, onRemove: () => void, detail?: string): HTMLLIElement {
+  const li = document.createElement("li");
+  li.className = "domain-item";
+
+  const nameSpan = document.createElement("span");
+  nameSpan.className = "domain-name";
+  nameSpan.textContent = pattern;
+  li.appendChild(nameSpan);
+
+  if (detail) {
+    const detailSpan = document.createElement("span");
+    detailSpan.className = "rule-detail";
+    detailSpan.textContent = detail;
+    detailSpan.title = detail;
+    li.appendChild(detailSpan);
+  }
+
+  const removeBtn = document.createElement("button");
+  removeBtn.className = "remove-btn";
+  removeBtn.title = title;
+  removeBtn.innerHTML = `
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+      <line x1="18" y1="6" x2="6" y2="18"/>
+      <line x1="6" y1="6" x2="18" y2="18"/>
+    </svg>
+  `;
+  removeBtn.addEventListener("click", onRemove);
+
+  li.appendChild(removeBtn);
+  return li;
 }
 
 // Render the domain list
@@ -1526,39 +2277,167 @@ function renderDomains(): void {
     const empty = document.createElement("li");
     empty.className = "empty-state";
     domainList.appendChild(empty);
-    return;
   }
 
   for (const domain of currentDomains) {
-    const li = document.createElement("li");
-    li.className = "domain-item";
+    domainList.appendChild(createRuleItem(domain, "Remove site", () => removeDomain(domain)));
+  }
 
-    const nameSpan = document.createElement("span");
-    nameSpan.className = "domain-name";
-    nameSpan.textContent = domain;
+  renderCategoryPresets();
+  refreshScheduleDomainOptions();
+  updateRuleTestResult();
+}
 
-    const removeBtn = document.createElement("button");
-    removeBtn.className = "remove-btn";
-    removeBtn.title = "Remove site";
-    removeBtn.innerHTML = `
-      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-        <line x1="18" y1="6" x2="6" y2="18"/>
-        <line x1="6" y1="6" x2="18" y2="18"/>
-      </svg>
-    `;
-    removeBtn.addEventListener("click", () => removeDomain(domain));
+// Category toggles; partly blocked categories show as indeterminate
+function renderCategoryPresets(): void {
+  categoryPresets.innerHTML = "";
+  for (const category of DOMAIN_CATEGORIES) {
+    const coverage = getCategoryCoverage(category, currentDomains);
+    const blocked = category.domains.filter((domain) => currentDomains.includes(domain)).length;
+
+    const chip = document.createElement("label");
+    chip.className = `category-chip ${coverage}`;
+    chip.title = category.domains.join(", ");
+
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = coverage === "all";
+    input.indeterminate = coverage === "some";
+    input.addEventListener("change", () => toggleCategory(category, input.checked));
+
+    const count = document.createElement("span");
+    count.className = "category-count";
+    count.textContent = `${blocked}/${category.domains.length}`;
+
+    chip.append(input, category.label, count);
+    categoryPresets.appendChild(chip);
+  }
+}
+
+async function toggleCategory(category: DomainCategory, enabled: boolean): Promise<void> {
+  currentDomains = setCategoryEnabled(category, currentDomains, enabled).sort();
+  await saveDomains(currentDomains);
+  renderDomains();
+  showToast(`${category.label} sites ${enabled ? "blocked" : "unblocked"}`);
+}
 
-    li.appendChild(nameSpan);
-    li.appendChild(removeBtn);
-    domainList.appendChild(li);
+// Soft hiding pack toggles
+function renderHidePacks(): void {
+  hidePacksEl.innerHTML = "";
+  for (const pack of HIDE_PACKS) {
+    const enabled = currentHidePacks.includes(pack.id);
+    const chip = document.createElement("label");
+    chip.className = `category-chip ${enabled ? "all" : "none"}`;
+    chip.title = `${pack.description} (${pack.site})`;
+
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = enabled;
+    input.addEventListener("change", () => toggleHidePack(pack, input.checked));
+
+    chip.append(input, pack.label);
+    hidePacksEl.appendChild(chip);
   }
 }
 
-// Sort sessions based on current mode
-function sortSessions(sessions: Session[]): Session[] {
-  const sorted = [...sessions];
+async function toggleHidePack(pack: HidePack, enabled: boolean): Promise<void> {
+  currentHidePacks = enabled
+    ? [...currentHidePacks.filter((id) => id !== pack.id), pack.id]
+    : currentHidePacks.filter((id) => id !== pack.id);
+  await saveHidePacks(currentHidePacks);
+  renderHidePacks();
+  showToast(`${pack.label} ${enabled ? "hidden while Claude is idle" : "always shown"}`);
+}
 
-  switch (currentSortMode) {
+// Render the custom soft hiding rules
+function renderHideRules(): void {
+  hideList.innerHTML = "";
+  hideCount.textContent = String(currentHideRules.length);
+
+  if (currentHideRules.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "empty-state";
+    hideList.appendChild(empty);
+  }
+
+  for (const rule of currentHideRules) {
+    hideList.appendChild(createRuleItem(rule.site, "Remove hiding rule", () => removeHideRule(rule.id), rule.selector));
+  }
+}
+
+// Returns an error message when the browser can't parse the selector
+function validateHideSelector(selector: string): string | null {
+  if (/[{}]|\/\*/.test(selector)) return "Selectors can't contain braces or comments";
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return null;
+  } catch {
+    return `"${selector}" is not a valid CSS selector`;
+  }
+}
+
+function updateHideFeedback(): void {
+  const selector = hideSelectorInput.value.trim();
+  const selectorError = selector ? validateHideSelector(selector) : null;
+  if (selectorError) {
+    hideFeedback.textContent = selectorError;
+    hideFeedback.classList.add("error");
+    return;
+  }
+  updateRuleFeedback(hideSiteInput, hideFeedback);
+}
+
+async function addHideRule(): Promise<void> {
+  const site = readRuleInput(hideSiteInput, hideFeedback);
+  if (!site) return;
+  const selector = hideSelectorInput.value.trim();
+  const selectorError = selector ? validateHideSelector(selector) : "Enter a CSS selector to hide";
+  if (selectorError) {
+    hideFeedback.textContent = selectorError;
+    hideFeedback.classList.add("error");
+    hideSelectorInput.classList.add("error");
+    setTimeout(() => hideSelectorInput.classList.remove("error"), 400);
+    return;
+  }
+
+  hideSelectorInput.value = "";
+  updateHideFeedback();
+  if (currentHideRules.some((rule) => rule.site === site && rule.selector === selector)) return;
+
+  currentHideRules = [...currentHideRules, { id: crypto.randomUUID(), site, selector }];
+  await saveHideRules(currentHideRules);
+  renderHideRules();
+}
+
+async function removeHideRule(id: string): Promise<void> {
+  currentHideRules = currentHideRules.filter((rule) => rule.id !== id);
+  await saveHideRules(currentHideRules);
+  renderHideRules();
+}
+
+// Render the allowed pages list
+function renderAllowedUrls(): void {
+  allowList.innerHTML = "";
+  allowCount.textContent = String(currentAllowedUrls.length);
+
+  if (currentAllowedUrls.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "empty-state";
+    allowList.appendChild(empty);
+  }
+
+  for (const pattern of currentAllowedUrls) {
+    allowList.appendChild(createRuleItem(pattern, "Remove allowed page", () => removeAllowedUrl(pattern)));
+  }
+
+  updateRuleTestResult();
+}
+
+// Sort sessions based on current mode
+function sortSessions(sessions: Session[]): Session[] {
+  const sorted = [...sessions];
+
+  switch (currentSortMode) {
     case "status": {
       const order = { working: 0, waiting_for_input: 1, idle: 2 };
       return sorted.sort((a, b) => order[a.status] - order[b.status]);
@@ -1839,6 +2718,13 @@ function sessionsStructureChanged(oldSessions: Session[], newSessions: Session[]
   return false;
 }
 
+// Full re-render, e.g. after a project's mute state changed
+function rerenderSessions(): void {
+  const sessions = lastSessions;
+  lastSessions = [];
+  renderSessions(sessions);
+}
+
 // Update only time values in existing DOM (avoids re-render and hover flicker)
 function updateSessionTimes(sessions: Session[]): void {
   const now = Date.now();
@@ -1978,18 +2864,36 @@ function renderSessions(sessions: Session[]): void {
       <path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"/>
     </svg>`;
 
+    const projectMuted = !!findNotificationProfile(currentNotificationProfiles, session)?.muted;
+    const muteIcon = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+      <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"/>
+      <path d="M13.73 21a2 2 0 0 1-3.46 0"/>
+      ${projectMuted ? '<line x1="2" y1="2" x2="22" y2="22"/>' : ""}
+    </svg>`;
+
+    const profileIcon = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+      <line x1="4" y1="21" x2="4" y2="14"/><line x1="4" y1="10" x2="4" y2="3"/>
+      <line x1="12" y1="21" x2="12" y2="12"/><line x1="12" y1="8" x2="12" y2="3"/>
+      <line x1="20" y1="21" x2="20" y2="16"/><line x1="20" y1="12" x2="20" y2="3"/>
+      <line x1="1" y1="14" x2="7" y2="14"/><line x1="9" y1="8" x2="15" y2="8"/><line x1="17" y1="16" x2="23" y2="16"/>
+    </svg>`;
+
     const actionsHtml = `
       <div class="session-actions">
         <button class="session-action-btn copy-id-btn" data-session-index="${index}" data-tooltip="Copy session ID">
           ${copyIcon}
         </button>
-        ${session.cwd ? `
-        <button class="session-action-btn open-folder-btn" data-session-index="${index}" data-tooltip="Open in Finder">
+        ${session.cwd && isActionSupported("openFolder") ? `
+        <button class="session-action-btn open-folder-btn" data-session-index="${index}" data-tooltip="Open in ${getFileManagerName()}">
           ${folderIcon}
         </button>
-        <button class="session-action-btn open-terminal-btn" data-session-index="${index}" data-tooltip="Resume in Terminal">
+        ` : ""}
+        ${session.cwd && isActionSupported("openTerminal") ? `
+        <button class="session-action-btn open-terminal-btn" data-session-index="${index}" data-tooltip="Focus in Terminal">
           ${terminalIcon}
         </button>
+        ` : ""}
+        ${session.cwd && isActionSupported("openEditor") ? `
         <button class="session-action-btn open-editor-btn" data-session-index="${index}" data-tooltip="Open in Editor">
           ${editorIcon}
         </button>
@@ -1997,6 +2901,12 @@ function renderSessions(sessions: Session[]): void {
         <button class="session-action-btn copy-command-btn" data-session-index="${index}" data-tooltip="Copy resume command">
           ${commandIcon}
         </button>
+        <button class="session-action-btn mute-project-btn${projectMuted ? " muted" : ""}" data-session-index="${index}" data-tooltip="${projectMuted ? "Unmute project" : "Mute project"}">
+          ${muteIcon}
+        </button>
+        <button class="session-action-btn edit-profile-btn" data-session-index="${index}" data-tooltip="Notification profile">
+          ${profileIcon}
+        </button>
       </div>
     `;
 
@@ -2010,7 +2920,7 @@ function renderSessions(sessions: Session[]): void {
       : "";
 
     return `
-      <div class="session-card">
+      <div class="session-card" data-session-id="${session.id}">
         <div class="session-header">
           <span class="session-dot ${dotClass}"></span>
           <div class="session-title">
@@ -2052,9 +2962,9 @@ function renderSessions(sessions: Session[]): void {
       if (actionCwd) {
         const result = await executeSessionAction("open-folder", { cwd: actionCwd });
         if (result.success) {
-          showToast(`Opened <strong>${session.projectName}</strong> in Finder`);
+          showToast(`Opened <strong>${session.projectName}</strong> in ${getFileManagerName()}`);
         } else {
-          showToast(`Copied path to clipboard`, "info");
+          showToast(result.error || "Failed to open folder", "error");
         }
       }
     });
@@ -2068,15 +2978,25 @@ function renderSessions(sessions: Session[]): void {
       const session = sorted[index];
       const actionCwd = session.initialCwd || session.cwd;
       if (actionCwd) {
-        const result = await executeSessionAction("open-terminal", {
+        // Live session: focus its terminal if it's still running
+        const result = await executeSessionAction("focus-session", {
           cwd: actionCwd,
           sessionId: session.id,
           terminalApp: currentTerminalConfig.app,
         });
-        if (result.success && !result.fallback) {
+        if (result.success && result.focused) {
+          showToast(`Focused <strong>${session.projectName}</strong>`);
+        } else if (result.success && result.appActivated) {
+          showToast(
+            `Brought ${currentTerminalConfig.app} to the front - switch to the <strong>${session.projectName}</strong> tab`,
+            "info"
+          );
+        } else if (result.success && !result.fallback) {
           showToast(`Opened <strong>${session.projectName}</strong> in ${currentTerminalConfig.app}`);
-        } else {
+        } else if (result.success) {
           showToast(`Copied resume command to clipboard`, "info");
+        } else {
+          showToast(result.error || "Failed to open terminal", "error");
         }
       }
     });
@@ -2096,8 +3016,10 @@ function renderSessions(sessions: Session[]): void {
         });
         if (result.success && !result.fallback) {
           showToast(`Opened <strong>${session.projectName}</strong> in ${currentEditorConfig.app}`);
-        } else {
+        } else if (result.success) {
           showToast(`Copied editor command to clipboard`, "info");
+        } else {
+          showToast(result.error || "Failed to open editor", "error");
         }
       }
     });
@@ -2114,6 +3036,24 @@ function renderSessions(sessions: Session[]): void {
     });
   });
 
+  sessionsList.querySelectorAll(".mute-project-btn").forEach((btn) => {
+    const button = btn as HTMLButtonElement;
+    const index = parseInt(button.dataset.sessionIndex || "0", 10);
+    button.addEventListener("click", (e) => {
+      e.stopPropagation();
+      toggleProjectMute(sorted[index]);
+    });
+  });
+
+  sessionsList.querySelectorAll(".edit-profile-btn").forEach((btn) => {
+    const button = btn as HTMLButtonElement;
+    const index = parseInt(button.dataset.sessionIndex || "0", 10);
+    button.addEventListener("click", (e) => {
+      e.stopPropagation();
+      editProjectProfile(sorted[index]);
+    });
+  });
+
   // Add click to copy session ID (existing functionality)
   sessionsList.querySelectorAll(".session-id").forEach((el, i) => {
     el.addEventListener("click", () => {
@@ -2174,8 +3114,8 @@ function renderHistory(): void {
         <button class="history-action-btn copy-history-id-btn" data-history-index="${index}" data-tooltip="Copy session ID">
           ${copyIcon}
         </button>
-        ${session.cwd ? `
-        <button class="history-action-btn open-history-folder-btn" data-history-index="${index}" data-tooltip="Open in Finder">
+        ${session.cwd && isActionSupported("openFolder") ? `
+        <button class="history-action-btn open-history-folder-btn" data-history-index="${index}" data-tooltip="Open in ${getFileManagerName()}">
           ${folderIcon}
         </button>
         ` : ""}
@@ -2251,9 +3191,9 @@ function renderHistory(): void {
       if (actionCwd) {
         const result = await executeSessionAction("open-folder", { cwd: actionCwd });
         if (result.success) {
-          showToast(`Opened <strong>${session.projectName}</strong> in Finder`);
+          showToast(`Opened <strong>${session.projectName}</strong> in ${getFileManagerName()}`);
         } else {
-          showToast(`Copied path to clipboard`, "info");
+          showToast(result.error || "Failed to open folder", "error");
         }
       }
     });
@@ -2287,6 +3227,7 @@ function updateNotificationSettingsUI(): void {
   notifyWaiting.checked = currentNotificationConfig.onWaiting;
   notifyFinished.checked = currentNotificationConfig.onFinished;
   notifyDisconnected.checked = currentNotificationConfig.onDisconnected;
+  notifyBudget.checked = currentNotificationConfig.onBudget;
   updateSubTogglesState();
 }
 
@@ -2295,9 +3236,9 @@ function updateSoundSettingsUI(): void {
   soundEnabled.checked = currentSoundConfig.enabled;
   soundVolume.value = String(currentSoundConfig.volume);
   volumeValue.textContent = `${currentSoundConfig.volume}%`;
-  soundWaiting.value = currentSoundConfig.perEvent.onWaiting;
-  soundFinished.value = currentSoundConfig.perEvent.onFinished;
-  soundDisconnected.value = currentSoundConfig.perEvent.onDisconnected;
+  fillSoundSelect(soundWaiting, currentSoundConfig.perEvent.onWaiting, [["none", "None"]]);
+  fillSoundSelect(soundFinished, currentSoundConfig.perEvent.onFinished, [["none", "None"]]);
+  fillSoundSelect(soundDisconnected, currentSoundConfig.perEvent.onDisconnected, [["none", "None"]]);
   updateSoundSettingsState();
 }
 
@@ -2318,16 +3259,165 @@ function updateSoundSettingsState(): void {
     }
   }
 
-  // Update test buttons
-  const testButtons = [testSoundSubtle, testSoundClear, testSoundSay];
-  for (const btn of testButtons) {
+  for (const btn of Array.from(soundPreviewBtns)) {
     btn.disabled = !enabled;
   }
 }
 
+function getSoundLabel(sound: SoundStyle): string {
+  const clipId = getSoundClipId(sound);
+  if (clipId) return soundClips.find((clip) => clip.id === clipId)?.name ?? "Deleted sound";
+  return BUILTIN_SOUNDS.find((builtin) => builtin.id === sound)?.label ?? sound;
+}
+
+// Built-in sounds, then the library; leading options (e.g. "none") come first. A value that's no longer
+// available (a deleted clip) stays selected and shows as such
+function fillSoundSelect(select: HTMLSelectElement, value: SoundStyle, leading: Array<[string, string]>): void {
+  select.innerHTML = "";
+  const addOption = (parent: HTMLElement, optionValue: string, label: string) => {
+    const option = document.createElement("option");
+    option.value = optionValue;
+    option.textContent = label;
+    parent.appendChild(option);
+  };
+
+  for (const [optionValue, label] of leading) {
+    addOption(select, optionValue, label);
+  }
+  for (const builtin of BUILTIN_SOUNDS) {
+    addOption(select, builtin.id, builtin.label);
+  }
+  if (soundClips.length > 0) {
+    const group = document.createElement("optgroup");
+    group.label = "Your sounds";
+    for (const clip of soundClips) {
+      addOption(group, getCustomSoundId(clip.id), clip.name);
+    }
+    select.appendChild(group);
+  }
+  if (!Array.from(select.options).some((option) => option.value === value)) {
+    addOption(select, value, getSoundLabel(value));
+  }
+  select.value = value;
+}
+
+// Re-fill every sound picker after the library changed, keeping what each one has selected
+function refreshSoundPickers(): void {
+  fillSoundSelect(soundWaiting, soundWaiting.value, [["none", "None"]]);
+  fillSoundSelect(soundFinished, soundFinished.value, [["none", "None"]]);
+  fillSoundSelect(soundDisconnected, soundDisconnected.value, [["none", "None"]]);
+  for (const select of Array.from(reminderList.querySelectorAll<HTMLSelectElement>("select.reminder-sound"))) {
+    fillSoundSelect(select, select.value, [["none", "Notification only"]]);
+  }
+  for (const select of Array.from(profileList.querySelectorAll<HTMLSelectElement>("select.profile-sound"))) {
+    fillSoundSelect(select, select.value, [["default", "Default sound"], ["none", "No sound"]]);
+  }
+}
+
+function formatClipSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function renderSoundClips(): void {
+  soundClipList.innerHTML = "";
+  for (const clip of soundClips) {
+    const row = document.createElement("div");
+    row.className = "sound-clip";
+
+    const name = document.createElement("span");
+    name.className = "sound-clip-name";
+    name.textContent = clip.name;
+    row.appendChild(name);
+
+    const meta = document.createElement("span");
+    meta.className = "sound-clip-meta";
+    meta.textContent = `${clip.duration.toFixed(1)}s · ${formatClipSize(clip.size)}`;
+    row.appendChild(meta);
+
+    const previewBtn = document.createElement("button");
+    previewBtn.type = "button";
+    previewBtn.className = "sound-preview-btn";
+    previewBtn.title = "Preview";
+    previewBtn.textContent = "▶";
+    previewBtn.addEventListener("click", () => testSound(getCustomSoundId(clip.id)));
+    row.appendChild(previewBtn);
+
+    const removeBtn = document.createElement("button");
+    removeBtn.type = "button";
+    removeBtn.className = "schedule-remove-btn";
+    removeBtn.textContent = "Delete";
+    removeBtn.addEventListener("click", () => handleSoundClipDelete(clip));
+    row.appendChild(removeBtn);
+
+    soundClipList.appendChild(row);
+  }
+}
+
+// Decode an uploaded file to check it plays and how long it is
+async function getAudioDuration(file: File): Promise<number | null> {
+  const ctx = new AudioContext();
+  try {
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    return buffer.duration;
+  } catch {
+    return null;
+  } finally {
+    ctx.close();
+  }
+}
+
+async function handleSoundUpload(file: File): Promise<void> {
+  if (soundClips.length >= MAX_SOUND_CLIPS) {
+    showToast(`The library holds up to ${MAX_SOUND_CLIPS} sounds`, "error");
+    return;
+  }
+  if (file.size > MAX_SOUND_CLIP_BYTES) {
+    showToast(`${escapeHtml(file.name)} is larger than ${formatClipSize(MAX_SOUND_CLIP_BYTES)}`, "error");
+    return;
+  }
+
+  const duration = await getAudioDuration(file);
+  if (duration === null) {
+    showToast(`${escapeHtml(file.name)} isn't an audio file this browser can play`, "error");
+    return;
+  }
+  if (duration > MAX_SOUND_CLIP_SECONDS) {
+    showToast(`Sounds can be up to ${MAX_SOUND_CLIP_SECONDS} seconds long`, "error");
+    return;
+  }
+
+  const clip: SoundClip = {
+    id: crypto.randomUUID(),
+    name: file.name.replace(/\.[^.]+$/, "") || file.name,
+    type: file.type,
+    size: file.size,
+    duration,
+    addedAt: Date.now(),
+  };
+  try {
+    await saveSoundClip(clip, file);
+  } catch (error) {
+    showToast(`Couldn't save the sound: ${String(error)}`, "error");
+    return;
+  }
+  soundClips = [...soundClips, clip];
+  renderSoundClips();
+  refreshSoundPickers();
+  showToast(`Added <strong>${escapeHtml(clip.name)}</strong> to your sounds`);
+}
+
+// Settings still pointing at a deleted clip play the built-in fallback until changed
+async function handleSoundClipDelete(clip: SoundClip): Promise<void> {
+  await deleteSoundClip(clip.id);
+  soundClips = soundClips.filter((c) => c.id !== clip.id);
+  renderSoundClips();
+  refreshSoundPickers();
+  showToast(`Deleted <strong>${escapeHtml(clip.name)}</strong>`);
+}
+
 // Update sub-toggles disabled state based on master toggle
 function updateSubTogglesState(): void {
-  const subToggles = [notifyWaiting, notifyFinished, notifyDisconnected];
+  const subToggles = [notifyWaiting, notifyFinished, notifyDisconnected, notifyBudget];
   const enabled = notificationsEnabled.checked;
 
   for (const toggle of subToggles) {
@@ -2384,6 +3474,7 @@ async function handleNotificationChange(): Promise<void> {
     onWaiting: notifyWaiting.checked,
     onFinished: notifyFinished.checked,
     onDisconnected: notifyDisconnected.checked,
+    onBudget: notifyBudget.checked,
   };
 
   updateSubTogglesState();
@@ -2400,6 +3491,7 @@ async function handleSoundChange(): Promise<void> {
       onFinished: soundFinished.value as SoundStyle,
       onDisconnected: soundDisconnected.value as SoundStyle,
     },
+    speech: currentSoundConfig.speech,
   };
 
   volumeValue.textContent = `${currentSoundConfig.volume}%`;
@@ -2408,12 +3500,20 @@ async function handleSoundChange(): Promise<void> {
 }
 
 // Test sound function
-async function testSound(sound: SoundStyle): Promise<void> {
+async function testSound(
+  sound: SoundStyle,
+  volume?: number,
+  message = "This is a test notification",
+  speech?: Pick<SpeechConfig, "voice" | "rate" | "pitch">
+): Promise<void> {
+  if (sound === "none") {
+    showToast("No sound selected");
+    return;
+  }
   try {
-    const message = sound === "say" ? "This is a test notification" : undefined;
     await new Promise<void>((resolve, reject) => {
       chrome.runtime.sendMessage(
-        { type: "TEST_SOUND", sound, message },
+        { type: "TEST_SOUND", sound, message: sound === "say" ? message : undefined, volume, speech },
         (response) => {
           if (chrome.runtime.lastError) {
             reject(new Error(chrome.runtime.lastError.message || "Service worker not ready"));
@@ -2427,15 +3527,149 @@ async function testSound(sound: SoundStyle): Promise<void> {
         }
       );
     });
-    showToast(`Playing ${sound} sound`, "success");
+    showToast(`Playing ${escapeHtml(getSoundLabel(sound))}`, "success");
   } catch (error) {
     showToast(`Sound failed: ${String(error)}`, "error");
   }
 }
 
-// Update terminal settings UI
+// Voices load asynchronously; keeps the saved voice selected even before (or if never) it shows up
+function fillSpeechVoices(): void {
+  const selected = speechVoice.value || currentSoundConfig.speech.voice;
+  speechVoice.innerHTML = '<option value="">Automatic</option>';
+  const voices = window.speechSynthesis?.getVoices() ?? [];
+  for (const voice of voices) {
+    const option = document.createElement("option");
+    option.value = voice.voiceURI;
+    option.textContent = `${voice.name} (${voice.lang})`;
+    speechVoice.appendChild(option);
+  }
+  if (selected && !voices.some((voice) => voice.voiceURI === selected)) {
+    const option = document.createElement("option");
+    option.value = selected;
+    option.textContent = `${selected} (unavailable)`;
+    speechVoice.appendChild(option);
+  }
+  speechVoice.value = selected;
+}
+
+function updateSpeechValueLabels(): void {
+  speechRateValue.textContent = `${Number(speechRate.value).toFixed(1)}×`;
+  speechPitchValue.textContent = Number(speechPitch.value).toFixed(1);
+}
+
+function readSpeechVoice(): Pick<SpeechConfig, "voice" | "rate" | "pitch"> {
+  return { voice: speechVoice.value, rate: Number(speechRate.value), pitch: Number(speechPitch.value) };
+}
+
+function renderSpeechTemplates(templates: Record<AnnouncementEvent, string>): void {
+  speechTemplates.innerHTML = "";
+  for (const { event, label } of SPEECH_EVENTS) {
+    const row = document.createElement("div");
+    row.className = "setting-row speech-template-row";
+
+    const labelEl = document.createElement("label");
+    labelEl.htmlFor = `speech-template-${event}`;
+    labelEl.textContent = label;
+    row.appendChild(labelEl);
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.id = `speech-template-${event}`;
+    input.className = "setting-input speech-template";
+    input.dataset.event = event;
+    input.placeholder = DEFAULT_ANNOUNCEMENT_TEMPLATES[event];
+    input.value = templates[event];
+    row.appendChild(input);
+
+    const previewBtn = document.createElement("button");
+    previewBtn.type = "button";
+    previewBtn.className = "sound-preview-btn";
+    previewBtn.title = "Preview with sample values";
+    previewBtn.textContent = "▶";
+    previewBtn.addEventListener("click", () => {
+      const text = renderAnnouncement(input.value || input.placeholder, SAMPLE_ANNOUNCEMENT_VALUES);
+      testSound("say", undefined, text, readSpeechVoice());
+    });
+    row.appendChild(previewBtn);
+
+    speechTemplates.appendChild(row);
+  }
+}
+
+function renderSpeechVariables(): void {
+  speechVariables.innerHTML = "";
+  for (const { name, description } of ANNOUNCEMENT_VARIABLES) {
+    const chip = document.createElement("code");
+    chip.className = "speech-variable";
+    chip.textContent = `{${name}}`;
+    chip.title = description;
+    speechVariables.appendChild(chip);
+  }
+}
+
+function updateSpeechSettingsUI(): void {
+  const { rate, pitch, templates } = currentSoundConfig.speech;
+  fillSpeechVoices();
+  speechRate.value = String(rate);
+  speechPitch.value = String(pitch);
+  updateSpeechValueLabels();
+  renderSpeechTemplates(templates);
+}
+
+// Empty templates fall back to the default for that event
+async function handleSpeechSave(): Promise<void> {
+  const templates = { ...DEFAULT_ANNOUNCEMENT_TEMPLATES };
+  for (const input of Array.from(speechTemplates.querySelectorAll<HTMLInputElement>(".speech-template"))) {
+    const template = input.value.trim();
+    if (template) templates[input.dataset.event as AnnouncementEvent] = template;
+  }
+
+  currentSoundConfig = { ...currentSoundConfig, speech: { ...readSpeechVoice(), templates } };
+  await saveSoundConfig(currentSoundConfig);
+  renderSpeechTemplates(templates);
+  showToast("Announcements saved");
+}
+
+// Unknown capabilities (server offline or older) show every action
+function isActionSupported(action: keyof PlatformCapabilities["actions"]): boolean {
+  return currentCapabilities?.actions[action] !== false;
+}
+
+function getFileManagerName(): string {
+  return currentCapabilities?.fileManager ?? "Finder";
+}
+
+// Update terminal settings UI - only offer terminals detected on the server's machine
 function updateTerminalSettingsUI(): void {
-  terminalApp.value = currentTerminalConfig.app;
+  const detected = currentCapabilities?.terminals;
+  Array.from(terminalApp.options).forEach((option) => {
+    option.hidden = !!detected && !detected.includes(option.value as TerminalApp);
+  });
+  terminalApp.disabled = !!detected && detected.length === 0;
+
+  if (!detected) {
+    terminalDesc.textContent = "Select your preferred terminal for session actions";
+  } else if (detected.length === 0) {
+    terminalDesc.textContent = "No supported terminal was found on the server's machine";
+  } else {
+    terminalDesc.textContent = "Terminals detected on the server's machine";
+  }
+
+  // The server falls back to the first detected terminal, so show that instead of a missing one
+  if (detected && detected.length > 0 && !detected.includes(currentTerminalConfig.app)) {
+    terminalApp.value = detected[0];
+  } else {
+    terminalApp.value = currentTerminalConfig.app;
+  }
+}
+
+// Re-render capability-dependent UI when the server reports different capabilities
+function updateCapabilities(capabilities: PlatformCapabilities | null): void {
+  if (JSON.stringify(capabilities) === JSON.stringify(currentCapabilities)) return;
+  currentCapabilities = capabilities;
+  updateTerminalSettingsUI();
+  renderHistory();
 }
 
 // Handle terminal settings changes
@@ -2446,6 +3680,401 @@ async function handleTerminalChange(): Promise<void> {
   await saveTerminalConfig(currentTerminalConfig);
 }
 
+// Update retention settings UI
+function updateRetentionSettingsUI(): void {
+  // The presets, plus the current value when the server was started with another --retention
+  const options = RETENTION_OPTIONS.some((option) => option.value === currentRetentionDays)
+    ? RETENTION_OPTIONS
+    : [
+        ...RETENTION_OPTIONS,
+        { value: currentRetentionDays, label: `${currentRetentionDays} day${currentRetentionDays === 1 ? "" : "s"}` },
+      ].sort((a, b) => (a.value ?? Infinity) - (b.value ?? Infinity));
+
+  retentionDaysSelect.innerHTML = "";
+  for (const { value, label } of options) {
+    const option = document.createElement("option");
+    option.value = value === null ? "forever" : String(value);
+    option.textContent = label;
+    retentionDaysSelect.appendChild(option);
+  }
+  retentionDaysSelect.value = currentRetentionDays === null ? "forever" : String(currentRetentionDays);
+}
+
+// Handle retention changes - the server owns the policy, so this goes through the service worker
+async function handleRetentionChange(): Promise<void> {
+  const value = retentionDaysSelect.value;
+  const retentionDays: RetentionDays = value === "forever" ? null : parseInt(value, 10);
+
+  const response = await new Promise<{ success: boolean; retentionDays?: RetentionDays; error?: string } | undefined>(
+    (resolve) => {
+      chrome.runtime.sendMessage({ type: "SET_RETENTION", retentionDays }, resolve);
+    }
+  );
+
+  if (response?.success) {
+    currentRetentionDays = response.retentionDays ?? retentionDays;
+    showToast(
+      currentRetentionDays === null
+        ? "History will be kept forever"
+        : `History will be kept for ${currentRetentionDays} days`
+    );
+  } else {
+    showToast(`Couldn't update retention: ${response?.error ?? "service worker not ready"}`, "error");
+  }
+  updateRetentionSettingsUI();
+}
+
+// Update server address settings UI
+function updateServerAddressSettingsUI(): void {
+  serverHostInput.value = currentServerAddress.host;
+  serverPortInput.value = String(currentServerAddress.port);
+  serverAddressStatus.textContent = `http://${currentServerAddress.host}:${currentServerAddress.port}`;
+}
+
+// Handle server address save
+async function handleServerAddressSave(): Promise<void> {
+  const host = serverHostInput.value.trim() || DEFAULT_SERVER_ADDRESS.host;
+  const port = serverPortInput.value.trim() === "" ? DEFAULT_SERVER_ADDRESS.port : Number(serverPortInput.value);
+
+  if (!/^[A-Za-z0-9.-]+$/.test(host)) {
+    showToast("Host must be a hostname or IP address", "error");
+    return;
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    showToast("Port must be between 1 and 65535", "error");
+    return;
+  }
+
+  currentServerAddress = { host, port };
+  await saveServerAddress(currentServerAddress);
+  updateServerAddressSettingsUI();
+  showToast(`Connecting to <strong>${host}:${port}</strong>`);
+}
+
+// Show pairing state from the latest service worker state
+function updatePairingStatus(state: ExtensionState): void {
+  if (state.serverConnected) {
+    pairingStatus.textContent = "Paired with the server";
+    pairingCodeRow.hidden = true;
+  } else if (state.needsPairing) {
+    pairingStatus.textContent = "Not paired - quick actions and live status need pairing";
+  } else {
+    pairingStatus.textContent = "Server offline";
+  }
+}
+
+// Ask the server for a pairing code (printed in its terminal)
+async function handlePairStart(): Promise<void> {
+  pairStartBtn.disabled = true;
+  const response = await new Promise<{ success: boolean; error?: string } | undefined>((resolve) => {
+    chrome.runtime.sendMessage({ type: "PAIR_START" }, resolve);
+  });
+  pairStartBtn.disabled = false;
+
+  if (response?.success) {
+    pairingCodeRow.hidden = false;
+    pairingCodeInput.value = "";
+    pairingCodeInput.focus();
+    showToast("Pairing code shown in the server terminal", "info");
+  } else {
+    showToast(`Couldn't start pairing: ${response?.error ?? "service worker not ready"}`, "error");
+  }
+}
+
+// Exchange the code for the token (stored by the service worker)
+async function handlePairComplete(): Promise<void> {
+  const code = pairingCodeInput.value.trim();
+  if (!/^\d{6}$/.test(code)) {
+    showToast("Enter the 6-digit code from the server terminal", "error");
+    return;
+  }
+
+  pairCompleteBtn.disabled = true;
+  const response = await new Promise<{ success: boolean; error?: string } | undefined>((resolve) => {
+    chrome.runtime.sendMessage({ type: "PAIR_COMPLETE", code }, resolve);
+  });
+  pairCompleteBtn.disabled = false;
+
+  if (response?.success) {
+    pairingCodeRow.hidden = true;
+    showToast("Paired with the server");
+  } else {
+    showToast(`Pairing failed: ${response?.error ?? "service worker not ready"}`, "error");
+  }
+}
+
+// Format a limit for a number input (empty = no limit)
+function formatBudgetLimit(limit: number | null | undefined): string {
+  return limit ? String(limit) : "";
+}
+
+// Parse a limit input; returns undefined for invalid values
+function parseBudgetLimit(value: string): number | null | undefined {
+  if (value.trim() === "") return null;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+// Add a per-project override row to the budget editor
+function addBudgetProjectRow(projectName = "", limits: Partial<BudgetLimits> = {}): void {
+  const row = document.createElement("div");
+  row.className = "budget-project-row";
+
+  const nameInput = document.createElement("input");
+  nameInput.type = "text";
+  nameInput.className = "setting-input budget-project-name";
+  nameInput.placeholder = "Project name";
+  nameInput.spellcheck = false;
+  nameInput.value = projectName;
+  row.appendChild(nameInput);
+
+  for (const period of BUDGET_PERIODS) {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.className = "setting-input";
+    input.min = "0";
+    input.step = "0.01";
+    input.placeholder = period.charAt(0).toUpperCase() + period.slice(1);
+    input.dataset.period = period;
+    input.value = formatBudgetLimit(limits[period]);
+    row.appendChild(input);
+  }
+
+  const removeBtn = document.createElement("button");
+  removeBtn.type = "button";
+  removeBtn.className = "budget-remove-project-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => row.remove());
+  row.appendChild(removeBtn);
+
+  budgetProjectList.appendChild(row);
+}
+
+// Fill a schedule's domain select; keeps a domain that was removed from the block list visible
+function fillScheduleDomainSelect(select: HTMLSelectElement, selected: string): void {
+  select.innerHTML = "";
+  const domains = selected && !currentDomains.includes(selected) ? [...currentDomains, selected] : currentDomains;
+  for (const domain of domains) {
+    const option = document.createElement("option");
+    option.value = domain;
+    option.textContent = currentDomains.includes(domain) ? domain : `${domain} (not blocked)`;
+    select.appendChild(option);
+  }
+  select.value = selected || currentDomains[0] || "";
+}
+
+function refreshScheduleDomainOptions(): void {
+  for (const select of Array.from(scheduleList.querySelectorAll("select.schedule-domain")) as HTMLSelectElement[]) {
+    fillScheduleDomainSelect(select, select.value);
+  }
+}
+
+function addScheduleRow(schedule?: BlockSchedule): void {
+  const row = document.createElement("div");
+  row.className = "schedule-row";
+  row.dataset.id = schedule?.id ?? crypto.randomUUID();
+
+  const enabledInput = document.createElement("input");
+  enabledInput.type = "checkbox";
+  enabledInput.className = "schedule-enabled";
+  enabledInput.title = "Enabled";
+  enabledInput.checked = schedule?.enabled ?? true;
+  row.appendChild(enabledInput);
+
+  const domainSelect = document.createElement("select");
+  domainSelect.className = "schedule-domain";
+  fillScheduleDomainSelect(domainSelect, schedule?.domain ?? "");
+  row.appendChild(domainSelect);
+
+  const days = document.createElement("div");
+  days.className = "schedule-days";
+  const selectedDays = schedule?.days ?? [1, 2, 3, 4, 5];
+  for (const { day, label } of SCHEDULE_DAYS) {
+    const dayLabel = document.createElement("label");
+    dayLabel.className = "schedule-day";
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.dataset.day = String(day);
+    input.checked = selectedDays.includes(day);
+    dayLabel.appendChild(input);
+    dayLabel.appendChild(document.createTextNode(label));
+    days.appendChild(dayLabel);
+  }
+  row.appendChild(days);
+
+  const startInput = document.createElement("input");
+  startInput.type = "time";
+  startInput.className = "setting-input schedule-start";
+  startInput.value = schedule?.start ?? "09:00";
+  row.appendChild(startInput);
+
+  const endInput = document.createElement("input");
+  endInput.type = "time";
+  endInput.className = "setting-input schedule-end";
+  endInput.value = schedule?.end ?? "17:00";
+  row.appendChild(endInput);
+
+  const removeBtn = document.createElement("button");
+  removeBtn.type = "button";
+  removeBtn.className = "schedule-remove-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => row.remove());
+  row.appendChild(removeBtn);
+
+  scheduleList.appendChild(row);
+}
+
+function updateScheduleSettingsUI(): void {
+  scheduleList.innerHTML = "";
+  for (const schedule of currentBlockSchedules) {
+    addScheduleRow(schedule);
+  }
+}
+
+// Show which blocked sites are currently outside their schedule
+function updateScheduleStatus(activeBlockedDomains: string[] | undefined): void {
+  if (!activeBlockedDomains) return;
+  const paused = currentDomains.filter((d) => !activeBlockedDomains.includes(d));
+  scheduleStatusEl.textContent = paused.length > 0 ? `Outside schedule now: ${paused.join(", ")}` : "";
+}
+
+function readScheduleForm(): BlockSchedule[] | string {
+  const schedules: BlockSchedule[] = [];
+  for (const row of Array.from(scheduleList.querySelectorAll(".schedule-row")) as HTMLElement[]) {
+    const domain = (row.querySelector(".schedule-domain") as HTMLSelectElement).value;
+    const start = (row.querySelector(".schedule-start") as HTMLInputElement).value;
+    const end = (row.querySelector(".schedule-end") as HTMLInputElement).value;
+    const days = (Array.from(row.querySelectorAll("input[data-day]")) as HTMLInputElement[])
+      .filter((input) => input.checked)
+      .map((input) => Number(input.dataset.day))
+      .sort((a, b) => a - b);
+
+    if (!domain) return "Add a blocked site before creating a schedule";
+    if (!start || !end) return `Set a start and end time for ${domain}`;
+    if (days.length === 0) return `Pick at least one day for ${domain}`;
+
+    schedules.push({
+      id: row.dataset.id ?? crypto.randomUUID(),
+      domain,
+      days,
+      start,
+      end,
+      enabled: (row.querySelector(".schedule-enabled") as HTMLInputElement).checked,
+    });
+  }
+  return schedules;
+}
+
+async function handleScheduleSave(): Promise<void> {
+  const schedules = readScheduleForm();
+  if (typeof schedules === "string") {
+    showToast(schedules, "error");
+    return;
+  }
+
+  currentBlockSchedules = schedules;
+  await saveBlockSchedules(schedules);
+  showToast("Schedules saved");
+}
+
+// Update budget settings UI
+function updateBudgetSettingsUI(): void {
+  for (const period of BUDGET_PERIODS) {
+    budgetLimitInputs[period].value = formatBudgetLimit(currentBudgetConfig.limits[period]);
+  }
+  budgetThresholdsInput.value = currentBudgetConfig.thresholds.join(", ");
+  budgetBlockToggle.checked = currentBudgetConfig.blockWhenExhausted;
+
+  budgetProjectList.innerHTML = "";
+  for (const [projectName, limits] of Object.entries(currentBudgetConfig.projectLimits)) {
+    addBudgetProjectRow(projectName, limits);
+  }
+
+  budgetSaveBtn.disabled = !budgetServerReachable;
+  if (!budgetServerReachable) {
+    budgetStatusEl.textContent = "Server offline - budget settings are stored on the server";
+  }
+}
+
+// Show spend against the tightest global limit
+function updateBudgetStatus(budget: BudgetStatus | null | undefined): void {
+  if (!budgetServerReachable) return;
+  if (!budget || budget.global.length === 0) {
+    budgetStatusEl.textContent = "";
+    return;
+  }
+  budgetStatusEl.textContent = budget.global
+    .map((p) => `${p.period}: $${p.spentUsd.toFixed(2)} / $${p.limitUsd.toFixed(2)}`)
+    .join(" · ");
+}
+
+// Read the budget form; returns an error message on invalid input
+function readBudgetForm(): BudgetConfig | string {
+  const limits: BudgetLimits = { daily: null, weekly: null, monthly: null };
+  for (const period of BUDGET_PERIODS) {
+    const limit = parseBudgetLimit(budgetLimitInputs[period].value);
+    if (limit === undefined) return `Invalid ${period} limit`;
+    limits[period] = limit;
+  }
+
+  const thresholds = budgetThresholdsInput.value
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => t !== "")
+    .map(Number);
+  if (thresholds.some((t) => !Number.isFinite(t) || t <= 0)) {
+    return "Thresholds must be positive percentages";
+  }
+
+  const projectLimits: Record<string, Partial<BudgetLimits>> = {};
+  for (const row of Array.from(budgetProjectList.querySelectorAll(".budget-project-row"))) {
+    const nameInput = row.querySelector(".budget-project-name") as HTMLInputElement | null;
+    const projectName = nameInput?.value.trim() ?? "";
+    const overrides: Partial<BudgetLimits> = {};
+    const inputs = Array.from(row.querySelectorAll("input[data-period]")) as HTMLInputElement[];
+    for (const input of inputs) {
+      const limit = parseBudgetLimit(input.value);
+      if (limit === undefined) return `Invalid ${input.dataset.period} limit for ${projectName || "project"}`;
+      if (limit !== null) overrides[input.dataset.period as BudgetPeriod] = limit;
+    }
+    if (Object.keys(overrides).length === 0) continue;
+    if (!projectName) return "Project limits need a project name";
+    projectLimits[projectName] = overrides;
+  }
+
+  return {
+    limits,
+    projectLimits,
+    thresholds,
+    blockWhenExhausted: budgetBlockToggle.checked,
+  };
+}
+
+// Save budget - the server owns it, so this goes through the service worker
+async function handleBudgetSave(): Promise<void> {
+  const budget = readBudgetForm();
+  if (typeof budget === "string") {
+    showToast(budget, "error");
+    return;
+  }
+
+  budgetSaveBtn.disabled = true;
+  const response = await new Promise<{ success: boolean; budget?: BudgetConfig; error?: string } | undefined>(
+    (resolve) => {
+      chrome.runtime.sendMessage({ type: "SET_BUDGET", budget }, resolve);
+    }
+  );
+  budgetSaveBtn.disabled = false;
+
+  if (response?.success && response.budget) {
+    currentBudgetConfig = response.budget;
+    updateBudgetSettingsUI();
+    showToast("Budget saved");
+  } else {
+    showToast(`Couldn't save budget: ${response?.error ?? "service worker not ready"}`, "error");
+  }
+}
+
 // Update editor settings UI
 function updateEditorSettingsUI(): void {
   editorApp.value = currentEditorConfig.app;
@@ -2459,28 +4088,69 @@ async function handleEditorChange(): Promise<void> {
   await saveEditorConfig(currentEditorConfig);
 }
 
-// Add a domain
-async function addDomain(raw: string): Promise<void> {
-  const domain = normalizeDomain(raw);
-
+// Add a domain or URL pattern
+async function addDomain(): Promise<void> {
+  const domain = readRuleInput(domainInput, domainFeedback);
   if (!domain) return;
 
-  if (!isValidDomain(domain)) {
-    domainInput.classList.add("error");
-    setTimeout(() => domainInput.classList.remove("error"), 400);
-    return;
-  }
+  domainInput.value = "";
+  updateRuleFeedback(domainInput, domainFeedback);
+  if (currentDomains.includes(domain)) return;
+
+  currentDomains.push(domain);
+  currentDomains.sort();
+  await saveDomains(currentDomains);
+  renderDomains();
+}
 
-  if (currentDomains.includes(domain)) {
-    domainInput.value = "";
+// Download the blocked sites, allowed pages and schedules as a bundle file
+function exportBlocklist(): void {
+  const bundle = createBlocklistBundle({
+    blockedDomains: currentDomains,
+    allowedUrls: currentAllowedUrls,
+    blockSchedules: currentBlockSchedules,
+  });
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `claude-blocker-blocklist-${getDateKey(new Date())}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+  showToast(`Exported <strong>${link.download}</strong>`);
+}
+
+async function importBlocklist(file: File): Promise<void> {
+  const bundle = parseBlocklistBundle(await file.text());
+  if (typeof bundle === "string") {
+    showToast(escapeHtml(bundle), "error", 5000);
     return;
   }
 
-  currentDomains.push(domain);
-  currentDomains.sort();
+  const mode = bundleImportMode.value === "replace" ? "replace" : "merge";
+  const result = applyBlocklistBundle(
+    { blockedDomains: currentDomains, allowedUrls: currentAllowedUrls, blockSchedules: currentBlockSchedules },
+    bundle,
+    mode
+  );
+  const added = result.blockedDomains.filter((domain) => !currentDomains.includes(domain)).length;
+
+  currentDomains = result.blockedDomains.sort();
+  currentAllowedUrls = result.allowedUrls.sort();
+  currentBlockSchedules = result.blockSchedules;
   await saveDomains(currentDomains);
+  await saveAllowedUrls(currentAllowedUrls);
+  await saveBlockSchedules(currentBlockSchedules);
   renderDomains();
-  domainInput.value = "";
+  renderAllowedUrls();
+  updateScheduleSettingsUI();
+
+  const name = bundle.name ? ` "${escapeHtml(bundle.name)}"` : "";
+  showToast(
+    mode === "replace"
+      ? `Replaced your lists with blocklist${name}`
+      : `Imported blocklist${name}: ${added} new site${added === 1 ? "" : "s"}`
+  );
 }
 
 // Remove a domain
@@ -2490,6 +4160,28 @@ async function removeDomain(domain: string): Promise<void> {
   renderDomains();
 }
 
+// Add an allowed page pattern
+async function addAllowedUrl(): Promise<void> {
+  const pattern = readRuleInput(allowInput, allowFeedback);
+  if (!pattern) return;
+
+  allowInput.value = "";
+  updateRuleFeedback(allowInput, allowFeedback);
+  if (currentAllowedUrls.includes(pattern)) return;
+
+  currentAllowedUrls.push(pattern);
+  currentAllowedUrls.sort();
+  await saveAllowedUrls(currentAllowedUrls);
+  renderAllowedUrls();
+}
+
+// Remove an allowed page pattern
+async function removeAllowedUrl(pattern: string): Promise<void> {
+  currentAllowedUrls = currentAllowedUrls.filter((p) => p !== pattern);
+  await saveAllowedUrls(currentAllowedUrls);
+  renderAllowedUrls();
+}
+
 // Update UI with extension state
 function updateUI(state: ExtensionState): void {
   // Status badge
@@ -2520,10 +4212,18 @@ function updateUI(state: ExtensionState): void {
     blockStatusEl.style.color = "var(--accent-green)";
   }
 
+  updateCapabilities(state.capabilities ?? null);
+
   // Sessions list
   if (state.sessions) {
     renderSessions(state.sessions);
+    revealPendingSession();
   }
+
+  updateBudgetStatus(state.budget);
+  updateScheduleStatus(state.activeBlockedDomains);
+  updateQuietStatus(state.quiet);
+  updatePairingStatus(state);
 }
 
 // Update bypass button state
@@ -2552,19 +4252,511 @@ function updateBypassButton(status: BypassStatus): void {
     updateCountdown();
     bypassCountdown = setInterval(updateCountdown, 1000);
     bypassStatus.textContent = "Bypass will expire soon";
-  } else if (status.usedToday) {
-    bypassBtn.disabled = true;
+  } else if (status.nextBypassSource) {
+    bypassBtn.disabled = false;
     bypassBtn.classList.remove("active");
-    bypassText.textContent = "Bypass Used Today";
-    bypassStatus.textContent = "Resets at midnight";
+    bypassText.textContent = `Activate Bypass (${status.nextBypassMinutes} min)`;
+    bypassStatus.textContent = describeBypassCredit(status);
   } else {
-    bypassBtn.disabled = false;
+    bypassBtn.disabled = true;
     bypassBtn.classList.remove("active");
-    bypassText.textContent = "Activate Bypass";
-    bypassStatus.textContent = "5 minutes of unblocked access, once per day";
+    bypassText.textContent = status.reason ?? "No Bypass Available";
+    bypassStatus.textContent = describeBypassCredit(status);
   }
 }
 
+// "1 of 2 daily bypasses left · 12 earned minutes left"
+function describeBypassCredit(status: BypassStatus): string {
+  const parts: string[] = [];
+  if (status.policy.perDay > 0) {
+    parts.push(`${status.allowanceRemaining} of ${status.policy.perDay} daily bypasses left`);
+  }
+  if (status.policy.earnMinutesPerHour > 0) {
+    parts.push(`${status.earnedMinutesRemaining} of ${status.earnedMinutes} earned minutes left`);
+  }
+  if (parts.length === 0) return "Bypasses are turned off";
+  return parts.join(" · ");
+}
+
+function updateBypassPolicyUI(): void {
+  bypassDurationInput.value = String(currentBypassPolicy.durationMinutes);
+  bypassPerDayInput.value = String(currentBypassPolicy.perDay);
+  bypassCooldownInput.value = String(currentBypassPolicy.cooldownMinutes);
+  bypassEarnInput.value = currentBypassPolicy.earnMinutesPerHour > 0 ? String(currentBypassPolicy.earnMinutesPerHour) : "";
+  bypassPolicyStatus.textContent = "Changes apply from the next bypass";
+}
+
+// Empty fields fall back to 0; returns an error message when a value is out of range
+function readBypassPolicyForm(): BypassPolicy | string {
+  const read = (input: HTMLInputElement) => (input.value.trim() === "" ? 0 : Number(input.value));
+  const policy: BypassPolicy = {
+    durationMinutes: read(bypassDurationInput),
+    perDay: read(bypassPerDayInput),
+    cooldownMinutes: read(bypassCooldownInput),
+    earnMinutesPerHour: read(bypassEarnInput),
+  };
+
+  if (!Number.isInteger(policy.durationMinutes) || policy.durationMinutes < 1 || policy.durationMinutes > 120) {
+    return "Bypass length must be 1-120 minutes";
+  }
+  if (!Number.isInteger(policy.perDay) || policy.perDay < 0 || policy.perDay > 50) {
+    return "Bypasses per day must be 0-50";
+  }
+  if (!Number.isInteger(policy.cooldownMinutes) || policy.cooldownMinutes < 0 || policy.cooldownMinutes > 1440) {
+    return "Cooldown must be 0-1440 minutes";
+  }
+  if (!Number.isInteger(policy.earnMinutesPerHour) || policy.earnMinutesPerHour < 0 || policy.earnMinutesPerHour > 60) {
+    return "Earned minutes must be 0-60 per hour";
+  }
+  return policy;
+}
+
+async function handleBypassPolicySave(): Promise<void> {
+  const policy = readBypassPolicyForm();
+  if (typeof policy === "string") {
+    showToast(policy, "error");
+    return;
+  }
+
+  currentBypassPolicy = policy;
+  await saveBypassPolicy(policy);
+  showToast("Bypass policy saved");
+  refreshState();
+}
+
+function updateGraceSettingsUI(): void {
+  graceSecondsInput.value =
+    currentGraceConfig.gracePeriodSeconds > 0 ? String(currentGraceConfig.gracePeriodSeconds) : "";
+  graceTypingToggle.checked = currentGraceConfig.keepUnblockedWhileTyping;
+  graceStatus.textContent = currentGraceConfig.keepUnblockedWhileTyping
+    ? "Send typing signals with: npx claude-blocker-advanced --typing"
+    : "";
+}
+
+async function handleGraceSave(): Promise<void> {
+  const raw = graceSecondsInput.value.trim();
+  const gracePeriodSeconds = raw === "" ? 0 : Number(raw);
+  if (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0 || gracePeriodSeconds > MAX_GRACE_PERIOD_SECONDS) {
+    showToast(`Grace period must be 0-${MAX_GRACE_PERIOD_SECONDS} seconds`, "error");
+    return;
+  }
+
+  currentGraceConfig = { gracePeriodSeconds, keepUnblockedWhileTyping: graceTypingToggle.checked };
+  await saveGraceConfig(currentGraceConfig);
+  updateGraceSettingsUI();
+  showToast("Grace period saved");
+}
+
+function createProfileSelect(className: string, event: ProfileEvent, options: Array<[string, string]>, value: string): HTMLSelectElement {
+  const select = document.createElement("select");
+  select.className = className;
+  select.dataset.event = event;
+  for (const [optionValue, label] of options) {
+    const option = document.createElement("option");
+    option.value = optionValue;
+    option.textContent = label;
+    select.appendChild(option);
+  }
+  select.value = value;
+  return select;
+}
+
+// Which running sessions a profile row's pattern matches
+function updateProfileMatches(row: HTMLElement): void {
+  const match = (row.querySelector(".profile-match") as HTMLInputElement).value;
+  const matchesEl = row.querySelector(".profile-matches") as HTMLElement;
+  const projects = [...new Set(lastSessions.filter((s) => matchesProfile({ match }, s)).map((s) => s.projectName))];
+  matchesEl.textContent = projects.length > 0 ? `Matches: ${projects.join(", ")}` : "No running session matches";
+}
+
+function addProfileRow(profile?: NotificationProfile): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "schedule-row profile-row";
+  row.dataset.id = profile?.id ?? crypto.randomUUID();
+
+  const header = document.createElement("div");
+  header.className = "profile-header";
+
+  const matchInput = document.createElement("input");
+  matchInput.type = "text";
+  matchInput.className = "setting-input profile-match";
+  matchInput.placeholder = "Project name or /path/*";
+  matchInput.spellcheck = false;
+  matchInput.value = profile?.match ?? "";
+  matchInput.addEventListener("input", () => updateProfileMatches(row));
+  header.appendChild(matchInput);
+
+  const muteLabel = document.createElement("label");
+  muteLabel.className = "profile-mute";
+  const muteInput = document.createElement("input");
+  muteInput.type = "checkbox";
+  muteInput.className = "profile-muted";
+  muteInput.checked = profile?.muted ?? false;
+  muteInput.addEventListener("change", () => row.classList.toggle("muted", muteInput.checked));
+  muteLabel.append(muteInput, "Mute");
+  header.appendChild(muteLabel);
+
+  const volumeInput = document.createElement("input");
+  volumeInput.type = "number";
+  volumeInput.className = "setting-input profile-volume";
+  volumeInput.min = "0";
+  volumeInput.max = "100";
+  volumeInput.step = "5";
+  volumeInput.placeholder = "Volume";
+  volumeInput.title = "Volume (empty = sound settings)";
+  volumeInput.value = profile?.volume !== undefined ? String(profile.volume) : "";
+  header.appendChild(volumeInput);
+
+  const removeBtn = document.createElement("button");
+  removeBtn.type = "button";
+  removeBtn.className = "schedule-remove-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => row.remove());
+  header.appendChild(removeBtn);
+  row.appendChild(header);
+
+  const events = document.createElement("div");
+  events.className = "profile-events";
+  for (const { event, label } of PROFILE_EVENTS) {
+    const line = document.createElement("div");
+    line.className = "profile-event";
+
+    const labelEl = document.createElement("span");
+    labelEl.className = "profile-event-label";
+    labelEl.textContent = label;
+    line.appendChild(labelEl);
+
+    const notify = profile?.notify[event];
+    line.appendChild(
+      createProfileSelect(
+        "profile-notify",
+        event,
+        [["default", "Default notification"], ["on", "Notify"], ["off", "Don't notify"]],
+        notify === undefined ? "default" : notify ? "on" : "off"
+      )
+    );
+    const soundSelect = document.createElement("select");
+    soundSelect.className = "profile-sound";
+    soundSelect.dataset.event = event;
+    fillSoundSelect(soundSelect, profile?.sounds[event] ?? "default", [["default", "Default sound"], ["none", "No sound"]]);
+    line.appendChild(soundSelect);
+    events.appendChild(line);
+  }
+  row.appendChild(events);
+
+  const matchesEl = document.createElement("span");
+  matchesEl.className = "profile-matches";
+  row.appendChild(matchesEl);
+
+  row.classList.toggle("muted", muteInput.checked);
+  profileList.appendChild(row);
+  updateProfileMatches(row);
+  return row;
+}
+
+function updateProfileSettingsUI(): void {
+  profileList.innerHTML = "";
+  for (const profile of currentNotificationProfiles) {
+    addProfileRow(profile);
+  }
+}
+
+function readProfileForm(): NotificationProfile[] | string {
+  const profiles: NotificationProfile[] = [];
+  for (const row of Array.from(profileList.querySelectorAll(".profile-row")) as HTMLElement[]) {
+    const match = (row.querySelector(".profile-match") as HTMLInputElement).value.trim();
+    if (!match) return "Enter a project name or directory for each profile";
+
+    const rawVolume = (row.querySelector(".profile-volume") as HTMLInputElement).value.trim();
+    const volume = rawVolume === "" ? undefined : Number(rawVolume);
+    if (volume !== undefined && (!Number.isInteger(volume) || volume < 0 || volume > 100)) {
+      return `Volume for ${match} must be 0-100`;
+    }
+
+    const profile: NotificationProfile = {
+      id: row.dataset.id ?? crypto.randomUUID(),
+      match,
+      muted: (row.querySelector(".profile-muted") as HTMLInputElement).checked,
+      notify: {},
+      sounds: {},
+      ...(volume !== undefined ? { volume } : {}),
+    };
+    for (const select of Array.from(row.querySelectorAll("select.profile-notify")) as HTMLSelectElement[]) {
+      if (select.value !== "default") profile.notify[select.dataset.event as ProfileEvent] = select.value === "on";
+    }
+    for (const select of Array.from(row.querySelectorAll("select.profile-sound")) as HTMLSelectElement[]) {
+      if (select.value !== "default") profile.sounds[select.dataset.event as ProfileEvent] = select.value as SoundStyle;
+    }
+    profiles.push(profile);
+  }
+  return profiles;
+}
+
+async function handleProfileSave(): Promise<void> {
+  const profiles = readProfileForm();
+  if (typeof profiles === "string") {
+    showToast(profiles, "error");
+    return;
+  }
+
+  currentNotificationProfiles = profiles;
+  await saveNotificationProfiles(profiles);
+  rerenderSessions();
+  showToast("Project profiles saved");
+}
+
+// Session card: mute or unmute the session's project (creates a profile for it when none matches)
+async function toggleProjectMute(session: Session): Promise<void> {
+  const profile = findNotificationProfile(currentNotificationProfiles, session);
+  const muted = !profile?.muted;
+  currentNotificationProfiles = profile
+    ? currentNotificationProfiles.map((p) => (p.id === profile.id ? { ...p, muted } : p))
+    : [...currentNotificationProfiles, { id: crypto.randomUUID(), match: session.projectName, muted, notify: {}, sounds: {} }];
+  await saveNotificationProfiles(currentNotificationProfiles);
+  updateProfileSettingsUI();
+  rerenderSessions();
+  showToast(`${muted ? "Muted" : "Unmuted"} <strong>${escapeHtml(session.projectName)}</strong>`);
+}
+
+// Session card: open the profile that applies to the session in Settings (creates one when none matches)
+async function editProjectProfile(session: Session): Promise<void> {
+  let profile = findNotificationProfile(currentNotificationProfiles, session);
+  if (!profile) {
+    profile = { id: crypto.randomUUID(), match: session.projectName, muted: false, notify: {}, sounds: {} };
+    currentNotificationProfiles = [...currentNotificationProfiles, profile];
+    await saveNotificationProfiles(currentNotificationProfiles);
+  }
+  updateProfileSettingsUI();
+  switchTab("settings");
+
+  const row = profileList.querySelector(`.profile-row[data-id="${CSS.escape(profile.id)}"]`);
+  if (!row) return;
+  row.scrollIntoView({ behavior: "smooth", block: "center" });
+  row.classList.add("highlighted");
+  setTimeout(() => row.classList.remove("highlighted"), 2000);
+}
+
+function addQuietRow(quietWindow?: QuietWindow): void {
+  const row = document.createElement("div");
+  row.className = "schedule-row quiet-row";
+  row.dataset.id = quietWindow?.id ?? crypto.randomUUID();
+
+  const enabledInput = document.createElement("input");
+  enabledInput.type = "checkbox";
+  enabledInput.className = "quiet-enabled";
+  enabledInput.title = "Enabled";
+  enabledInput.checked = quietWindow?.enabled ?? true;
+  row.appendChild(enabledInput);
+
+  const days = document.createElement("div");
+  days.className = "schedule-days";
+  const selectedDays = quietWindow?.days ?? [0, 1, 2, 3, 4, 5, 6];
+  for (const { day, label } of SCHEDULE_DAYS) {
+    const dayLabel = document.createElement("label");
+    dayLabel.className = "schedule-day";
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.dataset.day = String(day);
+    input.checked = selectedDays.includes(day);
+    dayLabel.appendChild(input);
+    dayLabel.appendChild(document.createTextNode(label));
+    days.appendChild(dayLabel);
+  }
+  row.appendChild(days);
+
+  const startInput = document.createElement("input");
+  startInput.type = "time";
+  startInput.className = "setting-input quiet-start";
+  startInput.value = quietWindow?.start ?? "22:00";
+  row.appendChild(startInput);
+
+  const endInput = document.createElement("input");
+  endInput.type = "time";
+  endInput.className = "setting-input quiet-end";
+  endInput.value = quietWindow?.end ?? "08:00";
+  row.appendChild(endInput);
+
+  const removeBtn = document.createElement("button");
+  removeBtn.type = "button";
+  removeBtn.className = "schedule-remove-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => row.remove());
+  row.appendChild(removeBtn);
+
+  quietList.appendChild(row);
+}
+
+function updateQuietSettingsUI(): void {
+  quietCriticalToggle.checked = currentQuietConfig.criticalOnly;
+  quietList.innerHTML = "";
+  for (const quietWindow of currentQuietConfig.windows) {
+    addQuietRow(quietWindow);
+  }
+}
+
+function readQuietForm(): QuietWindow[] | string {
+  const windows: QuietWindow[] = [];
+  for (const row of Array.from(quietList.querySelectorAll(".quiet-row")) as HTMLElement[]) {
+    const start = (row.querySelector(".quiet-start") as HTMLInputElement).value;
+    const end = (row.querySelector(".quiet-end") as HTMLInputElement).value;
+    const days = (Array.from(row.querySelectorAll("input[data-day]")) as HTMLInputElement[])
+      .filter((input) => input.checked)
+      .map((input) => Number(input.dataset.day))
+      .sort((a, b) => a - b);
+
+    if (!start || !end) return "Set a start and end time for each quiet window";
+    if (days.length === 0) return "Pick at least one day for each quiet window";
+
+    windows.push({
+      id: row.dataset.id ?? crypto.randomUUID(),
+      days,
+      start,
+      end,
+      enabled: (row.querySelector(".quiet-enabled") as HTMLInputElement).checked,
+    });
+  }
+  return windows;
+}
+
+async function handleQuietSave(): Promise<void> {
+  const windows = readQuietForm();
+  if (typeof windows === "string") {
+    showToast(windows, "error");
+    return;
+  }
+
+  currentQuietConfig = { windows, criticalOnly: quietCriticalToggle.checked };
+  await saveQuietConfig(currentQuietConfig);
+  showToast("Quiet hours saved");
+  refreshState();
+}
+
+// Show whether alerts are being held back right now
+function updateQuietStatus(quiet: ExtensionState["quiet"]): void {
+  if (!quiet) {
+    quietStatus.textContent = "";
+  } else if (quiet.reason === "dnd") {
+    quietStatus.textContent = quiet.until
+      ? `Do Not Disturb until ${new Date(quiet.until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+      : "Do Not Disturb is on";
+  } else {
+    quietStatus.textContent = "Quiet hours now";
+  }
+}
+
+function addReminderRow(step?: ReminderStep): void {
+  const row = document.createElement("div");
+  row.className = "reminder-row";
+
+  const minutesInput = document.createElement("input");
+  minutesInput.type = "number";
+  minutesInput.className = "setting-input reminder-minutes";
+  minutesInput.min = "1";
+  minutesInput.max = String(MAX_REMINDER_MINUTES);
+  minutesInput.value = String(step?.afterMinutes ?? 10);
+  row.appendChild(minutesInput);
+
+  const unit = document.createElement("span");
+  unit.className = "reminder-unit";
+  unit.textContent = "min waiting";
+  row.appendChild(unit);
+
+  const soundSelect = document.createElement("select");
+  soundSelect.className = "reminder-sound";
+  fillSoundSelect(soundSelect, step?.sound ?? "clear", [["none", "Notification only"]]);
+  row.appendChild(soundSelect);
+
+  const volumeInput = document.createElement("input");
+  volumeInput.type = "range";
+  volumeInput.className = "reminder-volume";
+  volumeInput.min = "0";
+  volumeInput.max = "100";
+  volumeInput.step = "5";
+  volumeInput.value = String(step?.volume ?? currentSoundConfig.volume);
+  volumeInput.title = "Volume";
+  row.appendChild(volumeInput);
+
+  const volumeLabel = document.createElement("span");
+  volumeLabel.className = "reminder-volume-value";
+  volumeLabel.textContent = `${volumeInput.value}%`;
+  volumeInput.addEventListener("input", () => {
+    volumeLabel.textContent = `${volumeInput.value}%`;
+  });
+  row.appendChild(volumeLabel);
+
+  const previewBtn = document.createElement("button");
+  previewBtn.type = "button";
+  previewBtn.className = "sound-preview-btn";
+  previewBtn.title = "Preview";
+  previewBtn.textContent = "▶";
+  previewBtn.addEventListener("click", () => testSound(soundSelect.value, Number(volumeInput.value)));
+  row.appendChild(previewBtn);
+
+  const removeBtn = document.createElement("button");
+  removeBtn.type = "button";
+  removeBtn.className = "reminder-remove-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => row.remove());
+  row.appendChild(removeBtn);
+
+  reminderList.appendChild(row);
+}
+
+function updateReminderSettingsUI(): void {
+  remindersEnabled.checked = currentReminderConfig.enabled;
+  reminderList.innerHTML = "";
+  for (const step of currentReminderConfig.steps) {
+    addReminderRow(step);
+  }
+  if (!currentNotificationConfig.enabled) {
+    reminderStatus.textContent = "Notifications are off, so reminders won't fire";
+  } else if (!currentNotificationConfig.onWaiting) {
+    reminderStatus.textContent = "Waiting notifications are off, so reminders only play sounds";
+  } else {
+    reminderStatus.textContent = "";
+  }
+}
+
+function readReminderForm(): ReminderStep[] | string {
+  const steps: ReminderStep[] = [];
+  for (const row of Array.from(reminderList.querySelectorAll(".reminder-row")) as HTMLElement[]) {
+    const afterMinutes = Number((row.querySelector(".reminder-minutes") as HTMLInputElement).value);
+    if (!Number.isInteger(afterMinutes) || afterMinutes < 1 || afterMinutes > MAX_REMINDER_MINUTES) {
+      return `Reminder times must be 1-${MAX_REMINDER_MINUTES} minutes`;
+    }
+    if (steps.some((step) => step.afterMinutes === afterMinutes)) {
+      return `There are two reminders at ${afterMinutes} minutes`;
+    }
+    steps.push({
+      afterMinutes,
+      sound: (row.querySelector(".reminder-sound") as HTMLSelectElement).value as SoundStyle,
+      volume: Number((row.querySelector(".reminder-volume") as HTMLInputElement).value),
+    });
+  }
+  return steps.sort((a, b) => a.afterMinutes - b.afterMinutes);
+}
+
+function handleReminderAdd(): void {
+  if (reminderList.querySelectorAll(".reminder-row").length >= MAX_REMINDER_STEPS) {
+    showToast(`Up to ${MAX_REMINDER_STEPS} reminder steps`, "error");
+    return;
+  }
+  addReminderRow();
+}
+
+async function handleReminderSave(): Promise<void> {
+  const steps = readReminderForm();
+  if (typeof steps === "string") {
+    showToast(steps, "error");
+    return;
+  }
+
+  currentReminderConfig = { enabled: remindersEnabled.checked, steps };
+  await saveReminderConfig(currentReminderConfig);
+  updateReminderSettingsUI();
+  showToast("Reminders saved");
+}
+
 // Refresh state from service worker
 function refreshState(): void {
   chrome.runtime.sendMessage({ type: "GET_STATE" }, (state: ExtensionState) => {
@@ -2586,6 +4778,143 @@ async function refreshHistory(): Promise<void> {
   renderHistory();
 }
 
+// Update daily summary settings UI
+function updateDailySummarySettingsUI(): void {
+  summaryEnabled.checked = currentDailySummaryConfig.enabled;
+  summaryTime.value = currentDailySummaryConfig.time;
+  summaryTime.disabled = !currentDailySummaryConfig.enabled;
+}
+
+// Handle daily summary changes
+async function handleDailySummaryChange(): Promise<void> {
+  // Clearing the time input leaves the last valid time
+  currentDailySummaryConfig = {
+    enabled: summaryEnabled.checked,
+    time: summaryTime.value || currentDailySummaryConfig.time,
+  };
+  updateDailySummarySettingsUI();
+  await saveDailySummaryConfig(currentDailySummaryConfig);
+}
+
+// Summary cards, top projects and blocked sites for one day
+function renderReport(report: DailyReport): void {
+  const cards: Array<[string, string]> = [
+    ["Working", formatDuration(report.workingMs)],
+    ["Waiting", formatDuration(report.waitingMs)],
+    ["Idle", formatDuration(report.idleMs)],
+    ["Sessions", `${report.sessionsEnded} ended · ${report.sessionsStarted} started`],
+    ["Cost", formatCost(report.costUsd)],
+    ["Tokens", formatTokens(report.totalTokens)],
+  ];
+
+  const projectRows = report.topProjects
+    .map(
+      (project) => `
+        <tr>
+          <td>${escapeHtml(project.projectName)}</td>
+          <td>${project.sessions}</td>
+          <td>${formatDuration(project.workingMs)}</td>
+          <td>${formatCost(project.costUsd)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const siteRows = report.topBlockedSites
+    .map(
+      (site) => `
+        <tr>
+          <td>${escapeHtml(site.domain)}</td>
+          <td>${site.attempts}</td>
+        </tr>`
+    )
+    .join("");
+
+  reportBody.innerHTML = `
+    <div class="report-grid">
+      ${cards
+        .map(
+          ([label, value]) => `
+        <div class="report-card">
+          <span class="report-card-label">${label}</span>
+          <span class="report-card-value">${value}</span>
+        </div>`
+        )
+        .join("")}
+    </div>
+
+    <h3 class="report-heading">Top projects</h3>
+    ${
+      projectRows
+        ? `<table class="report-table">
+            <thead><tr><th>Project</th><th>Sessions</th><th>Working</th><th>Cost</th></tr></thead>
+            <tbody>${projectRows}</tbody>
+          </table>`
+        : '<p class="report-empty">No sessions ended this day</p>'
+    }
+
+    <h3 class="report-heading">Blocked-site attempts: ${report.blockedAttempts ?? 0}</h3>
+    ${
+      siteRows
+        ? `<table class="report-table">
+            <thead><tr><th>Site</th><th>Attempts</th></tr></thead>
+            <tbody>${siteRows}</tbody>
+          </table>`
+        : '<p class="report-empty">No blocked sites opened</p>'
+    }
+  `;
+}
+
+// Report view for one day (from the summary notification or the Stats tab)
+function openReport(date: string): void {
+  switchTab("report");
+  reportDate.textContent = new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  reportBody.innerHTML = '<p class="report-empty">Loading...</p>';
+  chrome.runtime.sendMessage({ type: "GET_DAILY_REPORT", date }, (response) => {
+    if (chrome.runtime.lastError || !response?.success) {
+      reportBody.innerHTML = '<p class="report-empty">Couldn\'t load the report</p>';
+      return;
+    }
+    renderReport(response.report);
+  });
+}
+
+// The summary notification opens the dashboard as options.html#report=<date>
+function handleReportHash(): void {
+  const date = new URLSearchParams(window.location.hash.slice(1)).get("report");
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+  history.replaceState(null, "", window.location.pathname);
+  openReport(date);
+}
+
+// Session to scroll to once it's rendered (from a notification click)
+let pendingSessionId: string | null = null;
+
+// Notifications open the dashboard as options.html#session=<id>
+function handleSessionHash(): void {
+  const sessionId = new URLSearchParams(window.location.hash.slice(1)).get("session");
+  if (!sessionId) return;
+  // Clear the hash so the next notification for the same session fires hashchange again
+  history.replaceState(null, "", window.location.pathname);
+  pendingSessionId = sessionId;
+  switchTab("sessions");
+  revealPendingSession();
+}
+
+function revealPendingSession(): void {
+  if (!pendingSessionId) return;
+  const card = sessionsList.querySelector(`.session-card[data-session-id="${CSS.escape(pendingSessionId)}"]`);
+  if (!card) return;
+  pendingSessionId = null;
+  card.scrollIntoView({ behavior: "smooth", block: "center" });
+  card.classList.add("highlighted");
+  setTimeout(() => card.classList.remove("highlighted"), 2000);
+}
+
 // Tab switching
 function switchTab(tabName: string): void {
   // Update buttons
@@ -2639,8 +4968,41 @@ if (aboutVersionEl) aboutVersionEl.textContent = `Version ${manifestVersion}`;
 // Event listeners
 addForm.addEventListener("submit", (e) => {
   e.preventDefault();
-  addDomain(domainInput.value);
+  addDomain();
+});
+domainInput.addEventListener("input", () => updateRuleFeedback(domainInput, domainFeedback));
+
+allowForm.addEventListener("submit", (e) => {
+  e.preventDefault();
+  addAllowedUrl();
 });
+allowInput.addEventListener("input", () => updateRuleFeedback(allowInput, allowFeedback));
+hideForm.addEventListener("submit", (e) => {
+  e.preventDefault();
+  addHideRule();
+});
+hideSiteInput.addEventListener("input", updateHideFeedback);
+hideSelectorInput.addEventListener("input", updateHideFeedback);
+hardBlockToggle.addEventListener("change", handleHardBlockChange);
+bundleExportBtn.addEventListener("click", exportBlocklist);
+bundleImportBtn.addEventListener("click", () => bundleFileInput.click());
+bundleFileInput.addEventListener("change", () => {
+  const file = bundleFileInput.files?.[0];
+  bundleFileInput.value = "";
+  if (file) importBlocklist(file);
+});
+ruleTestInput.addEventListener("input", updateRuleTestResult);
+
+bypassPolicySaveBtn.addEventListener("click", handleBypassPolicySave);
+graceSaveBtn.addEventListener("click", handleGraceSave);
+reminderAddBtn.addEventListener("click", handleReminderAdd);
+profileAddBtn.addEventListener("click", () => {
+  addProfileRow().querySelector<HTMLInputElement>(".profile-match")?.focus();
+});
+profileSaveBtn.addEventListener("click", handleProfileSave);
+quietAddBtn.addEventListener("click", () => addQuietRow());
+quietSaveBtn.addEventListener("click", handleQuietSave);
+reminderSaveBtn.addEventListener("click", handleReminderSave);
 
 bypassBtn.addEventListener("click", () => {
   chrome.runtime.sendMessage({ type: "ACTIVATE_BYPASS" }, (response) => {
@@ -2652,6 +5014,11 @@ bypassBtn.addEventListener("click", () => {
   });
 });
 
+window.addEventListener("hashchange", () => {
+  handleSessionHash();
+  handleReportHash();
+});
+
 // Tab event listeners
 tabButtons.forEach(btn => {
   btn.addEventListener("click", () => {
@@ -2688,6 +5055,69 @@ document.getElementById("stats-today-btn")?.addEventListener("click", () => {
   refreshStats();
 });
 
+document.getElementById("stats-report-btn")?.addEventListener("click", () => openReport(currentStatsDate));
+document.getElementById("report-back")?.addEventListener("click", () => switchTab("stats"));
+document.getElementById("report-print")?.addEventListener("click", () => window.print());
+summaryEnabled.addEventListener("change", handleDailySummaryChange);
+summaryTime.addEventListener("change", handleDailySummaryChange);
+
+// Default export range: month to date
+function initExportRange(): void {
+  const today = new Date();
+  exportFrom.value = getDateKey(new Date(today.getFullYear(), today.getMonth(), 1));
+  exportTo.value = getDateKey(today);
+}
+
+// Download the selected range from the server via the service worker
+async function exportStats(): Promise<void> {
+  if (!exportFrom.value || !exportTo.value || exportFrom.value > exportTo.value) {
+    showToast("Pick a valid date range", "error");
+    return;
+  }
+
+  exportBtn.disabled = true;
+  try {
+    const response = await new Promise<{
+      success: boolean;
+      content?: string;
+      contentType?: string;
+      filename?: string;
+      error?: string;
+    } | undefined>((resolve) => {
+      chrome.runtime.sendMessage(
+        {
+          type: "EXPORT_DATA",
+          from: exportFrom.value,
+          to: exportTo.value,
+          kind: exportKind.value,
+          format: exportFormat.value,
+        },
+        resolve
+      );
+    });
+
+    if (!response?.success || response.content === undefined) {
+      showToast(`Export failed: ${response?.error ?? "service worker not ready"}`, "error");
+      return;
+    }
+
+    const blob = new Blob([response.content], { type: response.contentType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = response.filename ?? `claude-blocker-export.${exportFormat.value}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    showToast(`Exported <strong>${link.download}</strong>`);
+  } finally {
+    exportBtn.disabled = false;
+  }
+}
+
+exportBtn.addEventListener("click", () => {
+  exportStats();
+});
+
 // Model toggle event listeners
 modelToggleCost?.addEventListener("click", () => {
   modelChartMode = "cost";
@@ -2734,6 +5164,7 @@ notificationsEnabled.addEventListener("change", handleNotificationChange);
 notifyWaiting.addEventListener("change", handleNotificationChange);
 notifyFinished.addEventListener("change", handleNotificationChange);
 notifyDisconnected.addEventListener("change", handleNotificationChange);
+notifyBudget.addEventListener("change", handleNotificationChange);
 
 // Test notification button handler
 testNotificationBtn.addEventListener("click", async () => {
@@ -2821,6 +5252,25 @@ terminalApp.addEventListener("change", handleTerminalChange);
 // Editor settings event listener
 editorApp.addEventListener("change", handleEditorChange);
 
+// Retention settings event listener
+retentionDaysSelect.addEventListener("change", handleRetentionChange);
+
+// Server address event listener
+serverAddressSaveBtn.addEventListener("click", handleServerAddressSave);
+pairStartBtn.addEventListener("click", handlePairStart);
+pairCompleteBtn.addEventListener("click", handlePairComplete);
+pairingCodeInput.addEventListener("keydown", (e) => {
+  if (e.key === "Enter") handlePairComplete();
+});
+
+// Blocking schedule event listeners
+scheduleAddBtn.addEventListener("click", () => addScheduleRow());
+scheduleSaveBtn.addEventListener("click", handleScheduleSave);
+
+// Budget settings event listeners
+budgetAddProjectBtn.addEventListener("click", () => addBudgetProjectRow());
+budgetSaveBtn.addEventListener("click", handleBudgetSave);
+
 // Sound settings event listeners
 soundEnabled.addEventListener("change", handleSoundChange);
 soundVolume.addEventListener("input", handleSoundChange);
@@ -2829,9 +5279,21 @@ soundFinished.addEventListener("change", handleSoundChange);
 soundDisconnected.addEventListener("change", handleSoundChange);
 
 // Test sound buttons
-testSoundSubtle.addEventListener("click", () => testSound("subtle"));
-testSoundClear.addEventListener("click", () => testSound("clear"));
-testSoundSay.addEventListener("click", () => testSound("say"));
+for (const btn of Array.from(soundPreviewBtns)) {
+  const select = document.getElementById(btn.dataset.select ?? "") as HTMLSelectElement;
+  btn.addEventListener("click", () => testSound(select.value));
+}
+speechRate.addEventListener("input", updateSpeechValueLabels);
+speechPitch.addEventListener("input", updateSpeechValueLabels);
+speechResetBtn.addEventListener("click", () => renderSpeechTemplates(DEFAULT_ANNOUNCEMENT_TEMPLATES));
+speechSaveBtn.addEventListener("click", handleSpeechSave);
+window.speechSynthesis?.addEventListener("voiceschanged", fillSpeechVoices);
+soundUploadBtn.addEventListener("click", () => soundUploadInput.click());
+soundUploadInput.addEventListener("change", () => {
+  const file = soundUploadInput.files?.[0];
+  soundUploadInput.value = "";
+  if (file) handleSoundUpload(file);
+});
 
 // Listen for state broadcasts
 chrome.runtime.onMessage.addListener((message) => {
@@ -2864,23 +5326,57 @@ chrome.runtime.onMessage.addListener((message) => {
 // Initialize
 async function init(): Promise<void> {
   currentDomains = await loadDomains();
+  currentAllowedUrls = await loadAllowedUrls();
+  currentHidePacks = await loadHidePacks();
+  currentHideRules = await loadHideRules();
+  hardBlockToggle.checked = await loadHardBlock();
+  currentBlockSchedules = await loadBlockSchedules();
+  currentBypassPolicy = await loadBypassPolicy();
+  currentGraceConfig = await loadGraceConfig();
   currentOverlayConfig = await loadOverlayConfig();
   currentNotificationConfig = await loadNotificationConfig();
   currentSoundConfig = await loadSoundConfig();
+  currentReminderConfig = await loadReminderConfig();
+  currentQuietConfig = await loadQuietConfig();
+  currentDailySummaryConfig = await loadDailySummaryConfig();
+  currentNotificationProfiles = await loadNotificationProfiles();
+  soundClips = await listSoundClips().catch(() => []);
   currentTerminalConfig = await loadTerminalConfig();
   currentEditorConfig = await loadEditorConfig();
+  currentRetentionDays = await loadRetentionDays();
+  currentServerAddress = await loadServerAddress();
+  currentBudgetConfig = await loadBudgetConfig();
   sessionHistory = await loadSessionHistory();
 
+  updateScheduleSettingsUI();
+  updateBypassPolicyUI();
+  updateGraceSettingsUI();
   renderDomains();
+  renderAllowedUrls();
+  renderHidePacks();
+  renderHideRules();
   updateOverlaySettingsUI();
   updateNotificationSettingsUI();
   updateSoundSettingsUI();
+  renderSoundClips();
+  updateSpeechSettingsUI();
+  renderSpeechVariables();
+  updateReminderSettingsUI();
+  updateQuietSettingsUI();
+  updateDailySummarySettingsUI();
+  updateProfileSettingsUI();
   updateTerminalSettingsUI();
   updateEditorSettingsUI();
+  updateRetentionSettingsUI();
+  updateServerAddressSettingsUI();
+  updateBudgetSettingsUI();
+  initExportRange();
   updateNotificationDebugInfo(); // Load notification debug info
   renderTimelineAxis(); // Initialize timeline axis
   renderHistory(); // Initialize history list
   refreshStats(); // Initialize productivity stats
+  handleSessionHash();
+  handleReportHash();
   refreshState();
 }
 
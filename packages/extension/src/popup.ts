@@ -1,3 +1,6 @@
+import { getGraceLabel } from "./block-status.js";
+import { DND_DURATIONS, getQuietLabel, setDoNotDisturb, type QuietState } from "./quiet-status.js";
+
 export {};
 
 interface ToolCall {
@@ -24,6 +27,14 @@ interface Session {
   waitingForInputSince?: string;
 }
 
+interface BudgetPeriodStatus {
+  period: "daily" | "weekly" | "monthly";
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  percentUsed: number;
+}
+
 interface PopupState {
   blocked: boolean;
   serverConnected: boolean;
@@ -32,6 +43,23 @@ interface PopupState {
   working: number;
   waitingForInput: number;
   bypassActive: boolean;
+  graceUntil?: number | null;
+  typingUntil?: number | null;
+  needsPairing?: boolean;
+  budget?: { global: BudgetPeriodStatus[]; exhausted: boolean } | null;
+  budgetBlocked?: boolean;
+  capabilities?: PlatformCapabilities | null;
+  quiet?: QuietState | null;
+}
+
+// Quick actions the server's machine supports (null = unknown, show everything)
+interface PlatformCapabilities {
+  fileManager: string;
+  actions: {
+    openFolder: boolean;
+    openTerminal: boolean;
+    openEditor: boolean;
+  };
 }
 
 const statusDot = document.getElementById("status-dot") as HTMLElement;
@@ -41,6 +69,13 @@ const blockStatus = document.getElementById("block-status") as HTMLElement;
 const settingsBtn = document.getElementById("settings-btn") as HTMLButtonElement;
 const noSessions = document.getElementById("no-sessions") as HTMLElement;
 const sessionsList = document.getElementById("sessions-list") as HTMLElement;
+const budgetContainer = document.getElementById("budget-container") as HTMLElement;
+const dndRow = document.getElementById("dnd-row") as HTMLElement;
+const dndLabel = document.getElementById("dnd-label") as HTMLElement;
+const dndActions = document.getElementById("dnd-actions") as HTMLElement;
+
+// Rebuilt only when this changes, so the once-a-second refresh doesn't swallow clicks
+let dndActionsKey = "";
 
 // Format duration from milliseconds
 function formatDuration(ms: number): string {
@@ -121,7 +156,26 @@ function getStatusLabel(status: Session["status"]): string {
   }
 }
 
-const SERVER_URL = "http://localhost:8765";
+// Result of a quick action; code/error come from the server's error response
+interface ServerActionResult {
+  ok: boolean;
+  statusText: string;
+  code?: string;
+  error?: string;
+  focused?: boolean;
+}
+
+// Path problems can't be fixed by copying a command to the clipboard
+const NO_FALLBACK_CODES = ["invalid_request", "unknown_path", "path_not_found", "not_focusable"];
+
+// Quick actions go through the service worker, which holds the server address and pairing token
+function sendServerAction(path: string, body: Record<string, unknown>): Promise<ServerActionResult> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "SERVER_ACTION", path, body }, (response) => {
+      resolve(response ?? { ok: false, statusText: "Service worker not ready" });
+    });
+  });
+}
 
 // Handle copy session ID to clipboard
 async function copySessionId(sessionId: string, button: HTMLElement): Promise<void> {
@@ -138,10 +192,8 @@ async function copySessionId(sessionId: string, button: HTMLElement): Promise<vo
   }
 }
 
-// Handle open in terminal action
-async function openInTerminal(cwd: string, sessionId: string): Promise<void> {
-  const command = `claude --resume ${sessionId}`;
-
+// Handle terminal action: focus the session's terminal if it's running, otherwise resume it in a new one
+async function focusInTerminal(cwd: string, sessionId: string): Promise<void> {
   // Load terminal config
   const config = await new Promise<{ app?: string }>((resolve) => {
     chrome.storage.sync.get(["terminalConfig"], (result) => {
@@ -149,41 +201,29 @@ async function openInTerminal(cwd: string, sessionId: string): Promise<void> {
     });
   });
 
-  try {
-    const response = await fetch(`${SERVER_URL}/action/open-terminal`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        path: cwd,
-        command,
-        app: config.app || "warp",
-      }),
-    });
+  const response = await sendServerAction("/action/focus-session", {
+    path: cwd,
+    sessionId,
+    app: config.app || "warp",
+  });
 
-    if (!response.ok) {
-      throw new Error(`Failed to open terminal: ${response.statusText}`);
+  if (!response.ok) {
+    if (response.code && NO_FALLBACK_CODES.includes(response.code)) {
+      console.error("Failed to focus terminal:", response.error || response.statusText);
+      return;
     }
-  } catch (err) {
     // Fallback: copy full command with cd
-    await navigator.clipboard.writeText(`cd "${cwd}" && ${command}`);
+    await navigator.clipboard.writeText(`cd "${cwd}" && claude --resume ${sessionId}`);
     console.log("Terminal action fell back to copying command to clipboard");
   }
 }
 
 // Handle open folder action
 async function openFolder(cwd: string): Promise<void> {
-  try {
-    const response = await fetch(`${SERVER_URL}/action/open-finder`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ path: cwd }),
-    });
+  const response = await sendServerAction("/action/open-finder", { path: cwd });
 
-    if (!response.ok) {
-      throw new Error(`Failed to open folder: ${response.statusText}`);
-    }
-  } catch (err) {
-    console.error("Failed to open folder:", err);
+  if (!response.ok) {
+    console.error("Failed to open folder:", response.error || response.statusText);
   }
 }
 
@@ -196,20 +236,16 @@ async function openInEditor(cwd: string): Promise<void> {
     });
   });
 
-  try {
-    const response = await fetch(`${SERVER_URL}/action/open-editor`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        path: cwd,
-        app: config.app || "cursor",
-      }),
-    });
+  const response = await sendServerAction("/action/open-editor", {
+    path: cwd,
+    app: config.app || "cursor",
+  });
 
-    if (!response.ok) {
-      throw new Error(`Failed to open editor: ${response.statusText}`);
+  if (!response.ok) {
+    if (response.code && NO_FALLBACK_CODES.includes(response.code)) {
+      console.error("Failed to open editor:", response.error || response.statusText);
+      return;
     }
-  } catch (err) {
     // Fallback: copy editor command to clipboard
     const editorCommands: Record<string, string> = {
       cursor: "cursor",
@@ -225,7 +261,7 @@ async function openInEditor(cwd: string): Promise<void> {
   }
 }
 
-function renderSession(session: Session): HTMLElement {
+function renderSession(session: Session, capabilities: PlatformCapabilities | null): HTMLElement {
   const now = Date.now();
   const startTime = new Date(session.startTime).getTime();
   const uptime = now - startTime;
@@ -258,6 +294,9 @@ function renderSession(session: Session): HTMLElement {
     toolsHtml = `<div class="session-tools">${toolRows.join("")}</div>`;
   }
 
+  // Hide actions the server can't run on its machine
+  const actions = capabilities?.actions;
+
   el.innerHTML = `
     <div class="session-main">
       <span class="${getStatusClass(session.status)}"></span>
@@ -271,18 +310,22 @@ function renderSession(session: Session): HTMLElement {
           <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
         </svg>
       </button>
-      ${session.cwd ? `
-        <button class="action-btn folder-btn" title="Open folder" data-cwd="${session.cwd}">
+      ${session.cwd && actions?.openFolder !== false ? `
+        <button class="action-btn folder-btn" title="Open in ${capabilities?.fileManager ?? "Finder"}" data-cwd="${session.cwd}">
           <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"/>
           </svg>
         </button>
-        <button class="action-btn terminal-btn" title="Open in terminal" data-cwd="${session.cwd}">
+      ` : ""}
+      ${session.cwd && actions?.openTerminal !== false ? `
+        <button class="action-btn terminal-btn" title="Focus in terminal" data-cwd="${session.cwd}">
           <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <polyline points="4 17 10 11 4 5"/>
             <line x1="12" y1="19" x2="20" y2="19"/>
           </svg>
         </button>
+      ` : ""}
+      ${session.cwd && actions?.openEditor !== false ? `
         <button class="action-btn editor-btn" title="Open in editor" data-cwd="${session.cwd}">
           <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
             <path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"/>
@@ -317,7 +360,7 @@ function renderSession(session: Session): HTMLElement {
   if (terminalBtn && session.cwd) {
     terminalBtn.addEventListener("click", (e) => {
       e.stopPropagation();
-      openInTerminal(session.cwd!, session.id);
+      focusInTerminal(session.cwd!, session.id);
     });
   }
 
@@ -332,11 +375,42 @@ function renderSession(session: Session): HTMLElement {
   return el;
 }
 
+function createDndButton(label: string, title: string, minutes: number | null): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.className = "dnd-btn";
+  button.textContent = label;
+  button.title = title;
+  button.addEventListener("click", () => {
+    setDoNotDisturb(minutes).then(refreshState).catch(() => {});
+  });
+  return button;
+}
+
+// Duration buttons, or a way out while Do Not Disturb is on
+function updateDnd(quiet: QuietState | null): void {
+  dndRow.classList.toggle("active", !!quiet);
+  dndLabel.textContent = getQuietLabel(quiet) ?? "Do Not Disturb";
+
+  const dndOn = quiet?.reason === "dnd";
+  const key = dndOn ? "on" : "off";
+  if (key === dndActionsKey) return;
+  dndActionsKey = key;
+
+  dndActions.innerHTML = "";
+  if (dndOn) {
+    dndActions.appendChild(createDndButton("Turn off", "Show held-back alerts and turn alerts back on", null));
+    return;
+  }
+  for (const { minutes, label } of DND_DURATIONS) {
+    dndActions.appendChild(createDndButton(label, `Hold back notifications and sounds for ${label}`, minutes));
+  }
+}
+
 function updateUI(state: PopupState): void {
   // Status indicator
   if (!state.serverConnected) {
     statusDot.className = "status-dot disconnected";
-    statusText.textContent = "Offline";
+    statusText.textContent = state.needsPairing ? "Not paired" : "Offline";
   } else if (state.working > 0) {
     statusDot.className = "status-dot working";
     statusText.textContent = `${state.working} working`;
@@ -357,10 +431,10 @@ function updateUI(state: PopupState): void {
     blockStatus.textContent = "Bypass";
   } else if (state.blocked) {
     blockBadge.className = "block-badge blocked";
-    blockStatus.textContent = "Blocked";
+    blockStatus.textContent = state.budgetBlocked ? "Over Budget" : "Blocked";
   } else {
     blockBadge.className = "block-badge open";
-    blockStatus.textContent = "Open";
+    blockStatus.textContent = getGraceLabel(state) ?? "Open";
   }
 
   // Sessions list
@@ -379,9 +453,24 @@ function updateUI(state: PopupState): void {
     });
 
     for (const session of sorted) {
-      sessionsList.appendChild(renderSession(session));
+      sessionsList.appendChild(renderSession(session, state.capabilities ?? null));
     }
   }
+
+  updateDnd(state.quiet ?? null);
+
+  // Remaining budget per configured period
+  const periods = state.budget?.global ?? [];
+  budgetContainer.style.display = periods.length > 0 ? "flex" : "none";
+  budgetContainer.innerHTML = periods
+    .map((p) => {
+      const level = p.percentUsed >= 100 ? "exhausted" : p.percentUsed >= 80 ? "warning" : "";
+      return `<div class="budget-item ${level}" title="$${p.spentUsd.toFixed(2)} of $${p.limitUsd.toFixed(2)} spent">
+        <span class="budget-period">${p.period}</span>
+        <span class="budget-remaining">$${p.remainingUsd.toFixed(2)} left</span>
+      </div>`;
+    })
+    .join("");
 }
 
 function refreshState(): void {
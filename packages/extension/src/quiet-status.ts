@@ -0,0 +1,26 @@
+// What the popup and the overlay say about Do Not Disturb and quiet hours
+
+// Why alerts are held back (from the service worker's public state)
+export interface QuietState {
+  reason: "dnd" | "quiet-hours";
+  until: number | null; // Only known for Do Not Disturb
+}
+
+// Do Not Disturb lengths offered by the popup and the overlay
+export const DND_DURATIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 30, label: "30m" },
+  { minutes: 60, label: "1h" },
+  { minutes: 240, label: "4h" },
+];
+
+export function getQuietLabel(quiet: QuietState | null | undefined): string | null {
+  if (!quiet) return null;
+  if (quiet.reason === "quiet-hours") return "Quiet hours";
+  if (!quiet.until) return "Do Not Disturb";
+  return `DND until ${new Date(quiet.until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+// Ask the service worker to turn Do Not Disturb on for some minutes, or off with null
+export function setDoNotDisturb(minutes: number | null): Promise<void> {
+  return chrome.runtime.sendMessage({ type: "SET_DND", minutes }).then(() => undefined);
+}
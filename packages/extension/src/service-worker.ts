@@ -1,4 +1,30 @@
-export {};
+import { parseUrlRule } from "../../shared/src/url-rules.js";
+import { DEFAULT_BLOCKED_DOMAINS } from "../../shared/src/blocklists.js";
+import { getActiveHideRules, type HideRule } from "../../shared/src/hide-rules.js";
+import type { ServerActionResult } from "../../shared/src/actions.js";
+import {
+  findNotificationProfile,
+  resolveSessionAlert,
+  type NotificationProfile,
+  type ProfileEvent,
+  type SessionAlert,
+} from "../../shared/src/notification-profiles.js";
+import { FALLBACK_SOUND, getSoundClipId } from "../../shared/src/sounds.js";
+import {
+  DEFAULT_SPEECH_CONFIG,
+  getAnnouncementValues,
+  normalizeSpeechConfig,
+  renderAnnouncement,
+  type AnnouncementEvent,
+  type SpeechConfig,
+} from "../../shared/src/announcements.js";
+import {
+  buildDailyReport,
+  formatDailyReportLines,
+  isDailyReportEmpty,
+  type DailyReport,
+} from "../../shared/src/daily-report.js";
+import { DEFAULT_RETENTION_DAYS, type RetentionDays } from "../../shared/src/types.js";
 
 // Session type matching server output
 interface Session {
@@ -6,6 +32,7 @@ interface Session {
   status: "idle" | "working" | "waiting_for_input";
   projectName: string;
   cwd?: string;
+  initialCwd?: string; // Original project directory (quick actions run there)
   startTime: string;
   lastActivity: string;
   lastTool?: string;
@@ -29,6 +56,7 @@ interface Session {
       command?: string;
       pattern?: string;
       description?: string;
+      question?: string;
     };
   }>;
 }
@@ -81,10 +109,11 @@ interface NotificationConfig {
   onWaiting: boolean;
   onFinished: boolean;
   onDisconnected: boolean;
+  onBudget: boolean;
 }
 
-// Sound configuration
-type SoundStyle = "none" | "subtle" | "clear" | "say";
+// Sound configuration: "none", "say", a built-in preset or "custom:<clip id>" from the sound library
+type SoundStyle = string;
 
 interface SoundConfig {
   enabled: boolean;
@@ -94,6 +123,7 @@ interface SoundConfig {
     onFinished: SoundStyle;
     onDisconnected: SoundStyle;
   };
+  speech: SpeechConfig; // Templates, voice, rate and pitch for "say"
 }
 
 const DEFAULT_SOUND_CONFIG: SoundConfig = {
@@ -104,8 +134,54 @@ const DEFAULT_SOUND_CONFIG: SoundConfig = {
     onFinished: "subtle",
     onDisconnected: "subtle",
   },
+  speech: DEFAULT_SPEECH_CONFIG,
 };
 
+function withSoundDefaults(stored: Partial<SoundConfig>): SoundConfig {
+  return { ...DEFAULT_SOUND_CONFIG, ...stored, speech: normalizeSpeechConfig(stored.speech) };
+}
+
+// Repeated alerts while a session stays waiting for input; later steps can be louder or spoken
+interface ReminderStep {
+  afterMinutes: number; // Since the session started waiting
+  sound: SoundStyle;
+  volume: number; // 0-100, replaces the sound volume for this step
+}
+
+interface ReminderConfig {
+  enabled: boolean;
+  steps: ReminderStep[];
+}
+
+const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
+  enabled: true,
+  steps: [
+    { afterMinutes: 2, sound: "subtle", volume: 70 },
+    { afterMinutes: 5, sound: "clear", volume: 85 },
+    { afterMinutes: 15, sound: "say", volume: 100 },
+  ],
+};
+
+// Budget status computed by the server (sent with every state message)
+type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+interface BudgetPeriodStatus {
+  period: BudgetPeriod;
+  periodStart: string; // YYYY-MM-DD
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  percentUsed: number;
+}
+
+interface BudgetStatus {
+  global: BudgetPeriodStatus[];
+  projects: Array<{ projectName: string; periods: BudgetPeriodStatus[] }>;
+  thresholds: number[];
+  exhausted: boolean;
+  blockWhenExhausted: boolean;
+}
+
 // Productivity stats interface
 interface DailyStats {
   date: string; // YYYY-MM-DD
@@ -129,6 +205,26 @@ interface DailyStats {
   }>;
 }
 
+// Distractions on one blocked site for a day
+interface DomainDistractionStats {
+  attempts: number;
+  bypasses: number;
+  unblockedMs: number;
+}
+
+// Blocked page views, bypasses and time on blocked sites per day (storage key distractions_YYYY-MM-DD)
+interface DistractionStats {
+  date: string;
+  domains: Record<string, DomainDistractionStats>;
+  hourlyAttempts: number[]; // 24 entries, local hour of day
+  bypasses: number;
+}
+
+type DistractionEvent =
+  | { kind: "attempt"; domain: string }
+  | { kind: "time"; domain: string; ms: number }
+  | { kind: "bypass"; domain: string | null }; // null = started from the popup or settings
+
 // Activity segment for timeline
 interface ActivitySegment {
   status: "idle" | "working" | "waiting_for_input";
@@ -153,28 +249,170 @@ const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
   onWaiting: true,
   onFinished: true,
   onDisconnected: true,
+  onBudget: true,
+};
+
+// How bypasses are granted (edited on the options page)
+interface BypassPolicy {
+  durationMinutes: number;
+  perDay: number; // Free bypasses per calendar day
+  cooldownMinutes: number; // Wait after a bypass ends before the next one
+  earnMinutesPerHour: number; // Bypass minutes earned per hour of Claude working time (0 = off)
+}
+
+const DEFAULT_BYPASS_POLICY: BypassPolicy = {
+  durationMinutes: 5,
+  perDay: 1,
+  cooldownMinutes: 0,
+  earnMinutesPerHour: 0,
+};
+
+// One granted bypass, kept for stats
+interface BypassLogEntry {
+  startedAt: number;
+  endsAt: number;
+  source: "allowance" | "earned";
+}
+
+// Delay before blocking once Claude stops, and the terminal's "typing a prompt" signal
+interface GraceConfig {
+  gracePeriodSeconds: number; // After the last session goes idle (0 = block right away)
+  keepUnblockedWhileTyping: boolean; // Honor typing signals (POST /typing on the server)
+}
+
+const DEFAULT_GRACE_CONFIG: GraceConfig = {
+  gracePeriodSeconds: 0,
+  keepUnblockedWhileTyping: false,
 };
 
-const WS_URL = "ws://localhost:8765/ws";
-const SERVER_URL = "http://localhost:8765";
+// Quiet hours: weekly windows when notifications and sounds are held back (like a blocking schedule)
+interface QuietWindow {
+  id: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM" (earlier than start = overnight, equal = all day)
+  enabled: boolean;
+}
+
+interface QuietConfig {
+  windows: QuietWindow[];
+  criticalOnly: boolean; // Waiting-for-input alerts still get through quiet hours and Do Not Disturb
+}
+
+const DEFAULT_QUIET_CONFIG: QuietConfig = {
+  windows: [],
+  criticalOnly: true,
+};
+
+// Waiting for input is critical; everything else waits for the digest
+type AlertPriority = "critical" | "normal";
+
+// Why alerts are held back right now (until is only known for Do Not Disturb)
+interface QuietState {
+  reason: "dnd" | "quiet-hours";
+  until: number | null;
+}
+
+// An alert held back by quiet hours or Do Not Disturb, shown in the digest afterwards
+interface HeldAlert {
+  title: string;
+  message: string;
+  at: number;
+}
+
+// End-of-day summary notification
+interface DailySummaryConfig {
+  enabled: boolean;
+  time: string; // HH:MM, local
+}
+
+const DEFAULT_DAILY_SUMMARY_CONFIG: DailySummaryConfig = {
+  enabled: false,
+  time: "18:00",
+};
+
+// Remaining bypass credit, answered by GET_BYPASS_STATUS
+interface BypassStatus {
+  bypassActive: boolean;
+  bypassUntil: number | null;
+  usedToday: number;
+  allowanceRemaining: number;
+  earnedMinutes: number; // Earned today from working time
+  earnedMinutesRemaining: number;
+  cooldownUntil: number | null;
+  nextBypassMinutes: number; // Length of a bypass started now (0 = none available)
+  nextBypassSource: BypassLogEntry["source"] | null;
+  reason?: string; // Why no bypass is available
+  policy: BypassPolicy;
+}
+
+// Schedule rule for a blocked site pattern (see options Blocking Schedules)
+interface BlockSchedule {
+  id: string;
+  domain: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM" (earlier than start = overnight, equal = all day)
+  enabled: boolean;
+}
+
+// What the server can do on its machine (GET /capabilities)
+interface PlatformCapabilities {
+  platform: "macos" | "linux" | "unsupported";
+  fileManager: string;
+  actions: {
+    openFolder: boolean;
+    openTerminal: boolean;
+    openEditor: boolean;
+  };
+  terminals: string[];
+  editors: string[];
+}
+
+// Server address (configurable in settings, must match the server's --host/--port)
+interface ServerAddress {
+  host: string;
+  port: number;
+}
+
+const DEFAULT_SERVER_ADDRESS: ServerAddress = {
+  host: "localhost",
+  port: 8765,
+};
+
+// Pairing token header (the token lives in chrome.storage.local, it's per machine)
+const AUTH_HEADER = "X-Claude-Blocker-Token";
 const KEEPALIVE_INTERVAL = 20_000;
 const RECONNECT_BASE_DELAY = 1_000;
 const RECONNECT_MAX_DELAY = 30_000;
-const SESSION_HISTORY_MAX_DAYS = 7;
 const SESSION_HISTORY_STORAGE_KEY = "sessionHistory";
 const STATS_SYNC_DAYS = 10; // Number of days to sync on connect
+const BUDGET_ALERTS_STORAGE_KEY = "budgetAlerts";
+const BUDGET_ALERTS_MAX_AGE_DAYS = 40; // Longer than any budget period
+const BYPASS_LOG_STORAGE_KEY = "bypassLog";
+const MAX_DISTRACTION_TIME_REPORT_MS = 60_000; // Content scripts report time on blocked sites every few seconds
 
 // The actual state - service worker is single source of truth
 interface State {
   serverConnected: boolean;
   sessions: Session[];
   bypassUntil: number | null;
+  budget: BudgetStatus | null;
+  needsPairing: boolean; // No token yet, or the server rejected it
+  capabilities: PlatformCapabilities | null; // null until fetched (older servers don't report them)
+  idleSince: number | null; // When the last working or waiting session went idle
+  typingUntil: number | null; // From the server's typing signal
 }
 
 const state: State = {
   serverConnected: false,
   sessions: [],
   bypassUntil: null,
+  budget: null,
+  needsPairing: false,
+  capabilities: null,
+  idleSince: null,
+  typingUntil: null,
 };
 
 // Previous state for detecting changes
@@ -189,6 +427,47 @@ let notificationConfig: NotificationConfig = DEFAULT_NOTIFICATION_CONFIG;
 
 // Sound config
 let soundConfig: SoundConfig = DEFAULT_SOUND_CONFIG;
+let reminderConfig: ReminderConfig = DEFAULT_REMINDER_CONFIG;
+let notificationProfiles: NotificationProfile[] = [];
+
+// Bypass policy
+let bypassPolicy: BypassPolicy = DEFAULT_BYPASS_POLICY;
+
+// Grace period and typing signal
+let graceConfig: GraceConfig = DEFAULT_GRACE_CONFIG;
+let quietConfig: QuietConfig = DEFAULT_QUIET_CONFIG;
+let dndUntil: number | null = null;
+let wasQuiet = false;
+let alertDigestWrite: Promise<void> = Promise.resolve();
+// Budget checks are queued so back-to-back state updates don't both send the same alert
+let budgetAlertWrite: Promise<void> = Promise.resolve();
+let dailySummaryConfig: DailySummaryConfig = DEFAULT_DAILY_SUMMARY_CONFIG;
+let graceTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Server address (loaded from storage before the first connect)
+let serverAddress: ServerAddress = DEFAULT_SERVER_ADDRESS;
+let serverToken: string | null = null;
+
+// Blocked sites and their schedules (evaluated here so every tab makes the same decision)
+let blockedDomains: string[] = DEFAULT_BLOCKED_DOMAINS;
+let allowedUrls: string[] = [];
+let blockSchedules: BlockSchedule[] = [];
+let lastActiveDomainsKey = "";
+
+// Soft hiding: built-in selector packs turned on in settings, plus custom rules
+let hidePacks: string[] = [];
+let hideRules: HideRule[] = [];
+
+// Hard block: blocked pages are redirected to block.html by declarativeNetRequest instead of loading
+let hardBlock = false;
+let hardBlockRulesKey = "";
+let hardBlockSync: Promise<void> = Promise.resolve();
+
+// Distraction stats writes are queued so concurrent reports from several tabs don't overwrite each other
+let distractionWrite: Promise<void> = Promise.resolve();
+
+// Retention policy (synced from server)
+let retentionDays: RetentionDays = DEFAULT_RETENTION_DAYS;
 
 // Offscreen document state
 let offscreenCreated = false;
@@ -198,6 +477,32 @@ let keepaliveInterval: ReturnType<typeof setInterval> | null = null;
 let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
 let retryCount = 0;
 
+function getServerUrl(): string {
+  return `http://${serverAddress.host}:${serverAddress.port}`;
+}
+
+// Fetch from the server with the pairing token
+function serverFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (serverToken) headers.set(AUTH_HEADER, serverToken);
+  return fetch(`${getServerUrl()}${path}`, { ...init, headers });
+}
+
+// After a failed connect, find out whether the server is down or rejected our token
+async function checkPairingStatus(): Promise<void> {
+  try {
+    const response = await serverFetch("/pair/status");
+    const data = await response.json();
+    const needsPairing = data?.paired === false;
+    if (needsPairing !== state.needsPairing) {
+      state.needsPairing = needsPairing;
+      broadcast();
+    }
+  } catch {
+    // Server offline - nothing to learn
+  }
+}
+
 // Get today's date in YYYY-MM-DD format
 function getTodayDateKey(): string {
   const now = new Date();
@@ -212,6 +517,10 @@ function getStatsStorageKey(date: string): string {
   return `stats_${date}`;
 }
 
+function getDistractionStorageKey(date: string): string {
+  return `distractions_${date}`;
+}
+
 // Get last N days as date keys
 function getLastNDays(n: number): string[] {
   const dates: string[] = [];
@@ -233,7 +542,7 @@ async function syncRecentStats(): Promise<void> {
 
   try {
     const dates = getLastNDays(STATS_SYNC_DAYS);
-    const response = await fetch(`${SERVER_URL}/stats/range?dates=${dates.join(",")}`);
+    const response = await serverFetch(`/stats/range?dates=${dates.join(",")}`);
     if (!response.ok) {
       console.log("[Claude Blocker Advanced] Failed to sync stats from server:", response.status);
       return;
@@ -265,7 +574,7 @@ async function fetchStatsFromServer(date: string): Promise<DailyStats | null> {
   if (!state.serverConnected) return null;
 
   try {
-    const response = await fetch(`${SERVER_URL}/stats/${date}`);
+    const response = await serverFetch(`/stats/${date}`);
     if (!response.ok) return null;
 
     const data = await response.json();
@@ -409,16 +718,214 @@ async function addSessionToHistory(
   // Add to beginning (most recent first)
   history.unshift(historicalSession);
 
-  // Clean up old entries (older than 7 days)
-  const cutoffTime = now - SESSION_HISTORY_MAX_DAYS * 24 * 60 * 60 * 1000;
-  const filteredHistory = history.filter((h) => {
-    const endTime = new Date(h.endTime).getTime();
-    return endTime > cutoffTime;
-  });
+  // Clean up entries outside the retention window
+  const cutoffKey = getRetentionCutoffDateKey();
+  const filteredHistory = cutoffKey
+    ? history.filter((h) => getDateKey(new Date(h.endTime)) >= cutoffKey)
+    : history;
 
   await saveSessionHistory(filteredHistory);
 }
 
+// Load the bypass log (oldest first)
+async function loadBypassLog(): Promise<BypassLogEntry[]> {
+  const result = await chrome.storage.local.get([BYPASS_LOG_STORAGE_KEY]);
+  const log = result[BYPASS_LOG_STORAGE_KEY];
+  return Array.isArray(log) ? (log as BypassLogEntry[]) : [];
+}
+
+async function appendBypassLog(entry: BypassLogEntry): Promise<void> {
+  const log = await loadBypassLog();
+  await chrome.storage.local.set({ [BYPASS_LOG_STORAGE_KEY]: [...log, entry] });
+}
+
+async function loadDistractionStats(date: string): Promise<DistractionStats> {
+  const key = getDistractionStorageKey(date);
+  const result = await chrome.storage.local.get([key]);
+  const stats = result[key] as DistractionStats | undefined;
+  return stats ?? { date, domains: {}, hourlyAttempts: new Array(24).fill(0), bypasses: 0 };
+}
+
+// Site a distraction is counted under; null for pages that aren't websites
+function getDistractionDomain(url: unknown): string | null {
+  if (typeof url !== "string") return null;
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? hostname.replace(/^www\./, "") : null;
+  } catch {
+    return null;
+  }
+}
+
+function recordDistraction(event: DistractionEvent): Promise<void> {
+  distractionWrite = distractionWrite
+    .then(async () => {
+      const now = new Date();
+      const stats = await loadDistractionStats(getDateKey(now));
+      const domain = event.domain
+        ? (stats.domains[event.domain] ??= { attempts: 0, bypasses: 0, unblockedMs: 0 })
+        : null;
+
+      if (event.kind === "attempt" && domain) {
+        domain.attempts++;
+        stats.hourlyAttempts[now.getHours()]++;
+      } else if (event.kind === "time" && domain) {
+        domain.unblockedMs += event.ms;
+      } else if (event.kind === "bypass") {
+        stats.bypasses++;
+        if (domain) domain.bypasses++;
+      }
+      await chrome.storage.local.set({ [getDistractionStorageKey(stats.date)]: stats });
+    })
+    .catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to record distraction:", err);
+    });
+  return distractionWrite;
+}
+
+function getBypassMinutes(entry: BypassLogEntry): number {
+  return Math.round((entry.endsAt - entry.startedAt) / 60_000);
+}
+
+function formatClockTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+// Apply the bypass policy to today's log and working time
+async function getBypassStatus(): Promise<BypassStatus> {
+  const now = Date.now();
+  const todayKey = getTodayDateKey();
+  const log = await loadBypassLog();
+  const today = log.filter((entry) => getDateKey(new Date(entry.startedAt)) === todayKey);
+  const bypassActive = state.bypassUntil !== null && state.bypassUntil > now;
+
+  const allowanceUsed = today.filter((entry) => entry.source === "allowance").length;
+  const allowanceRemaining = Math.max(0, bypassPolicy.perDay - allowanceUsed);
+
+  // Working time is saved on status changes, so a long-running working stretch counts once it ends
+  let earnedMinutes = 0;
+  if (bypassPolicy.earnMinutesPerHour > 0) {
+    const stats = await loadDailyStats(todayKey);
+    earnedMinutes = Math.floor((stats.totalWorkingMs / 3_600_000) * bypassPolicy.earnMinutesPerHour);
+  }
+  const earnedUsed = today
+    .filter((entry) => entry.source === "earned")
+    .reduce((sum, entry) => sum + getBypassMinutes(entry), 0);
+  const earnedMinutesRemaining = Math.max(0, earnedMinutes - earnedUsed);
+
+  const last = log[log.length - 1];
+  const cooldownEnd = last ? last.endsAt + bypassPolicy.cooldownMinutes * 60_000 : 0;
+  const cooldownUntil = bypassPolicy.cooldownMinutes > 0 && cooldownEnd > now ? cooldownEnd : null;
+
+  let nextBypassMinutes = 0;
+  let nextBypassSource: BypassLogEntry["source"] | null = null;
+  let reason: string | undefined;
+  if (bypassActive) {
+    reason = "Bypass already active";
+  } else if (cooldownUntil) {
+    reason = `Next bypass at ${formatClockTime(cooldownUntil)}`;
+  } else if (allowanceRemaining > 0) {
+    nextBypassMinutes = bypassPolicy.durationMinutes;
+    nextBypassSource = "allowance";
+  } else if (earnedMinutesRemaining >= 1) {
+    nextBypassMinutes = Math.min(bypassPolicy.durationMinutes, earnedMinutesRemaining);
+    nextBypassSource = "earned";
+  } else {
+    reason = bypassPolicy.earnMinutesPerHour > 0 ? "No bypass left - earn more while Claude works" : "No bypass left today";
+  }
+
+  return {
+    bypassActive,
+    bypassUntil: state.bypassUntil,
+    usedToday: today.length,
+    allowanceRemaining,
+    earnedMinutes,
+    earnedMinutesRemaining,
+    cooldownUntil,
+    nextBypassMinutes,
+    nextBypassSource,
+    reason,
+    policy: bypassPolicy,
+  };
+}
+
+// Get YYYY-MM-DD for a date
+function getDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+// Oldest date key kept under the retention policy (null = keep everything)
+function getRetentionCutoffDateKey(): string | null {
+  if (retentionDays === null) return null;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - retentionDays + 1);
+  return getDateKey(cutoff);
+}
+
+// Remove stats and history outside the retention window from local storage
+async function pruneLocalData(): Promise<void> {
+  const cutoffKey = getRetentionCutoffDateKey();
+  if (!cutoffKey) return;
+
+  const all = await chrome.storage.local.get(null);
+  const staleStatsKeys = Object.keys(all).filter((key) =>
+    ["stats_", "distractions_"].some((prefix) => key.startsWith(prefix) && key.slice(prefix.length) < cutoffKey)
+  );
+  if (staleStatsKeys.length > 0) {
+    await chrome.storage.local.remove(staleStatsKeys);
+  }
+
+  const history = await loadSessionHistory();
+  const filteredHistory = history.filter((h) => getDateKey(new Date(h.endTime)) >= cutoffKey);
+  if (filteredHistory.length !== history.length) {
+    await saveSessionHistory(filteredHistory);
+  }
+
+  const bypassLog = await loadBypassLog();
+  const filteredBypassLog = bypassLog.filter((entry) => getDateKey(new Date(entry.startedAt)) >= cutoffKey);
+  if (filteredBypassLog.length !== bypassLog.length) {
+    await chrome.storage.local.set({ [BYPASS_LOG_STORAGE_KEY]: filteredBypassLog });
+  }
+
+  if (staleStatsKeys.length > 0 || filteredHistory.length !== history.length) {
+    console.log(
+      `[Claude Blocker Advanced] Pruned ${staleStatsKeys.length} daily stats records and ${history.length - filteredHistory.length} sessions (retention: ${retentionDays} days)`
+    );
+  }
+}
+
+// Adopt the server's retention policy (the server is the source of truth)
+async function syncRetentionFromServer(): Promise<void> {
+  if (!state.serverConnected) return;
+
+  try {
+    const response = await serverFetch(`/config`);
+    if (!response.ok) return;
+    const config = await response.json();
+    if (config && "retentionDays" in config && config.retentionDays !== retentionDays) {
+      // Triggers pruning through storage.onChanged
+      await chrome.storage.sync.set({ retentionDays: config.retentionDays });
+    }
+  } catch {
+    // Older server without /config - keep the local policy
+  }
+}
+
+// Fetch which quick actions and terminals the server's machine supports
+async function syncCapabilities(): Promise<void> {
+  try {
+    const response = await serverFetch(`/capabilities`);
+    if (!response.ok) return;
+    state.capabilities = await response.json();
+    broadcast();
+  } catch {
+    // Older server without /capabilities - show every action
+  }
+}
+
 // Update daily stats based on session state changes
 async function updateDailyStats(
   newSessions: Session[],
@@ -572,11 +1079,18 @@ async function updateDailyStats(
   await saveDailyStats(stats);
 }
 
-// Load bypass from storage on startup
-chrome.storage.sync.get(["bypassUntil"], (result) => {
+// Load bypass and its policy from storage on startup
+chrome.storage.sync.get(["bypassUntil", "bypassPolicy"], (result) => {
   if (result.bypassUntil && result.bypassUntil > Date.now()) {
     state.bypassUntil = result.bypassUntil;
   }
+  bypassPolicy = { ...DEFAULT_BYPASS_POLICY, ...result.bypassPolicy };
+});
+
+// Load the grace period on startup
+chrome.storage.sync.get(["graceConfig"], (result) => {
+  graceConfig = { ...DEFAULT_GRACE_CONFIG, ...result.graceConfig };
+  broadcast();
 });
 
 // Load notification config from storage on startup
@@ -592,17 +1106,92 @@ chrome.storage.onChanged.addListener((changes) => {
     notificationConfig = { ...DEFAULT_NOTIFICATION_CONFIG, ...changes.notificationConfig.newValue };
   }
   if (changes.soundConfig) {
-    soundConfig = { ...DEFAULT_SOUND_CONFIG, ...changes.soundConfig.newValue };
+    soundConfig = withSoundDefaults(changes.soundConfig.newValue ?? {});
+  }
+  if (changes.notificationProfiles) {
+    notificationProfiles = changes.notificationProfiles.newValue ?? [];
+  }
+  if (changes.reminderConfig) {
+    reminderConfig = { ...DEFAULT_REMINDER_CONFIG, ...changes.reminderConfig.newValue };
+    rescheduleWaitingReminders().catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to reschedule reminders:", err);
+    });
+  }
+  if (changes.serverToken) {
+    serverToken = changes.serverToken.newValue ?? null;
+    reconnectToServer();
+  }
+  if (changes.serverAddress) {
+    serverAddress = { ...DEFAULT_SERVER_ADDRESS, ...changes.serverAddress.newValue };
+    console.log(`[Claude Blocker Advanced] Server address changed to ${getServerUrl()}`);
+    reconnectToServer();
+  }
+  if (changes.bypassPolicy) {
+    bypassPolicy = { ...DEFAULT_BYPASS_POLICY, ...changes.bypassPolicy.newValue };
+  }
+  if (changes.graceConfig) {
+    graceConfig = { ...DEFAULT_GRACE_CONFIG, ...changes.graceConfig.newValue };
+    broadcast();
+  }
+  if (changes.dailySummaryConfig) {
+    dailySummaryConfig = { ...DEFAULT_DAILY_SUMMARY_CONFIG, ...changes.dailySummaryConfig.newValue };
+    scheduleDailySummary().catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to schedule daily summary:", err);
+    });
+  }
+  if (changes.quietConfig) {
+    quietConfig = { ...DEFAULT_QUIET_CONFIG, ...changes.quietConfig.newValue };
+    checkQuietTransition();
+    broadcast();
+  }
+  if (changes.hidePacks || changes.hideRules) {
+    if (changes.hidePacks) hidePacks = changes.hidePacks.newValue ?? [];
+    if (changes.hideRules) hideRules = changes.hideRules.newValue ?? [];
+    broadcast();
+  }
+  if (changes.hardBlock) {
+    hardBlock = changes.hardBlock.newValue === true;
+    broadcast();
+  }
+  if (changes.blockedDomains || changes.allowedUrls || changes.blockSchedules) {
+    if (changes.blockedDomains) blockedDomains = changes.blockedDomains.newValue ?? DEFAULT_BLOCKED_DOMAINS;
+    if (changes.allowedUrls) allowedUrls = changes.allowedUrls.newValue ?? [];
+    if (changes.blockSchedules) blockSchedules = changes.blockSchedules.newValue ?? [];
+    broadcast();
+  }
+  if (changes.retentionDays) {
+    retentionDays = changes.retentionDays.newValue === undefined
+      ? DEFAULT_RETENTION_DAYS
+      : changes.retentionDays.newValue;
+    pruneLocalData().catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to prune local data:", err);
+    });
   }
 });
 
-// Load sound config from storage on startup
-chrome.storage.sync.get(["soundConfig"], (result) => {
+// Load sound, reminder and per-project profile config from storage on startup
+chrome.storage.sync.get(["soundConfig", "reminderConfig", "notificationProfiles"], (result) => {
+  if (Array.isArray(result.notificationProfiles)) {
+    notificationProfiles = result.notificationProfiles;
+  }
   if (result.soundConfig) {
-    soundConfig = { ...DEFAULT_SOUND_CONFIG, ...result.soundConfig };
+    soundConfig = withSoundDefaults(result.soundConfig);
+  }
+  if (result.reminderConfig) {
+    reminderConfig = { ...DEFAULT_REMINDER_CONFIG, ...result.reminderConfig };
   }
 });
 
+// Load retention policy from storage on startup and prune anything outside it
+chrome.storage.sync.get(["retentionDays"], (result) => {
+  if (result.retentionDays !== undefined) {
+    retentionDays = result.retentionDays;
+  }
+  pruneLocalData().catch((err) => {
+    console.error("[Claude Blocker Advanced] Failed to prune local data:", err);
+  });
+});
+
 // Create offscreen document for audio playback
 async function ensureOffscreenDocument(): Promise<boolean> {
   if (offscreenCreated) {
@@ -635,8 +1224,35 @@ async function ensureOffscreenDocument(): Promise<boolean> {
   }
 }
 
+interface PlaySoundOptions {
+  message?: string; // Spoken by "say"
+  volume?: number; // Defaults to the sound volume
+  priority?: AlertPriority;
+}
+
+type SpeechVoice = Pick<SpeechConfig, "voice" | "rate" | "pitch">;
+
+// The text "say" speaks for a session event, from the user's template
+function getAnnouncement(event: AnnouncementEvent, session: Session): string {
+  return renderAnnouncement(soundConfig.speech.templates[event], getAnnouncementValues(session));
+}
+
+// Play an alert sound unless quiet hours or Do Not Disturb hold it back
+async function playSound(sound: SoundStyle, { message, volume, priority = "normal" }: PlaySoundOptions = {}): Promise<void> {
+  if (isAlertHeld(priority)) {
+    console.log("[Claude Blocker Advanced] Sound held back - quiet hours or Do Not Disturb");
+    return;
+  }
+  await playOffscreenSound(sound, message, volume);
+}
+
 // Play a sound via the offscreen document
-async function playSound(sound: SoundStyle, message?: string): Promise<void> {
+async function playOffscreenSound(
+  sound: SoundStyle,
+  message?: string,
+  volume = soundConfig.volume,
+  speech: SpeechVoice = soundConfig.speech
+): Promise<void> {
   if (!soundConfig.enabled || sound === "none") {
     return;
   }
@@ -649,12 +1265,25 @@ async function playSound(sound: SoundStyle, message?: string): Promise<void> {
   }
 
   try {
-    await chrome.runtime.sendMessage({
-      type: "PLAY_SOUND",
-      sound,
-      volume: soundConfig.volume,
-      message,
-    });
+    const clipId = getSoundClipId(sound);
+    if (clipId) {
+      const response = await chrome.runtime.sendMessage({ type: "PLAY_CLIP", clipId, volume });
+      if (!response?.success) {
+        // Deleted from the library or not decodable
+        console.warn("[Claude Blocker Advanced] Sound clip failed, using fallback:", response?.error);
+        await chrome.runtime.sendMessage({ type: "PLAY_SOUND", sound: FALLBACK_SOUND, volume });
+      }
+    } else {
+      await chrome.runtime.sendMessage({
+        type: "PLAY_SOUND",
+        sound,
+        volume,
+        message,
+        voice: speech.voice,
+        rate: speech.rate,
+        pitch: speech.pitch,
+      });
+    }
     console.log("[Claude Blocker Advanced] Sound played:", sound);
   } catch (error) {
     console.error("[Claude Blocker Advanced] Failed to play sound:", error);
@@ -665,11 +1294,12 @@ async function playSound(sound: SoundStyle, message?: string): Promise<void> {
 let notificationCount = 0;
 
 // Send Chrome notification
-function sendNotification(title: string, message: string, notificationId?: string): void {
+function sendNotification(title: string, message: string, notificationId?: string, buttons?: string[]): void {
   console.log("[Claude Blocker Advanced] sendNotification called:", {
     title,
     message,
     notificationId,
+    buttons,
     enabled: notificationConfig.enabled,
     config: notificationConfig
   });
@@ -687,6 +1317,7 @@ function sendNotification(title: string, message: string, notificationId?: strin
     message,
     priority: 1,
     silent: soundConfig.enabled, // Silence Chrome's default sound when we play our own
+    ...(buttons?.length ? { buttons: buttons.map((button) => ({ title: button })) } : {}),
   }, (createdId) => {
     if (chrome.runtime.lastError) {
       console.error("[Claude Blocker Advanced] Notification failed:", chrome.runtime.lastError);
@@ -697,9 +1328,403 @@ function sendNotification(title: string, message: string, notificationId?: strin
   });
 }
 
+// ============ NOTIFICATION ACTIONS ============
+
+type NotificationAction = "focus-terminal" | "open-editor" | "snooze";
+type SessionNotificationEvent = "waiting" | "finished" | "disconnected";
+
+const NOTIFICATION_SNOOZE_MS = 10 * 60 * 1000;
+
+const NOTIFICATION_ACTION_LABELS: Record<NotificationAction, string> = {
+  "focus-terminal": "Focus terminal",
+  "open-editor": "Open in editor",
+  snooze: "Snooze 10 min",
+};
+
+// Buttons per session notification, by button index (Chrome shows at most two)
+const SESSION_NOTIFICATION_ACTIONS: Record<SessionNotificationEvent, NotificationAction[]> = {
+  waiting: ["focus-terminal", "snooze"],
+  finished: ["focus-terminal", "open-editor"],
+  disconnected: [],
+};
+
+// Session ID -> time its notifications and sounds are snoozed until
+const notificationSnoozes = new Map<string, number>();
+
+function isSessionSnoozed(sessionId: string): boolean {
+  const until = notificationSnoozes.get(sessionId);
+  if (until === undefined) return false;
+  if (until > Date.now()) return true;
+  notificationSnoozes.delete(sessionId);
+  return false;
+}
+
+function getSessionNotificationButtons(event: SessionNotificationEvent): string[] {
+  return SESSION_NOTIFICATION_ACTIONS[event].map((action) => NOTIFICATION_ACTION_LABELS[action]);
+}
+
+// Session notifications use `${event}-${session.id}` as their ID
+function parseSessionNotificationId(
+  notificationId: string
+): { event: SessionNotificationEvent; sessionId: string } | null {
+  const match = /^(waiting|finished|disconnected)-(.+)$/.exec(notificationId);
+  if (!match) return null;
+  return { event: match[1] as SessionNotificationEvent, sessionId: match[2] };
+}
+
+// POST to a server action route (also used by the SERVER_ACTION proxy)
+async function requestServerAction(path: string, body: Record<string, unknown>): Promise<ServerActionResult> {
+  try {
+    const response = await serverFetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    // Failed actions carry { code, error } so callers can decide whether to fall back
+    const data = await response.json().catch(() => null);
+    return {
+      ok: response.ok,
+      statusText: response.statusText,
+      code: data?.code,
+      error: data?.error,
+      focused: data?.focused,
+      appActivated: data?.appActivated,
+    };
+  } catch {
+    return { ok: false, statusText: "Server not reachable" };
+  }
+}
+
+// Open the dashboard (reusing an open one), scrolled to a session when given
+// The hash picks what to show: session=<id> or report=<YYYY-MM-DD>
+async function openDashboard(hash?: string): Promise<void> {
+  const dashboardUrl = chrome.runtime.getURL("options.html");
+  const url = hash ? `${dashboardUrl}#${hash}` : dashboardUrl;
+  const tabs = await chrome.tabs.query({});
+  const existing = tabs.find((tab) => tab.url?.startsWith(dashboardUrl));
+  if (existing?.id === undefined) {
+    await chrome.tabs.create({ url });
+    return;
+  }
+  // Only the hash changes, so the page isn't reloaded
+  await chrome.tabs.update(existing.id, { url, active: true });
+  await chrome.windows.update(existing.windowId, { focused: true });
+}
+
+async function runNotificationAction(action: NotificationAction, sessionId: string): Promise<void> {
+  if (action === "snooze") {
+    notificationSnoozes.set(sessionId, Date.now() + NOTIFICATION_SNOOZE_MS);
+    return;
+  }
+
+  const session = state.sessions.find((s) => s.id === sessionId);
+  const cwd = session?.initialCwd || session?.cwd;
+  if (!session || !cwd) {
+    // Ended or unknown session - the dashboard shows what's left
+    await openDashboard(`session=${encodeURIComponent(sessionId)}`);
+    return;
+  }
+
+  const { terminalConfig, editorConfig } = await chrome.storage.sync.get(["terminalConfig", "editorConfig"]);
+  const result =
+    action === "focus-terminal"
+      ? await requestServerAction("/action/focus-session", {
+          path: cwd,
+          sessionId,
+          app: terminalConfig?.app || "warp",
+        })
+      : await requestServerAction("/action/open-editor", { path: cwd, app: editorConfig?.app || "cursor" });
+
+  if (!result.ok) {
+    sendNotification(
+      action === "focus-terminal" ? "Couldn't focus terminal" : "Couldn't open editor",
+      `${session.projectName}: ${result.error || result.statusText}`,
+      `action-failed-${sessionId}`
+    );
+  }
+}
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  chrome.notifications.clear(notificationId);
+  const target = parseSessionNotificationId(notificationId);
+  const reportDate = notificationId.startsWith(DAILY_SUMMARY_NOTIFICATION_PREFIX)
+    ? notificationId.slice(DAILY_SUMMARY_NOTIFICATION_PREFIX.length)
+    : null;
+  const hash = reportDate
+    ? `report=${reportDate}`
+    : target && target.event !== "disconnected"
+      ? `session=${encodeURIComponent(target.sessionId)}`
+      : undefined;
+  openDashboard(hash).catch((err) => {
+    console.error("[Claude Blocker Advanced] Failed to open dashboard:", err);
+  });
+});
+
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  const target = parseSessionNotificationId(notificationId);
+  const action = target && SESSION_NOTIFICATION_ACTIONS[target.event][buttonIndex];
+  if (!target || !action) return;
+  chrome.notifications.clear(notificationId);
+  runNotificationAction(action, target.sessionId).catch((err) => {
+    console.error("[Claude Blocker Advanced] Notification action failed:", err);
+  });
+});
+
+// ============ WAITING REMINDERS ============
+
+// Alarms survive the service worker being suspended; named `${prefix}${sessionId}:${stepIndex}`
+const REMINDER_ALARM_PREFIX = "reminder:";
+const REMINDER_STATE_WAIT_MS = 10_000;
+
+// Resolved by the first state message; an alarm can wake the service worker before it has reconnected
+let resolveFirstState: () => void = () => {};
+const firstState = new Promise<void>((resolve) => {
+  resolveFirstState = resolve;
+});
+
+function scheduleWaitingReminders(session: Session): void {
+  if (!reminderConfig.enabled) return;
+  const waitingSince = session.waitingForInputSince ? Date.parse(session.waitingForInputSince) : Date.now();
+  reminderConfig.steps.forEach((step, index) => {
+    const when = waitingSince + step.afterMinutes * 60_000;
+    // Steps already due were missed while the worker was down; don't fire them all at once
+    if (when <= Date.now()) return;
+    chrome.alarms.create(`${REMINDER_ALARM_PREFIX}${session.id}:${index}`, { when });
+  });
+}
+
+// Clear one session's reminders, or all of them
+async function clearWaitingReminders(sessionId?: string): Promise<void> {
+  const prefix = sessionId ? `${REMINDER_ALARM_PREFIX}${sessionId}:` : REMINDER_ALARM_PREFIX;
+  const alarms = await chrome.alarms.getAll();
+  await Promise.all(alarms.filter((alarm) => alarm.name.startsWith(prefix)).map((alarm) => chrome.alarms.clear(alarm.name)));
+}
+
+// Start reminders when a session starts waiting and stop them as soon as it doesn't
+function updateWaitingReminders(newSessions: Session[], oldSessions: Session[]): void {
+  const wasWaiting = new Set(oldSessions.filter((s) => s.status === "waiting_for_input").map((s) => s.id));
+  const isWaiting = new Set(newSessions.filter((s) => s.status === "waiting_for_input").map((s) => s.id));
+
+  for (const session of newSessions) {
+    if (isWaiting.has(session.id) && !wasWaiting.has(session.id)) {
+      scheduleWaitingReminders(session);
+    }
+  }
+  for (const sessionId of wasWaiting) {
+    if (!isWaiting.has(sessionId)) {
+      clearWaitingReminders(sessionId).catch((err) => {
+        console.error("[Claude Blocker Advanced] Failed to clear reminders:", err);
+      });
+    }
+  }
+}
+
+// After the steps change, replace the pending alarms for sessions that are waiting now
+async function rescheduleWaitingReminders(): Promise<void> {
+  await clearWaitingReminders();
+  for (const session of state.sessions) {
+    if (session.status === "waiting_for_input") scheduleWaitingReminders(session);
+  }
+}
+
+async function sendWaitingReminder(alarmName: string): Promise<void> {
+  const rest = alarmName.slice(REMINDER_ALARM_PREFIX.length);
+  const separator = rest.lastIndexOf(":");
+  const sessionId = rest.slice(0, separator);
+
+  await Promise.race([firstState, new Promise((resolve) => setTimeout(resolve, REMINDER_STATE_WAIT_MS))]);
+  // Read after the wait: a woken service worker loads the reminder config from storage meanwhile
+  const step = reminderConfig.steps[Number(rest.slice(separator + 1))];
+  const session = state.sessions.find((s) => s.id === sessionId);
+  if (!step || !reminderConfig.enabled || session?.status !== "waiting_for_input") return;
+  if (!state.serverConnected || !notificationConfig.enabled || isSessionSnoozed(session.id)) return;
+  // Reminders follow the session's waiting alert: no notification or no sound there means none here either
+  const alert = getSessionAlert(session, "onWaiting");
+  if (alert.sound === "none" && !alert.notify) return;
+
+  const waitingSince = session.waitingForInputSince ? Date.parse(session.waitingForInputSince) : NaN;
+  const minutes = Number.isNaN(waitingSince) ? step.afterMinutes : Math.round((Date.now() - waitingSince) / 60_000);
+  const message = `${session.projectName} has been waiting for your input for ${minutes} minute${minutes === 1 ? "" : "s"}`;
+
+  broadcastOverlayNotification("waiting", session.projectName, message);
+
+  if (alert.notify) {
+    // Clear first so Chrome shows the notification again instead of silently updating it
+    const notificationId = `waiting-${session.id}`;
+    await chrome.notifications.clear(notificationId);
+    notifyOrHold("critical", "Claude is still waiting", message, notificationId, getSessionNotificationButtons("waiting"));
+  }
+  if (alert.sound !== "none") {
+    await playSound(step.sound, { message: getAnnouncement("onReminder", session), volume: step.volume, priority: "critical" });
+  }
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (!alarm.name.startsWith(REMINDER_ALARM_PREFIX)) return;
+  sendWaitingReminder(alarm.name).catch((err) => {
+    console.error("[Claude Blocker Advanced] Failed to send reminder:", err);
+  });
+});
+
+// ============ QUIET HOURS & DO NOT DISTURB ============
+
+const DND_ALARM = "dnd-end";
+const DND_STORAGE_KEY = "dndUntil";
+const MAX_DND_MINUTES = 24 * 60;
+const ALERT_DIGEST_STORAGE_KEY = "alertDigest";
+const ALERT_DIGEST_NOTIFICATION_ID = "alert-digest";
+const MAX_HELD_ALERTS = 50;
+const ALERT_DIGEST_ITEMS = 5;
+
+function getQuietState(now: Date = new Date()): QuietState | null {
+  if (dndUntil !== null && dndUntil > now.getTime()) return { reason: "dnd", until: dndUntil };
+  if (quietConfig.windows.some((window) => window.enabled && isScheduleActive(window, now))) {
+    return { reason: "quiet-hours", until: null };
+  }
+  return null;
+}
+
+function isAlertHeld(priority: AlertPriority): boolean {
+  if (!getQuietState()) return false;
+  return !(priority === "critical" && quietConfig.criticalOnly);
+}
+
+// Keep a held-back alert for the digest
+function holdAlert(title: string, message: string): void {
+  alertDigestWrite = alertDigestWrite
+    .then(async () => {
+      const result = await chrome.storage.local.get([ALERT_DIGEST_STORAGE_KEY]);
+      const held: HeldAlert[] = result[ALERT_DIGEST_STORAGE_KEY] ?? [];
+      held.push({ title, message, at: Date.now() });
+      await chrome.storage.local.set({ [ALERT_DIGEST_STORAGE_KEY]: held.slice(-MAX_HELD_ALERTS) });
+    })
+    .catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to hold alert:", err);
+    });
+}
+
+// One notification listing what was held back, newest first
+function showAlertDigest(): void {
+  alertDigestWrite = alertDigestWrite
+    .then(async () => {
+      const result = await chrome.storage.local.get([ALERT_DIGEST_STORAGE_KEY]);
+      const held: HeldAlert[] = result[ALERT_DIGEST_STORAGE_KEY] ?? [];
+      if (held.length === 0) return;
+      await chrome.storage.local.remove(ALERT_DIGEST_STORAGE_KEY);
+
+      const latest = held.slice(-ALERT_DIGEST_ITEMS).reverse();
+      chrome.notifications.create(ALERT_DIGEST_NOTIFICATION_ID, {
+        type: "list",
+        iconUrl: "icon-128.png",
+        title: `${held.length} alert${held.length === 1 ? "" : "s"} while notifications were paused`,
+        message: latest[0].message,
+        items: latest.map((alert) => ({ title: alert.title, message: alert.message })),
+        priority: 1,
+      });
+    })
+    .catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to show alert digest:", err);
+    });
+}
+
+// Send a notification now, or keep it for the digest during quiet hours and Do Not Disturb
+function notifyOrHold(
+  priority: AlertPriority,
+  title: string,
+  message: string,
+  notificationId?: string,
+  buttons?: string[]
+): void {
+  if (isAlertHeld(priority)) {
+    holdAlert(title, message);
+    return;
+  }
+  sendNotification(title, message, notificationId, buttons);
+}
+
+// Show the digest once quiet hours or Do Not Disturb end
+function checkQuietTransition(): void {
+  const quiet = getQuietState() !== null;
+  if (quiet === wasQuiet) return;
+  wasQuiet = quiet;
+  if (!quiet) showAlertDigest();
+  broadcast();
+}
+
+// Turn Do Not Disturb on for some minutes, or off with null
+async function setDoNotDisturb(minutes: number | null): Promise<void> {
+  dndUntil = minutes ? Date.now() + minutes * 60_000 : null;
+  if (dndUntil) {
+    await chrome.storage.local.set({ [DND_STORAGE_KEY]: dndUntil });
+    // The alarm wakes a suspended service worker in time to show the digest
+    chrome.alarms.create(DND_ALARM, { when: dndUntil });
+  } else {
+    await chrome.storage.local.remove(DND_STORAGE_KEY);
+    await chrome.alarms.clear(DND_ALARM);
+  }
+  checkQuietTransition();
+  broadcast();
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === DND_ALARM) checkQuietTransition();
+});
+
+// ============ END-OF-DAY SUMMARY ============
+
+const DAILY_SUMMARY_ALARM = "daily-summary";
+const DAILY_SUMMARY_NOTIFICATION_PREFIX = "daily-summary:";
+
+// Stats, session history and blocked-site attempts for one day
+async function loadDailyReport(date: string): Promise<DailyReport> {
+  const [stats, history, distractions] = await Promise.all([
+    loadDailyStats(date),
+    loadSessionHistory(),
+    loadDistractionStats(date),
+  ]);
+  return buildDailyReport({ date, stats, history, distractions });
+}
+
+// Next occurrence of the configured time; one-shot alarms are re-created after each summary so DST shifts don't drift
+async function scheduleDailySummary(): Promise<void> {
+  await chrome.alarms.clear(DAILY_SUMMARY_ALARM);
+  if (!dailySummaryConfig.enabled) return;
+
+  const [hours, minutes] = dailySummaryConfig.time.split(":").map(Number);
+  const next = new Date();
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+  chrome.alarms.create(DAILY_SUMMARY_ALARM, { when: next.getTime() });
+}
+
+async function sendDailySummary(): Promise<void> {
+  // Cost and token totals come from the server; give it a moment to reconnect after the alarm woke us
+  await Promise.race([firstState, new Promise((resolve) => setTimeout(resolve, REMINDER_STATE_WAIT_MS))]);
+  await syncRecentStats();
+
+  const date = getTodayDateKey();
+  const report = await loadDailyReport(date);
+  if (isDailyReportEmpty(report)) return;
+  notifyOrHold(
+    "normal",
+    "Your day with Claude",
+    formatDailyReportLines(report).join("\n"),
+    `${DAILY_SUMMARY_NOTIFICATION_PREFIX}${date}`
+  );
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== DAILY_SUMMARY_ALARM) return;
+  sendDailySummary()
+    .catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to send daily summary:", err);
+    })
+    .finally(() => scheduleDailySummary());
+});
+
 // Broadcast overlay toast notification to all content scripts
 function broadcastOverlayNotification(
-  event: "waiting" | "finished" | "disconnected",
+  event: "waiting" | "finished" | "disconnected" | "budget",
   projectName: string,
   message: string
 ): void {
@@ -717,6 +1742,15 @@ function broadcastOverlayNotification(
   });
 }
 
+// The global settings for one event, with the session's project profile applied
+function getSessionAlert(session: Session, event: ProfileEvent): SessionAlert {
+  return resolveSessionAlert(findNotificationProfile(notificationProfiles, session), event, {
+    notify: notificationConfig[event],
+    sound: soundConfig.perEvent[event],
+    volume: soundConfig.volume,
+  });
+}
+
 // Check for session state changes and send notifications
 function checkForNotifications(newSessions: Session[]): void {
   console.log("[Claude Blocker Advanced] checkForNotifications called:", {
@@ -750,20 +1784,21 @@ function checkForNotifications(newSessions: Session[]): void {
       // Broadcast to overlay (always, regardless of notification config)
       broadcastOverlayNotification("waiting", session.projectName, message);
 
-      if (notificationConfig.onWaiting) {
-        sendNotification(
+      // Snoozed from a notification button: the overlay still updates, alerts stay quiet
+      if (isSessionSnoozed(session.id)) continue;
+
+      const alert = getSessionAlert(session, "onWaiting");
+      if (alert.notify) {
+        notifyOrHold(
+          "critical",
           "Claude has a question",
           message,
-          `waiting-${session.id}`
+          `waiting-${session.id}`,
+          getSessionNotificationButtons("waiting")
         );
       }
-      // Play sound based on config
-      const soundStyle = soundConfig.perEvent.onWaiting;
-      if (soundStyle === "say") {
-        playSound(soundStyle, message);
-      } else {
-        playSound(soundStyle);
-      }
+      // Play sound based on config ("say" speaks the announcement template)
+      playSound(alert.sound, { message: getAnnouncement("onWaiting", session), volume: alert.volume, priority: "critical" });
     }
 
     // Session finished working (was working, now idle)
@@ -776,20 +1811,20 @@ function checkForNotifications(newSessions: Session[]): void {
       // Broadcast to overlay (always, regardless of notification config)
       broadcastOverlayNotification("finished", session.projectName, message);
 
-      if (notificationConfig.onFinished) {
-        sendNotification(
+      if (isSessionSnoozed(session.id)) continue;
+
+      const alert = getSessionAlert(session, "onFinished");
+      if (alert.notify) {
+        notifyOrHold(
+          "normal",
           "Claude finished working",
           message,
-          `finished-${session.id}`
+          `finished-${session.id}`,
+          getSessionNotificationButtons("finished")
         );
       }
-      // Play sound based on config
-      const soundStyle = soundConfig.perEvent.onFinished;
-      if (soundStyle === "say") {
-        playSound(soundStyle, message);
-      } else {
-        playSound(soundStyle);
-      }
+      // Play sound based on config ("say" speaks the announcement template)
+      playSound(alert.sound, { message: getAnnouncement("onFinished", session), volume: alert.volume });
     }
   }
 
@@ -801,22 +1836,112 @@ function checkForNotifications(newSessions: Session[]): void {
       // Broadcast to overlay (always, regardless of notification config)
       broadcastOverlayNotification("disconnected", prev.projectName, message);
 
-      if (notificationConfig.onDisconnected) {
-        sendNotification(
-          "Session disconnected",
+      const alert = getSessionAlert(prev, "onDisconnected");
+      if (alert.notify) {
+        notifyOrHold("normal", "Session disconnected", message, `disconnected-${prev.id}`);
+      }
+      // Play sound based on config ("say" speaks the announcement template)
+      playSound(alert.sound, { message: getAnnouncement("onDisconnected", prev), volume: alert.volume });
+    }
+  }
+}
+
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+function checkBudgetThresholds(budget: BudgetStatus): void {
+  budgetAlertWrite = budgetAlertWrite
+    .then(() => sendBudgetAlerts(budget))
+    .catch((err) => {
+      console.error("[Claude Blocker Advanced] Failed to check budget:", err);
+    });
+}
+
+// Alert once per threshold per budget period; sent-alert keys are kept in local storage
+async function sendBudgetAlerts(budget: BudgetStatus): Promise<void> {
+  const result = await chrome.storage.local.get([BUDGET_ALERTS_STORAGE_KEY]);
+  const sentAlerts: Record<string, string> = result[BUDGET_ALERTS_STORAGE_KEY] ?? {};
+  let changed = false;
+
+  const scopes = [
+    { scope: "global", label: "Claude", periods: budget.global },
+    ...budget.projects.map((p) => ({ scope: `project:${p.projectName}`, label: p.projectName, periods: p.periods })),
+  ];
+
+  for (const { scope, label, periods } of scopes) {
+    for (const status of periods) {
+      const crossed = budget.thresholds.filter((t) => status.percentUsed >= t);
+      const newlyCrossed = crossed.filter(
+        (t) => !sentAlerts[`${scope}|${status.period}|${status.periodStart}|${t}`]
+      );
+      if (newlyCrossed.length === 0) continue;
+
+      // Mark every crossed threshold, but only alert for the highest one
+      for (const t of newlyCrossed) {
+        sentAlerts[`${scope}|${status.period}|${status.periodStart}|${t}`] = status.periodStart;
+      }
+      changed = true;
+
+      const threshold = Math.max(...newlyCrossed);
+      const periodLabel = BUDGET_PERIOD_LABELS[status.period];
+      const exhausted = status.spentUsd >= status.limitUsd;
+      const message = exhausted
+        ? `${label} ${periodLabel.toLowerCase()} budget exhausted ($${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)})`
+        : `${label} has used ${threshold}% of its ${periodLabel.toLowerCase()} budget ($${status.remainingUsd.toFixed(2)} left)`;
+
+      broadcastOverlayNotification("budget", label, message);
+
+      if (notificationConfig.onBudget) {
+        notifyOrHold(
+          "normal",
+          exhausted ? `${periodLabel} budget exhausted` : `${periodLabel} budget at ${threshold}%`,
           message,
-          `disconnected-${prev.id}`
+          `budget-${scope}-${status.period}-${threshold}`
         );
       }
-      // Play sound based on config
-      const soundStyle = soundConfig.perEvent.onDisconnected;
-      if (soundStyle === "say") {
-        playSound(soundStyle, message);
-      } else {
-        playSound(soundStyle);
-      }
     }
   }
+
+  if (!changed) return;
+
+  // Drop alert keys from periods that are long over
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - BUDGET_ALERTS_MAX_AGE_DAYS);
+  const cutoffKey = getDateKey(cutoff);
+  for (const [key, periodStart] of Object.entries(sentAlerts)) {
+    if (periodStart < cutoffKey) delete sentAlerts[key];
+  }
+  await chrome.storage.local.set({ [BUDGET_ALERTS_STORAGE_KEY]: sentAlerts });
+}
+
+// Minutes since midnight for "HH:MM"
+function parseScheduleTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function isScheduleActive(schedule: Pick<BlockSchedule, "days" | "start" | "end">, now: Date): boolean {
+  const today = now.getDay();
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = parseScheduleTime(schedule.start);
+  const end = parseScheduleTime(schedule.end);
+
+  if (start === end) return schedule.days.includes(today);
+  if (start < end) return schedule.days.includes(today) && minutes >= start && minutes < end;
+  // Overnight window: tonight's part, or the tail of yesterday's
+  const yesterday = (today + 6) % 7;
+  return (schedule.days.includes(today) && minutes >= start) || (schedule.days.includes(yesterday) && minutes < end);
+}
+
+// Blocked domains whose schedule applies right now
+function getActiveBlockedDomains(now: Date = new Date()): string[] {
+  return blockedDomains.filter((domain) => {
+    const schedules = blockSchedules.filter((s) => s.enabled && s.domain === domain);
+    return schedules.length === 0 || schedules.some((s) => isScheduleActive(s, now));
+  });
 }
 
 // Compute derived state
@@ -827,7 +1952,18 @@ function getPublicState() {
 
   // Don't block if waiting for input - only block when truly idle
   const isIdle = working === 0 && waitingForInput === 0;
-  const shouldBlock = !bypassActive && (isIdle || !state.serverConnected);
+  // Idle blocking waits out the grace period and any typing signal; budget and offline blocks don't
+  const now = Date.now();
+  const graceEnd = state.idleSince !== null ? state.idleSince + graceConfig.gracePeriodSeconds * 1000 : 0;
+  const graceUntil = isIdle && graceEnd > now ? graceEnd : null;
+  const typingUntil =
+    isIdle && graceConfig.keepUnblockedWhileTyping && state.typingUntil !== null && state.typingUntil > now
+      ? state.typingUntil
+      : null;
+  const idleBlocked = isIdle && graceUntil === null && typingUntil === null;
+  // Opt-in: an exhausted budget blocks even while Claude is working
+  const budgetBlocked = !!state.budget?.blockWhenExhausted && state.budget.exhausted;
+  const shouldBlock = !bypassActive && (idleBlocked || budgetBlocked || !state.serverConnected);
 
   return {
     serverConnected: state.serverConnected,
@@ -838,12 +1974,131 @@ function getPublicState() {
     blocked: shouldBlock,
     bypassActive,
     bypassUntil: state.bypassUntil,
+    graceUntil: state.serverConnected ? graceUntil : null,
+    typingUntil: state.serverConnected ? typingUntil : null,
+    needsPairing: state.needsPairing,
+    budget: state.budget,
+    budgetBlocked,
+    capabilities: state.capabilities,
+    activeBlockedDomains: getActiveBlockedDomains(),
+    allowedUrls,
+    hardBlock,
+    hideRules: getActiveHideRules(hidePacks, hideRules),
+    quiet: getQuietState(),
   };
 }
 
+const HARD_BLOCK_PAGE = chrome.runtime.getURL("block.html");
+const ALLOW_RULE_PRIORITY = 2; // Allow rules win over redirects, as in the content script
+const REDIRECT_RULE_PRIORITY = 1;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// URL rule pattern to a declarativeNetRequest condition; the regex must match the whole URL so \0 can
+// carry it to the block page
+function toRuleCondition(pattern: string): chrome.declarativeNetRequest.RuleCondition | null {
+  const rule = parseUrlRule(pattern);
+  if (typeof rule === "string") return null;
+
+  const resourceTypes = [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME];
+  if (rule.kind === "regex") {
+    return {
+      regexFilter: `^.*(?:${rule.regex.source}).*$`,
+      isUrlFilterCaseSensitive: !rule.regex.flags.includes("i"),
+      resourceTypes,
+    };
+  }
+
+  const origin = `^https?://([^/?#]*\\.)?${escapeRegex(rule.host)}(:[0-9]+)?`;
+  return {
+    // Path globs compile to an anchored regex; drop its ^ to append it after the origin
+    regexFilter: rule.kind === "path" ? origin + rule.path.source.slice(1) : `${origin}([/?#].*)?$`,
+    isUrlFilterCaseSensitive: rule.kind === "path",
+    resourceTypes,
+  };
+}
+
+// Patterns RE2 can't compile (lookarounds, backreferences) are skipped; the content script still covers them
+async function buildHardBlockRules(
+  blockPatterns: string[],
+  allowPatterns: string[]
+): Promise<chrome.declarativeNetRequest.Rule[]> {
+  const rules: chrome.declarativeNetRequest.Rule[] = [];
+  const entries = [
+    ...allowPatterns.map((pattern) => ({ pattern, allow: true })),
+    ...blockPatterns.map((pattern) => ({ pattern, allow: false })),
+  ];
+
+  for (const { pattern, allow } of entries) {
+    const condition = toRuleCondition(pattern);
+    if (!condition?.regexFilter) continue;
+    const support = await chrome.declarativeNetRequest.isRegexSupported({
+      regex: condition.regexFilter,
+      isCaseSensitive: condition.isUrlFilterCaseSensitive,
+    });
+    if (!support.isSupported) {
+      console.warn(`[Claude Blocker Advanced] Hard block can't use pattern ${pattern}: ${support.reason}`);
+      continue;
+    }
+
+    rules.push({
+      id: rules.length + 1,
+      priority: allow ? ALLOW_RULE_PRIORITY : REDIRECT_RULE_PRIORITY,
+      action: allow
+        ? { type: chrome.declarativeNetRequest.RuleActionType.ALLOW }
+        : {
+            type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
+            redirect: { regexSubstitution: `${HARD_BLOCK_PAGE}#\\0` },
+          },
+      condition,
+    });
+  }
+  return rules;
+}
+
+// Install redirect rules while pages should be blocked and remove them otherwise. Updates are queued so
+// GET_STATE can wait for the rules to match the state it returns
+function syncHardBlockRules(publicState: ReturnType<typeof getPublicState>): Promise<void> {
+  const blockPatterns = hardBlock && publicState.blocked ? publicState.activeBlockedDomains : [];
+  const allowPatterns = blockPatterns.length > 0 ? allowedUrls : [];
+  const key = JSON.stringify([blockPatterns, allowPatterns]);
+  if (key === hardBlockRulesKey) return hardBlockSync;
+  hardBlockRulesKey = key;
+
+  hardBlockSync = hardBlockSync
+    .then(async () => {
+      const addRules = await buildHardBlockRules(blockPatterns, allowPatterns);
+      const existing = await chrome.declarativeNetRequest.getDynamicRules();
+      await chrome.declarativeNetRequest.updateDynamicRules({
+        removeRuleIds: existing.map((rule) => rule.id),
+        addRules,
+      });
+    })
+    .catch((error) => {
+      console.error("[Claude Blocker Advanced] Failed to update hard block rules:", error);
+      hardBlockRulesKey = ""; // Retry on the next broadcast
+    });
+  return hardBlockSync;
+}
+
+// Re-broadcast when the grace period or typing window runs out, so tabs block on time
+function scheduleGraceExpiry(publicState: ReturnType<typeof getPublicState>): void {
+  if (graceTimeout) {
+    clearTimeout(graceTimeout);
+    graceTimeout = null;
+  }
+  const ends = [publicState.graceUntil, publicState.typingUntil].filter((t): t is number => t !== null);
+  if (ends.length === 0) return;
+  graceTimeout = setTimeout(broadcast, Math.max(...ends) - Date.now() + 50);
+}
+
 // Broadcast current state to all tabs
 function broadcast() {
   const publicState = getPublicState();
+  syncHardBlockRules(publicState);
+  scheduleGraceExpiry(publicState);
   chrome.tabs.query({}, (tabs) => {
     for (const tab of tabs) {
       if (tab.id) {
@@ -858,12 +2113,23 @@ function connect() {
   if (websocket?.readyState === WebSocket.OPEN) return;
   if (websocket?.readyState === WebSocket.CONNECTING) return;
 
+  // The server rejects unpaired connections; pairing triggers a reconnect
+  if (!serverToken) {
+    state.needsPairing = true;
+    broadcast();
+    return;
+  }
+
   try {
-    websocket = new WebSocket(WS_URL);
+    const wsUrl = `ws://${serverAddress.host}:${serverAddress.port}/ws?token=${encodeURIComponent(serverToken)}`;
+    websocket = new WebSocket(wsUrl);
+    let opened = false;
 
     websocket.onopen = () => {
       console.log("[Claude Blocker Advanced] Connected");
+      opened = true;
       state.serverConnected = true;
+      state.needsPairing = false;
       wasConnected = true;
       retryCount = 0;
       startKeepalive();
@@ -873,6 +2139,8 @@ function connect() {
       syncRecentStats().catch((err) => {
         console.log("[Claude Blocker Advanced] Failed to sync stats on connect:", err);
       });
+      syncRetentionFromServer();
+      syncCapabilities();
     };
 
     websocket.onmessage = (event) => {
@@ -882,6 +2150,7 @@ function connect() {
           // Check for notifications before updating state
           const newSessions: Session[] = msg.sessions ?? [];
           checkForNotifications(newSessions);
+          updateWaitingReminders(newSessions, state.sessions);
 
           // Update daily stats based on state changes
           updateDailyStats(newSessions, state.sessions).catch((err) => {
@@ -891,8 +2160,22 @@ function connect() {
           // Update previous sessions for next comparison
           previousSessions = state.sessions;
 
+          // Start the grace period on the working/waiting -> idle transition
+          const isActive = (sessions: Session[]) => sessions.some((s) => s.status !== "idle");
+          if (isActive(newSessions)) {
+            state.idleSince = null;
+          } else if (isActive(state.sessions)) {
+            state.idleSince = Date.now();
+          }
+          state.typingUntil = msg.typingUntil ?? null;
+
           // Now receiving full sessions array from server
           state.sessions = newSessions;
+          resolveFirstState();
+          state.budget = msg.budget ?? null;
+          if (state.budget) {
+            checkBudgetThresholds(state.budget);
+          }
           broadcast();
         }
 
@@ -926,7 +2209,8 @@ function connect() {
 
       // Send notification if we were previously connected
       if (wasConnected && notificationConfig.enabled && notificationConfig.onDisconnected) {
-        sendNotification(
+        notifyOrHold(
+          "normal",
           "Server disconnected",
           "Claude Blocker Advanced server is no longer reachable",
           "server-disconnected"
@@ -938,6 +2222,9 @@ function connect() {
       previousSessions = [];
       stopKeepalive();
       broadcast();
+      if (!opened) {
+        checkPairingStatus();
+      }
       scheduleReconnect();
     };
 
@@ -966,6 +2253,21 @@ function stopKeepalive() {
   }
 }
 
+// Drop the current connection and connect to the (new) server address right away
+function reconnectToServer() {
+  retryCount = 0;
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
+  }
+  if (websocket && websocket.readyState !== WebSocket.CLOSED) {
+    wasConnected = false; // Not a server outage - skip the disconnect notification
+    websocket.close(); // onclose schedules the reconnect
+  } else {
+    connect();
+  }
+}
+
 function scheduleReconnect() {
   if (reconnectTimeout) clearTimeout(reconnectTimeout);
   const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, retryCount), RECONNECT_MAX_DELAY);
@@ -976,34 +2278,39 @@ function scheduleReconnect() {
 // Handle messages from content scripts
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type === "GET_STATE") {
-    sendResponse(getPublicState());
+    const publicState = getPublicState();
+    syncHardBlockRules(publicState).then(() => sendResponse(publicState));
     return true;
   }
 
   if (message.type === "ACTIVATE_BYPASS") {
-    const today = new Date().toDateString();
-    chrome.storage.sync.get(["lastBypassDate"], (result) => {
-      if (result.lastBypassDate === today) {
-        sendResponse({ success: false, reason: "Already used today" });
-        return;
-      }
-      state.bypassUntil = Date.now() + 5 * 60 * 1000;
-      chrome.storage.sync.set({ bypassUntil: state.bypassUntil, lastBypassDate: today });
-      broadcast();
-      sendResponse({ success: true });
-    });
+    getBypassStatus()
+      .then(async (status) => {
+        // Re-check after the awaits so two clicks can't both start a bypass
+        const alreadyActive = state.bypassUntil !== null && state.bypassUntil > Date.now();
+        if (!status.nextBypassSource || alreadyActive) {
+          sendResponse({ success: false, reason: status.reason ?? "Bypass already active" });
+          return;
+        }
+        const startedAt = Date.now();
+        state.bypassUntil = startedAt + status.nextBypassMinutes * 60_000;
+        chrome.storage.sync.set({ bypassUntil: state.bypassUntil });
+        broadcast();
+        await appendBypassLog({ startedAt, endsAt: state.bypassUntil, source: status.nextBypassSource });
+        // Block screens send the blocked page's URL
+        await recordDistraction({ kind: "bypass", domain: getDistractionDomain(message.url) });
+        sendResponse({ success: true, bypassUntil: state.bypassUntil });
+      })
+      .catch((err) => {
+        sendResponse({ success: false, reason: String(err) });
+      });
     return true;
   }
 
   if (message.type === "GET_BYPASS_STATUS") {
-    const today = new Date().toDateString();
-    chrome.storage.sync.get(["lastBypassDate"], (result) => {
-      sendResponse({
-        usedToday: result.lastBypassDate === today,
-        bypassActive: state.bypassUntil !== null && state.bypassUntil > Date.now(),
-        bypassUntil: state.bypassUntil,
-      });
-    });
+    getBypassStatus()
+      .then(sendResponse)
+      .catch(() => sendResponse(undefined));
     return true;
   }
 
@@ -1044,6 +2351,53 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === "RECORD_DISTRACTION") {
+    const domain = getDistractionDomain(message.url);
+    if (!domain) return false;
+    if (message.event === "attempt") {
+      recordDistraction({ kind: "attempt", domain });
+    } else if (message.event === "time" && typeof message.ms === "number" && message.ms > 0) {
+      recordDistraction({ kind: "time", domain, ms: Math.min(message.ms, MAX_DISTRACTION_TIME_REPORT_MS) });
+    }
+    return false;
+  }
+
+  if (message.type === "GET_DAILY_REPORT") {
+    loadDailyReport(message.date ?? getTodayDateKey())
+      .then((report) => {
+        sendResponse({ success: true, report });
+      })
+      .catch((err) => {
+        sendResponse({ success: false, error: String(err) });
+      });
+    return true;
+  }
+
+  if (message.type === "GET_DISTRACTION_STATS") {
+    loadDistractionStats(message.date ?? getTodayDateKey())
+      .then((stats) => {
+        sendResponse({ success: true, stats });
+      })
+      .catch((err) => {
+        sendResponse({ success: false, error: String(err) });
+      });
+    return true;
+  }
+
+  if (message.type === "GET_BYPASS_LOG") {
+    loadBypassLog()
+      .then((log) => {
+        const entries = message.date
+          ? log.filter((entry) => getDateKey(new Date(entry.startedAt)) === message.date)
+          : log;
+        sendResponse({ success: true, entries });
+      })
+      .catch((err) => {
+        sendResponse({ success: false, error: String(err) });
+      });
+    return true;
+  }
+
   if (message.type === "TEST_NOTIFICATION") {
     console.log("[Claude Blocker Advanced] Test notification requested");
     // Temporarily enable notifications for the test
@@ -1081,7 +2435,7 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 
   if (message.type === "TEST_SOUND") {
     console.log("[Claude Blocker Advanced] Test sound requested:", message.sound);
-    playSound(message.sound as SoundStyle, message.message)
+    playOffscreenSound(message.sound as SoundStyle, message.message, message.volume, message.speech)
       .then(() => {
         sendResponse({ success: true });
       })
@@ -1103,6 +2457,162 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === "SET_RETENTION") {
+    // Update the server policy first; local storage follows it
+    const newRetention = message.retentionDays as RetentionDays;
+    serverFetch(`/config`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ retentionDays: newRetention }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        await chrome.storage.sync.set({ retentionDays: data.retentionDays });
+        sendResponse({ success: true, retentionDays: data.retentionDays });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "GET_SERVER_CONFIG") {
+    serverFetch(`/config`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        sendResponse({ success: true, config: data });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "SET_BUDGET") {
+    // The server owns budget limits and pushes the new status with the next state message
+    serverFetch(`/config`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ budget: message.budget }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        sendResponse({ success: true, budget: data.budget });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "EXPORT_DATA") {
+    const params = new URLSearchParams({
+      from: message.from,
+      to: message.to,
+      kind: message.kind,
+      format: message.format,
+    });
+    serverFetch(`/export?${params}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        // Server sends: Content-Disposition: attachment; filename="..."
+        const disposition = response.headers.get("Content-Disposition") ?? "";
+        const filename = disposition.match(/filename="([^"]+)"/)?.[1];
+        sendResponse({
+          success: true,
+          content: await response.text(),
+          contentType: response.headers.get("Content-Type") ?? "text/plain",
+          filename,
+        });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "PAIR_START") {
+    // Server prints a one-time code in its terminal
+    serverFetch("/pair/start", { method: "POST" })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        sendResponse({ success: true, expiresInMs: data.expiresInMs });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "PAIR_COMPLETE") {
+    serverFetch("/pair/complete", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: message.code }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok || !data?.token) {
+          sendResponse({ success: false, error: data?.error || `Server error ${response.status}` });
+          return;
+        }
+        // Reconnects through storage.onChanged
+        await chrome.storage.local.set({ serverToken: data.token });
+        sendResponse({ success: true });
+      })
+      .catch(() => {
+        sendResponse({ success: false, error: "Server not reachable" });
+      });
+    return true;
+  }
+
+  if (message.type === "SERVER_ACTION") {
+    // Proxy for quick actions from content scripts and extension pages (they don't hold the token)
+    const path = String(message.path);
+    if (!path.startsWith("/action/")) {
+      sendResponse({ ok: false, statusText: "Not an action route" });
+      return true;
+    }
+    requestServerAction(path, message.body ?? {}).then(sendResponse);
+    return true;
+  }
+
+  if (message.type === "SET_DND") {
+    const minutes = message.minutes === null ? null : Number(message.minutes);
+    if (minutes !== null && (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_DND_MINUTES)) {
+      sendResponse({ success: false, error: `Do Not Disturb lasts 1-${MAX_DND_MINUTES} minutes` });
+      return true;
+    }
+    setDoNotDisturb(minutes)
+      .then(() => {
+        sendResponse({ success: true, quiet: getQuietState() });
+      })
+      .catch((err) => {
+        sendResponse({ success: false, error: String(err) });
+      });
+    return true;
+  }
+
   if (message.type === "GET_SERVER_STATUS") {
     sendResponse({
       serverConnected: state.serverConnected,
@@ -1113,14 +2623,62 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   return false;
 });
 
-// Check bypass expiry
+// Check bypass expiry and schedule boundaries
 setInterval(() => {
   if (state.bypassUntil && state.bypassUntil <= Date.now()) {
     state.bypassUntil = null;
     chrome.storage.sync.remove("bypassUntil");
     broadcast();
   }
+
+  const activeDomainsKey = getActiveBlockedDomains().join(",");
+  if (activeDomainsKey !== lastActiveDomainsKey) {
+    lastActiveDomainsKey = activeDomainsKey;
+    broadcast();
+  }
+
+  checkQuietTransition();
 }, 5000);
 
-// Start
-connect();
+// Load quiet hours and Do Not Disturb; alerts held before the worker was suspended show once quiet time is over
+chrome.storage.sync.get(["quietConfig"], (result) => {
+  quietConfig = { ...DEFAULT_QUIET_CONFIG, ...result.quietConfig };
+  chrome.storage.local.get([DND_STORAGE_KEY], (local) => {
+    dndUntil = typeof local[DND_STORAGE_KEY] === "number" ? local[DND_STORAGE_KEY] : null;
+    wasQuiet = getQuietState() !== null;
+    if (!wasQuiet) showAlertDigest();
+    broadcast();
+  });
+});
+
+// Load the summary time on startup; the alarm is only created when missing so a pending one isn't pushed back
+chrome.storage.sync.get(["dailySummaryConfig"], async (result) => {
+  dailySummaryConfig = { ...DEFAULT_DAILY_SUMMARY_CONFIG, ...result.dailySummaryConfig };
+  if (dailySummaryConfig.enabled && !(await chrome.alarms.get(DAILY_SUMMARY_ALARM))) {
+    await scheduleDailySummary();
+  }
+});
+
+// Load blocked sites, allowed pages, schedules, soft hiding and the hard block setting
+chrome.storage.sync.get(
+  ["blockedDomains", "allowedUrls", "blockSchedules", "hidePacks", "hideRules", "hardBlock"],
+  (result) => {
+    if (Array.isArray(result.blockedDomains)) blockedDomains = result.blockedDomains;
+    hardBlock = result.hardBlock === true;
+    if (Array.isArray(result.allowedUrls)) allowedUrls = result.allowedUrls;
+    if (Array.isArray(result.blockSchedules)) blockSchedules = result.blockSchedules;
+    if (Array.isArray(result.hidePacks)) hidePacks = result.hidePacks;
+    if (Array.isArray(result.hideRules)) hideRules = result.hideRules;
+    lastActiveDomainsKey = getActiveBlockedDomains().join(",");
+    broadcast();
+  }
+);
+
+// Start once the server address and pairing token are known
+chrome.storage.sync.get(["serverAddress"], (result) => {
+  serverAddress = { ...DEFAULT_SERVER_ADDRESS, ...result.serverAddress };
+  chrome.storage.local.get(["serverToken"], (local) => {
+    serverToken = local.serverToken ?? null;
+    connect();
+  });
+});
@@ -0,0 +1,57 @@
+// Uploaded sound clips, stored in the extension's IndexedDB (shared by the options page and the offscreen document)
+import type { SoundClip } from "../../shared/src/sounds.js";
+
+const DB_NAME = "claude-blocker-sounds";
+const DB_VERSION = 1;
+const CLIP_STORE = "clips";
+
+interface StoredClip extends SoundClip {
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CLIP_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(CLIP_STORE, mode).objectStore(CLIP_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Oldest first, without the audio
+export async function listSoundClips(): Promise<SoundClip[]> {
+  const clips = await runRequest<StoredClip[]>("readonly", (store) => store.getAll());
+  return clips.map(({ data: _data, ...clip }) => clip).sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export async function getSoundClipData(id: string): Promise<Blob | null> {
+  const clip = await runRequest<StoredClip | undefined>("readonly", (store) => store.get(id));
+  return clip?.data ?? null;
+}
+
+export async function saveSoundClip(clip: SoundClip, data: Blob): Promise<void> {
+  await runRequest("readwrite", (store) => store.put({ ...clip, data }));
+}
+
+export async function deleteSoundClip(id: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,92 @@
+import path from "path";
+import { statSync } from "fs";
+import type { ActionErrorCode, ActionResponse } from "./types.js";
+
+// HTTP status sent with each error code
+const ACTION_ERROR_STATUS: Record<ActionErrorCode, number> = {
+  invalid_request: 400,
+  unknown_path: 403,
+  path_not_found: 404,
+  unsupported: 501,
+  app_not_found: 424,
+  launch_failed: 500,
+  not_focusable: 409,
+};
+
+// Claude Code session IDs are UUIDs; anything else never reaches a command line
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// A quick action failure the extension can act on (see ActionErrorCode)
+export class ActionError extends Error {
+  readonly code: ActionErrorCode;
+
+  constructor(code: ActionErrorCode, message: string) {
+    super(message);
+    this.name = "ActionError";
+    this.code = code;
+  }
+}
+
+// Map spawn/exec failures to codes: ENOENT means the program isn't installed
+export function toActionError(error: unknown, program: string): ActionError {
+  if (error instanceof ActionError) return error;
+  if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+    return new ActionError("app_not_found", `${program} is not installed or not on PATH`);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ActionError("launch_failed", `${program} failed: ${message}`);
+}
+
+export function getActionErrorResponse(error: unknown): { status: number; body: ActionResponse } {
+  const actionError = error instanceof ActionError ? error : toActionError(error, "Action");
+  return {
+    status: ACTION_ERROR_STATUS[actionError.code],
+    body: { success: false, code: actionError.code, error: actionError.message },
+  };
+}
+
+// Only directories that belong to a live or recorded session may be opened
+export function resolveActionPath(value: unknown, knownDirectories: Set<string>): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new ActionError("invalid_request", "path is required");
+  }
+  if (!path.isAbsolute(value)) {
+    throw new ActionError("invalid_request", "path must be absolute");
+  }
+
+  const resolved = path.resolve(value);
+  if (!knownDirectories.has(resolved)) {
+    throw new ActionError("unknown_path", "path is not the directory of a known session");
+  }
+
+  try {
+    if (!statSync(resolved).isDirectory()) {
+      throw new ActionError("path_not_found", `${resolved} is not a directory`);
+    }
+  } catch (error) {
+    if (error instanceof ActionError) throw error;
+    throw new ActionError("path_not_found", `${resolved} no longer exists`);
+  }
+
+  return resolved;
+}
+
+export function parseSessionId(value: unknown): string {
+  if (typeof value !== "string" || !SESSION_ID_PATTERN.test(value)) {
+    throw new ActionError("invalid_request", "sessionId is missing or malformed");
+  }
+  return value;
+}
+
+// Parse an action request body; malformed JSON is an invalid_request
+export function parseActionBody(body: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new ActionError("invalid_request", "Invalid JSON");
+}
@@ -0,0 +1,137 @@
+import path from "path";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, chmodSync } from "fs";
+import { homedir } from "os";
+import { randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+
+const DATA_DIR = path.join(homedir(), ".claude-blocker");
+const AUTH_FILE = path.join(DATA_DIR, "auth.json");
+
+// Header sent by the hooks, statusline script and extension
+export const AUTH_HEADER = "x-claude-blocker-token";
+
+const PAIRING_CODE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const PAIRING_MAX_ATTEMPTS = 5;
+
+// Per-install secret, kept out of config.json (which GET /config exposes)
+interface AuthData {
+  token: string;
+  pairedOrigins: string[]; // Extension origins allowed by CORS
+}
+
+interface PendingPairing {
+  code: string;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+let cachedAuth: AuthData | null = null;
+let pendingPairing: PendingPairing | null = null;
+
+function saveAuthData(data: AuthData): void {
+  cachedAuth = data;
+  try {
+    if (!existsSync(DATA_DIR)) {
+      mkdirSync(DATA_DIR, { recursive: true });
+    }
+    writeFileSync(AUTH_FILE, JSON.stringify(data, null, 2), { mode: 0o600 });
+    chmodSync(AUTH_FILE, 0o600);
+  } catch (err) {
+    console.error("[Auth] Failed to save auth data:", err);
+  }
+}
+
+// Load the auth data, generating a token on first use
+function loadAuthData(): AuthData {
+  if (cachedAuth) return cachedAuth;
+
+  try {
+    if (existsSync(AUTH_FILE)) {
+      const raw = JSON.parse(readFileSync(AUTH_FILE, "utf-8")) as Partial<AuthData>;
+      if (typeof raw.token === "string" && raw.token.length > 0) {
+        cachedAuth = { token: raw.token, pairedOrigins: raw.pairedOrigins ?? [] };
+        return cachedAuth;
+      }
+    }
+  } catch (err) {
+    console.error("[Auth] Failed to load auth data:", err);
+  }
+
+  console.log("[Auth] Generated a new pairing token");
+  const data: AuthData = { token: randomBytes(32).toString("hex"), pairedOrigins: [] };
+  saveAuthData(data);
+  return data;
+}
+
+export function getAuthToken(): string {
+  return loadAuthData().token;
+}
+
+// Token from the auth header, or the `token` query param (browsers can't set WebSocket headers)
+export function getRequestToken(req: IncomingMessage): string | undefined {
+  const header = req.headers[AUTH_HEADER];
+  if (typeof header === "string") return header;
+  return new URL(req.url || "/", "http://localhost").searchParams.get("token") ?? undefined;
+}
+
+export function isAuthorized(req: IncomingMessage): boolean {
+  const candidate = getRequestToken(req);
+  if (!candidate) return false;
+  const expected = Buffer.from(getAuthToken());
+  const actual = Buffer.from(candidate);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function isExtensionOrigin(origin: string | undefined): boolean {
+  return !!origin && /^chrome-extension:\/\/[a-p]{32}$/.test(origin);
+}
+
+// CORS is limited to extensions that completed pairing
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  return !!origin && loadAuthData().pairedOrigins.includes(origin);
+}
+
+// Start pairing: the code is only shown in the server terminal, so the user proves local access
+export function startPairing(): number {
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  pendingPairing = {
+    code,
+    expiresAt: Date.now() + PAIRING_CODE_TTL_MS,
+    attemptsLeft: PAIRING_MAX_ATTEMPTS,
+  };
+
+  console.log(`
+┌───────────────────────────────────────────┐
+│                                           │
+│   Extension pairing code: ${code}          │
+│   (valid for 5 minutes)                   │
+│                                           │
+└───────────────────────────────────────────┘
+`);
+  return PAIRING_CODE_TTL_MS;
+}
+
+// Finish pairing; returns the token, or an error message
+export function completePairing(code: unknown, origin: string): { token: string } | { error: string } {
+  if (!pendingPairing || pendingPairing.expiresAt < Date.now()) {
+    pendingPairing = null;
+    return { error: "No pairing in progress - start pairing again" };
+  }
+
+  if (typeof code !== "string" || code.trim() !== pendingPairing.code) {
+    pendingPairing.attemptsLeft--;
+    if (pendingPairing.attemptsLeft <= 0) {
+      pendingPairing = null;
+      return { error: "Too many wrong codes - start pairing again" };
+    }
+    return { error: "Wrong pairing code" };
+  }
+
+  pendingPairing = null;
+  const data = loadAuthData();
+  if (!data.pairedOrigins.includes(origin)) {
+    saveAuthData({ ...data, pairedOrigins: [...data.pairedOrigins, origin] });
+  }
+  console.log(`[Auth] Paired extension ${origin}`);
+  return { token: data.token };
+}
@@ -1,13 +1,14 @@
-import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, statSync } from "fs";
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
 import path from "path";
 import { homedir } from "os";
 import type { TokenBreakdown, DailyStats } from "./types.js";
 import { calculateCost } from "./price-resolver.js";
+import { eventStore, getDateKey, createEmptyDailyStats } from "./event-store.js";
+
+export { getDateKey };
 
 // Configuration
 const CLAUDE_PROJECTS_DIR = path.join(homedir(), ".claude", "projects");
-const DATA_DIR = path.join(homedir(), ".claude-blocker");
-const HISTORICAL_STATS_FILE = path.join(DATA_DIR, "historical-stats.json");
 
 // Backfill progress callback type
 export type BackfillProgressCallback = (progress: BackfillProgress) => void;
@@ -22,7 +23,7 @@ export interface BackfillProgress {
   error?: string;
 }
 
-// Historical stats by date
+// Historical stats by date (derived from the event store)
 export interface HistoricalStatsData {
   version: number;
   lastBackfill: string; // ISO timestamp
@@ -281,16 +282,6 @@ function parseTranscript(transcriptPath: string): TranscriptParseResult | null {
   };
 }
 
-/**
- * Get date key (YYYY-MM-DD) from a Date
- */
-export function getDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 /**
  * Find all transcript files in the Claude projects directory
  */
@@ -327,98 +318,17 @@ function findTranscriptFiles(): string[] {
 }
 
 /**
- * Load existing historical stats
+ * Load historical stats (a view over the event store)
  */
 export function loadHistoricalStats(): HistoricalStatsData {
-  try {
-    if (existsSync(HISTORICAL_STATS_FILE)) {
-      const raw = readFileSync(HISTORICAL_STATS_FILE, "utf-8");
-      return JSON.parse(raw) as HistoricalStatsData;
-    }
-  } catch (err) {
-    console.error("[Backfill] Error loading historical stats:", err);
-  }
-
   return {
-    version: 1,
-    lastBackfill: "",
-    dailyStats: {},
-    processedTranscripts: {},
+    version: 2,
+    lastBackfill: eventStore.getLastBackfill(),
+    dailyStats: eventStore.getDailyStats(),
+    processedTranscripts: eventStore.getProcessedTranscripts(),
   };
 }
 
-/**
- * Save historical stats
- */
-export function saveHistoricalStats(data: HistoricalStatsData): void {
-  try {
-    if (!existsSync(DATA_DIR)) {
-      mkdirSync(DATA_DIR, { recursive: true });
-    }
-    data.lastBackfill = new Date().toISOString();
-    writeFileSync(HISTORICAL_STATS_FILE, JSON.stringify(data, null, 2));
-  } catch (err) {
-    console.error("[Backfill] Error saving historical stats:", err);
-  }
-}
-
-/**
- * Merge token breakdown into daily stats
- */
-function mergeIntoDailyStats(
-  stats: HistoricalStatsData,
-  dateKey: string,
-  result: TranscriptParseResult
-): void {
-  const existing = stats.dailyStats[dateKey] || {
-    date: dateKey,
-    totalWorkingMs: 0,
-    totalWaitingMs: 0,
-    totalIdleMs: 0,
-    sessionsStarted: 0,
-    sessionsEnded: 0,
-    totalInputTokens: 0,
-    totalOutputTokens: 0,
-    totalCacheCreationTokens: 0,
-    totalCacheReadTokens: 0,
-    totalCostUsd: 0,
-    modelBreakdown: {},
-  };
-
-  existing.sessionsStarted++;
-  existing.sessionsEnded++;
-  existing.totalWorkingMs += result.totalWorkingMs;
-  existing.totalWaitingMs += result.totalWaitingMs;
-  existing.totalIdleMs += result.totalIdleMs;
-  existing.totalInputTokens += result.inputTokens;
-  existing.totalOutputTokens += result.outputTokens;
-  existing.totalCacheCreationTokens += result.cacheCreationTokens;
-  existing.totalCacheReadTokens += result.cacheReadTokens;
-  existing.totalCostUsd += result.costUsd;
-
-  // Merge model breakdown
-  if (result.modelBreakdown) {
-    if (!existing.modelBreakdown) {
-      existing.modelBreakdown = {};
-    }
-    for (const [model, tokens] of Object.entries(result.modelBreakdown)) {
-      const modelExisting = existing.modelBreakdown[model] || {
-        inputTokens: 0,
-        outputTokens: 0,
-        cacheCreationTokens: 0,
-        cacheReadTokens: 0,
-      };
-      modelExisting.inputTokens += tokens.inputTokens;
-      modelExisting.outputTokens += tokens.outputTokens;
-      modelExisting.cacheCreationTokens += tokens.cacheCreationTokens;
-      modelExisting.cacheReadTokens += tokens.cacheReadTokens;
-      existing.modelBreakdown[model] = modelExisting;
-    }
-  }
-
-  stats.dailyStats[dateKey] = existing;
-}
-
 /**
  * Run the backfill process asynchronously
  * @param onProgress Optional callback for progress updates
@@ -450,20 +360,10 @@ export async function runBackfill(
   if (transcripts.length === 0) {
     progress.status = "complete";
     onProgress?.(progress);
+    eventStore.recordBackfillComplete();
     return loadHistoricalStats();
   }
 
-  // Load existing stats
-  const stats = loadHistoricalStats();
-
-  // Version 2 adds time reconstruction — force re-process all transcripts
-  if (stats.version < 2) {
-    console.log("[Backfill] Upgrading to v2 (time reconstruction) — re-processing all transcripts");
-    stats.processedTranscripts = {};
-    stats.dailyStats = {};
-    stats.version = 2;
-  }
-
   progress.status = "processing";
 
   // Process in batches to avoid blocking
@@ -479,7 +379,7 @@ export async function runBackfill(
       progress.currentFile = path.basename(transcriptPath);
 
       // Skip if already processed
-      if (stats.processedTranscripts[transcriptPath]) {
+      if (eventStore.isTranscriptProcessed(transcriptPath)) {
         progress.skippedFiles++;
         onProgress?.(progress);
         continue;
@@ -497,11 +397,17 @@ export async function runBackfill(
         continue;
       }
 
+      // Outside the retention window - it would be pruned right away
+      if (!eventStore.isDateInRetention(dateKey)) {
+        progress.skippedFiles++;
+        continue;
+      }
+
       // Parse transcript
       const result = parseTranscript(transcriptPath);
       if (!result || result.totalTokens === 0) {
         // Mark as processed even if empty
-        stats.processedTranscripts[transcriptPath] = true;
+        eventStore.recordTranscriptProcessed(transcriptPath);
         continue;
       }
 
@@ -510,9 +416,18 @@ export async function runBackfill(
         dateKey = getDateKey(result.lastTimestamp);
       }
 
-      // Merge into daily stats
-      mergeIntoDailyStats(stats, dateKey, result);
-      stats.processedTranscripts[transcriptPath] = true;
+      // Record usage - the event store merges it into daily stats
+      eventStore.recordTranscriptProcessed(transcriptPath, dateKey, {
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+        cacheCreationTokens: result.cacheCreationTokens,
+        cacheReadTokens: result.cacheReadTokens,
+        costUsd: result.costUsd,
+        modelBreakdown: result.modelBreakdown,
+        totalWorkingMs: result.totalWorkingMs,
+        totalWaitingMs: result.totalWaitingMs,
+        totalIdleMs: result.totalIdleMs,
+      });
 
       progress.processedFiles++;
       newFilesProcessed++;
@@ -526,8 +441,7 @@ export async function runBackfill(
     }
   }
 
-  // Save results
-  saveHistoricalStats(stats);
+  eventStore.recordBackfillComplete();
 
   progress.status = "complete";
   onProgress?.(progress);
@@ -536,11 +450,11 @@ export async function runBackfill(
     `[Backfill] Complete: processed ${newFilesProcessed} new files, ${totalTokensFound} tokens, $${totalCostFound.toFixed(4)} total cost`
   );
 
-  return stats;
+  return loadHistoricalStats();
 }
 
 /**
- * Get historical stats (loads from file, runs backfill if needed)
+ * Get historical stats
  */
 export function getHistoricalStats(): HistoricalStatsData {
   return loadHistoricalStats();
@@ -550,44 +464,27 @@ export function getHistoricalStats(): HistoricalStatsData {
  * Get daily stats for a specific date
  */
 export function getDailyStats(dateKey: string): DailyStats | null {
-  const stats = loadHistoricalStats();
-  return stats.dailyStats[dateKey] || null;
+  return eventStore.getDailyStats()[dateKey] || null;
 }
 
 /**
  * Get daily stats for a range of dates
  */
 export function getDailyStatsRange(dateKeys: string[]): DailyStats[] {
-  const stats = loadHistoricalStats();
-  return dateKeys.map((key) => {
-    return (
-      stats.dailyStats[key] || {
-        date: key,
-        totalWorkingMs: 0,
-        totalWaitingMs: 0,
-        totalIdleMs: 0,
-        sessionsStarted: 0,
-        sessionsEnded: 0,
-        totalInputTokens: 0,
-        totalOutputTokens: 0,
-        totalCacheCreationTokens: 0,
-        totalCacheReadTokens: 0,
-        totalCostUsd: 0,
-      }
-    );
-  });
+  const dailyStats = eventStore.getDailyStats();
+  return dateKeys.map((key) => dailyStats[key] || createEmptyDailyStats(key));
 }
 
 /**
  * Check if backfill is needed (hasn't run today)
  */
 export function needsBackfill(): boolean {
-  const stats = loadHistoricalStats();
-  if (!stats.lastBackfill) {
+  const lastBackfillTs = eventStore.getLastBackfill();
+  if (!lastBackfillTs) {
     return true;
   }
 
-  const lastBackfill = new Date(stats.lastBackfill);
+  const lastBackfill = new Date(lastBackfillTs);
   const today = new Date();
 
   // Run backfill if it hasn't been run today
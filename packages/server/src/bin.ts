@@ -2,8 +2,17 @@
 
 import { createInterface } from "readline";
 import { startServer } from "./server.js";
-import { setupHooks, removeHooks, areHooksConfigured } from "./setup.js";
-import { DEFAULT_PORT } from "@claude-blocker-advanced/shared";
+import { setupHooks, removeHooks, areHooksConfigured, doHooksTargetServer } from "./setup.js";
+import { loadServerConfig, saveServerConfig, parseRetentionDays, parsePort, parseHost, getServerUrl } from "./config.js";
+import { AUTH_HEADER, getAuthToken } from "./auth.js";
+import {
+  DEFAULT_PORT,
+  DEFAULT_HOST,
+  DEFAULT_RETENTION_DAYS,
+  TYPING_TTL_MS,
+  formatDailyReportLines,
+  type DailyReport,
+} from "@claude-blocker-advanced/shared";
 
 const args = process.argv.slice(2);
 
@@ -30,23 +39,118 @@ Usage:
   npx claude-blocker-advanced [options]
 
 Options:
-  --setup     Configure Claude Code hooks
+  --setup     Configure Claude Code hooks (for the saved or given --port/--host)
   --remove    Remove Claude Code hooks
-  --port      Server port (default: ${DEFAULT_PORT})
+  --port      Server port (default: ${DEFAULT_PORT}, saved for later runs)
+  --host      Server host (default: ${DEFAULT_HOST}, saved for later runs)
+  --retention History retention in days, or "forever" (default: ${DEFAULT_RETENTION_DAYS}, saved for later runs)
+  --typing    Tell the running server you're typing a prompt (optional seconds, default: ${TYPING_TTL_MS / 1000})
+  --report    Print the running server's end-of-day report (optional YYYY-MM-DD, default: today; --json for raw)
   --help      Show this help message
 
 Examples:
   npx claude-blocker-advanced            # Start the server (prompts for setup on first run)
-  npx claude-blocker-advanced --port 9000
+  npx claude-blocker-advanced --setup --port 9000   # Hooks and server both use port 9000
+  npx claude-blocker-advanced --retention 30
+  npx claude-blocker-advanced --typing 30   # Bind to a shell key or editor event
+  npx claude-blocker-advanced --report 2026-01-31
 `);
 }
 
+// Post a typing signal to the running server, which keeps sites unblocked for a while
+async function sendTypingSignal(seconds: string | undefined): Promise<void> {
+  const ttlMs = seconds && !seconds.startsWith("--") ? Number(seconds) * 1000 : TYPING_TTL_MS;
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    console.error("Invalid typing duration (expected a number of seconds)");
+    process.exit(1);
+  }
+
+  try {
+    const response = await fetch(`${getServerUrl()}/typing`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [AUTH_HEADER]: getAuthToken() },
+      body: JSON.stringify({ ttlMs }),
+    });
+    if (!response.ok) {
+      const { error } = (await response.json()) as { error?: string };
+      console.error(`Typing signal rejected: ${error ?? response.statusText}`);
+      process.exit(1);
+    }
+  } catch {
+    console.error(`Server not reachable at ${getServerUrl()}`);
+    process.exit(1);
+  }
+}
+
+// Fetch a day's report from the running server and print it
+async function printReport(date: string | undefined, json: boolean): Promise<void> {
+  const now = new Date();
+  const dateKey = date && !date.startsWith("--")
+    ? date
+    : `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+
+  let body: { report?: DailyReport; error?: string };
+  try {
+    const response = await fetch(`${getServerUrl()}/report/${encodeURIComponent(dateKey)}`);
+    body = (await response.json()) as typeof body;
+  } catch {
+    console.error(`Server not reachable at ${getServerUrl()}`);
+    process.exit(1);
+  }
+  if (!body.report) {
+    console.error(`Report failed: ${body.error ?? "unknown error"}`);
+    process.exit(1);
+  }
+
+  if (json) {
+    console.log(JSON.stringify(body.report, null, 2));
+    return;
+  }
+  console.log(`Claude Code on ${body.report.date}\n`);
+  for (const line of formatDailyReportLines(body.report)) {
+    console.log(`  ${line}`);
+  }
+}
+
 async function main(): Promise<void> {
   if (args.includes("--help") || args.includes("-h")) {
     printHelp();
     process.exit(0);
   }
 
+  // Parse port and host (persisted to ~/.claude-blocker/config.json, which --setup reads)
+  const portIndex = args.indexOf("--port");
+  if (portIndex !== -1) {
+    const port = parsePort(args[portIndex + 1]);
+    if (port === undefined) {
+      console.error("Invalid port number");
+      process.exit(1);
+    }
+    saveServerConfig({ ...loadServerConfig(), port });
+  }
+
+  const hostIndex = args.indexOf("--host");
+  if (hostIndex !== -1) {
+    const host = parseHost(args[hostIndex + 1]);
+    if (host === undefined) {
+      console.error("Invalid host (expected a hostname or IP address)");
+      process.exit(1);
+    }
+    saveServerConfig({ ...loadServerConfig(), host });
+  }
+
+  const typingIndex = args.indexOf("--typing");
+  if (typingIndex !== -1) {
+    await sendTypingSignal(args[typingIndex + 1]);
+    process.exit(0);
+  }
+
+  const reportIndex = args.indexOf("--report");
+  if (reportIndex !== -1) {
+    await printReport(args[reportIndex + 1], args.includes("--json"));
+    process.exit(0);
+  }
+
   if (args.includes("--setup")) {
     setupHooks();
     process.exit(0);
@@ -57,17 +161,15 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Parse port
-  let port = DEFAULT_PORT;
-  const portIndex = args.indexOf("--port");
-  if (portIndex !== -1 && args[portIndex + 1]) {
-    const parsed = parseInt(args[portIndex + 1], 10);
-    if (!isNaN(parsed) && parsed > 0 && parsed < 65536) {
-      port = parsed;
-    } else {
-      console.error("Invalid port number");
+  // Parse retention (persisted to ~/.claude-blocker/config.json)
+  const retentionIndex = args.indexOf("--retention");
+  if (retentionIndex !== -1) {
+    const retentionDays = parseRetentionDays(args[retentionIndex + 1]);
+    if (retentionDays === undefined) {
+      console.error('Invalid retention (expected a number of days or "forever")');
       process.exit(1);
     }
+    saveServerConfig({ ...loadServerConfig(), retentionDays });
   }
 
   // Check if hooks are configured, prompt for setup if not
@@ -82,9 +184,12 @@ async function main(): Promise<void> {
     } else {
       console.log("\nSkipping setup. You can run 'npx claude-blocker-advanced --setup' later.\n");
     }
+  } else if (!doHooksTargetServer()) {
+    console.warn(`Warning: Claude Code hooks don't post to ${getServerUrl()} with the current pairing token.`);
+    console.warn("Run 'npx claude-blocker-advanced --setup' to update them.\n");
   }
 
-  startServer(port);
+  startServer();
 }
 
 main();
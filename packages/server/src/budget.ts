@@ -0,0 +1,108 @@
+import type {
+  BudgetConfig,
+  BudgetLimits,
+  BudgetPeriod,
+  BudgetPeriodStatus,
+  BudgetStatus,
+  DailyStats,
+  HistoricalSession,
+  Session,
+} from "./types.js";
+import { getDateKey } from "./event-store.js";
+
+const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+// First day (YYYY-MM-DD) of the period containing `now`; weeks start on Monday
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): string {
+  const start = new Date(now);
+  if (period === "weekly") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (period === "monthly") {
+    start.setDate(1);
+  }
+  return getDateKey(start);
+}
+
+function buildPeriodStatus(period: BudgetPeriod, periodStart: string, limitUsd: number, spentUsd: number): BudgetPeriodStatus {
+  return {
+    period,
+    periodStart,
+    limitUsd,
+    spentUsd,
+    remainingUsd: Math.max(0, limitUsd - spentUsd),
+    percentUsed: (spentUsd / limitUsd) * 100,
+  };
+}
+
+function buildPeriods(
+  limits: Partial<BudgetLimits>,
+  now: Date,
+  getSpent: (periodStart: string) => number
+): BudgetPeriodStatus[] {
+  const periods: BudgetPeriodStatus[] = [];
+  for (const period of BUDGET_PERIODS) {
+    const limit = limits[period];
+    if (!limit) continue;
+    const periodStart = getPeriodStart(period, now);
+    periods.push(buildPeriodStatus(period, periodStart, limit, getSpent(periodStart)));
+  }
+  return periods;
+}
+
+// Compute spend against the configured limits.
+// Global spend comes from daily stats (ended sessions + backfilled transcripts) plus live sessions;
+// project spend is attributed per session by the day it last ended (or today, while live).
+export function computeBudgetStatus(
+  config: BudgetConfig,
+  dailyStats: Record<string, DailyStats>,
+  history: HistoricalSession[],
+  liveSessions: Session[],
+  now: Date = new Date()
+): BudgetStatus {
+  const historyById = new Map(history.map((session) => [session.id, session]));
+
+  // Live session cost net of what a previous run already recorded in daily stats
+  const liveCostSince = (periodStart: string, projectName?: string): number => {
+    let total = 0;
+    for (const session of liveSessions) {
+      if (projectName !== undefined && session.projectName !== projectName) continue;
+      const previous = historyById.get(session.id);
+      const alreadyCounted =
+        previous && getDateKey(new Date(previous.endTime)) >= periodStart ? previous.costUsd : 0;
+      total += Math.max(0, session.costUsd - alreadyCounted);
+    }
+    return total;
+  };
+
+  const global = buildPeriods(config.limits, now, (periodStart) => {
+    let spent = 0;
+    for (const [dateKey, stats] of Object.entries(dailyStats)) {
+      if (dateKey >= periodStart) spent += stats.totalCostUsd;
+    }
+    return spent + liveCostSince(periodStart);
+  });
+
+  const projects = Object.entries(config.projectLimits).map(([projectName, limits]) => ({
+    projectName,
+    periods: buildPeriods(limits, now, (periodStart) => {
+      let spent = 0;
+      for (const session of history) {
+        if (session.projectName !== projectName) continue;
+        if (getDateKey(new Date(session.endTime)) >= periodStart) spent += session.costUsd;
+      }
+      return spent + liveCostSince(periodStart, projectName);
+    }),
+  }));
+
+  const exhausted = [...global, ...projects.flatMap((project) => project.periods)].some(
+    (status) => status.spentUsd >= status.limitUsd
+  );
+
+  return {
+    global,
+    projects: projects.filter((project) => project.periods.length > 0),
+    thresholds: config.thresholds,
+    exhausted,
+    blockWhenExhausted: config.blockWhenExhausted,
+  };
+}
@@ -0,0 +1,138 @@
+import path from "path";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import type { ServerConfig, RetentionDays, BudgetConfig, BudgetLimits, BudgetPeriod } from "./types.js";
+import { DEFAULT_PORT, DEFAULT_HOST, DEFAULT_RETENTION_DAYS, DEFAULT_BUDGET_CONFIG } from "./types.js";
+
+const DATA_DIR = path.join(homedir(), ".claude-blocker");
+const CONFIG_FILE = path.join(DATA_DIR, "config.json");
+
+const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  host: DEFAULT_HOST,
+  port: DEFAULT_PORT,
+  retentionDays: DEFAULT_RETENTION_DAYS,
+  budget: DEFAULT_BUDGET_CONFIG,
+};
+
+const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+// Read once, then served from memory (the state message needs it on every broadcast)
+let cachedConfig: ServerConfig | null = null;
+
+// Load server config, falling back to defaults for missing fields
+export function loadServerConfig(): ServerConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let raw: Partial<ServerConfig> = {};
+  try {
+    if (existsSync(CONFIG_FILE)) {
+      raw = JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as Partial<ServerConfig>;
+    }
+  } catch (err) {
+    console.error("[Config] Failed to load config:", err);
+  }
+
+  cachedConfig = {
+    ...DEFAULT_SERVER_CONFIG,
+    ...raw,
+    budget: {
+      ...DEFAULT_BUDGET_CONFIG,
+      ...raw.budget,
+      limits: { ...DEFAULT_BUDGET_CONFIG.limits, ...raw.budget?.limits },
+    },
+  };
+  return cachedConfig;
+}
+
+export function saveServerConfig(config: ServerConfig): void {
+  cachedConfig = config;
+  try {
+    if (!existsSync(DATA_DIR)) {
+      mkdirSync(DATA_DIR, { recursive: true });
+    }
+    writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  } catch (err) {
+    console.error("[Config] Failed to save config:", err);
+  }
+}
+
+// Base URL the hooks and statusline script post to
+export function getServerUrl(config: ServerConfig = loadServerConfig()): string {
+  return `http://${config.host}:${config.port}`;
+}
+
+// Parse a port from the CLI; returns undefined when invalid
+export function parsePort(value: unknown): number | undefined {
+  const port = typeof value === "string" ? Number(value) : value;
+  if (typeof port === "number" && Number.isInteger(port) && port > 0 && port < 65536) {
+    return port;
+  }
+  return undefined;
+}
+
+// Parse a hostname or IP from the CLI (no scheme, port or path); returns undefined when invalid
+export function parseHost(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const host = value.trim();
+  return /^[A-Za-z0-9.-]+$/.test(host) ? host : undefined;
+}
+
+// Parse a retention value from the CLI or API: positive whole days, or "forever"/null
+export function parseRetentionDays(value: unknown): RetentionDays | undefined {
+  if (value === null || value === "forever") return null;
+  const days = typeof value === "string" ? Number(value) : value;
+  if (typeof days === "number" && Number.isInteger(days) && days > 0) {
+    return days;
+  }
+  return undefined;
+}
+
+function isValidLimit(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isFinite(value) && value > 0);
+}
+
+// Validate a budget config from the API; returns an error message on bad input
+export function parseBudgetConfig(value: unknown): BudgetConfig | string {
+  if (!value || typeof value !== "object") return "budget must be an object";
+  const input = value as Partial<BudgetConfig>;
+
+  const limits: BudgetLimits = { ...DEFAULT_BUDGET_CONFIG.limits };
+  for (const period of BUDGET_PERIODS) {
+    const limit = input.limits?.[period];
+    if (limit === undefined) continue;
+    if (!isValidLimit(limit)) return `budget.limits.${period} must be a positive number or null`;
+    limits[period] = limit;
+  }
+
+  const projectLimits: Record<string, Partial<BudgetLimits>> = {};
+  for (const [projectName, overrides] of Object.entries(input.projectLimits ?? {})) {
+    if (!projectName || !overrides || typeof overrides !== "object") {
+      return "budget.projectLimits must map project names to limits";
+    }
+    const parsed: Partial<BudgetLimits> = {};
+    for (const period of BUDGET_PERIODS) {
+      const limit = overrides[period];
+      if (limit === undefined || limit === null) continue;
+      if (!isValidLimit(limit)) {
+        return `budget.projectLimits["${projectName}"].${period} must be a positive number`;
+      }
+      parsed[period] = limit;
+    }
+    if (Object.keys(parsed).length > 0) projectLimits[projectName] = parsed;
+  }
+
+  const thresholds = input.thresholds ?? DEFAULT_BUDGET_CONFIG.thresholds;
+  if (
+    !Array.isArray(thresholds) ||
+    !thresholds.every((t) => typeof t === "number" && Number.isFinite(t) && t > 0)
+  ) {
+    return "budget.thresholds must be an array of positive percentages";
+  }
+
+  return {
+    limits,
+    projectLimits,
+    thresholds: [...new Set(thresholds)].sort((a, b) => a - b),
+    blockWhenExhausted: input.blockWhenExhausted === true,
+  };
+}
@@ -0,0 +1,510 @@
+import path from "path";
+import {
+  readFileSync,
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "fs";
+import { homedir } from "os";
+import type {
+  HookPayload,
+  DailyStats,
+  HistoricalSession,
+  TokenBreakdown,
+  RetentionDays,
+} from "./types.js";
+
+// Storage layout: one JSONL segment per local day, e.g. ~/.claude-blocker/events/2025-01-15.jsonl
+const DATA_DIR = path.join(homedir(), ".claude-blocker");
+const EVENTS_DIR = path.join(DATA_DIR, "events");
+// Raw hook payloads, same layout. History and stats come from the session events that state.ts
+// records, so startup never reads these - the busiest log stays out of replay
+const HOOKS_DIR = path.join(DATA_DIR, "hooks");
+// Legacy files imported once by the migration
+const LEGACY_SESSIONS_FILE = path.join(DATA_DIR, "sessions.json");
+const LEGACY_STATS_FILE = path.join(DATA_DIR, "historical-stats.json");
+
+// Usage extracted from a transcript during backfill
+export interface TranscriptUsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  modelBreakdown?: Record<string, TokenBreakdown>;
+  totalWorkingMs: number;
+  totalWaitingMs: number;
+  totalIdleMs: number;
+}
+
+// Every line in a hook segment
+export interface HookRecord {
+  ts: string;
+  payload: HookPayload;
+}
+
+// Every line in an event segment is one of these
+export type StoreEvent =
+  | { type: "session_started"; ts: string; sessionId: string }
+  | { type: "session_ended"; ts: string; session: HistoricalSession; transcriptPath?: string }
+  | { type: "session_imported"; ts: string; session: HistoricalSession }
+  | {
+      type: "transcript_processed";
+      ts: string;
+      transcriptPath: string;
+      dateKey?: string;
+      usage?: TranscriptUsageSummary;
+    }
+  | { type: "daily_stats_imported"; ts: string; stats: DailyStats }
+  | { type: "backfill_complete"; ts: string };
+
+// Get date key (YYYY-MM-DD, local time) from a Date
+export function getDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function createEmptyDailyStats(dateKey: string): DailyStats {
+  return {
+    date: dateKey,
+    totalWorkingMs: 0,
+    totalWaitingMs: 0,
+    totalIdleMs: 0,
+    sessionsStarted: 0,
+    sessionsEnded: 0,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalCacheCreationTokens: 0,
+    totalCacheReadTokens: 0,
+    totalCostUsd: 0,
+    modelBreakdown: {},
+  };
+}
+
+function mergeModelBreakdown(
+  target: DailyStats,
+  breakdown: Record<string, TokenBreakdown> | undefined
+): void {
+  if (!breakdown) return;
+  if (!target.modelBreakdown) target.modelBreakdown = {};
+  for (const [model, tokens] of Object.entries(breakdown)) {
+    const m = target.modelBreakdown[model] || {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+    };
+    m.inputTokens += tokens.inputTokens;
+    m.outputTokens += tokens.outputTokens;
+    m.cacheCreationTokens += tokens.cacheCreationTokens;
+    m.cacheReadTokens += tokens.cacheReadTokens;
+    target.modelBreakdown[model] = m;
+  }
+}
+
+// tool_input can hold entire file contents (Write/Edit) - keep only the fields we display
+function compactHookPayload(payload: HookPayload): HookPayload {
+  if (!payload.tool_input) return payload;
+  const input: Record<string, unknown> = {};
+  for (const key of ["file_path", "command", "pattern", "description"]) {
+    if (typeof payload.tool_input[key] === "string") input[key] = payload.tool_input[key];
+  }
+  return { ...payload, tool_input: input };
+}
+
+function segmentPath(dir: string, dateKey: string): string {
+  return path.join(dir, `${dateKey}.jsonl`);
+}
+
+// Older versions logged raw hooks as events; replay skips them without parsing
+const LEGACY_HOOK_LINE_PREFIX = '{"type":"hook",';
+
+function listSegments(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file))
+    .sort();
+}
+
+// Read the legacy JSON files and turn them into events (oldest first)
+function buildMigrationEvents(): StoreEvent[] {
+  const events: StoreEvent[] = [];
+
+  try {
+    if (existsSync(LEGACY_STATS_FILE)) {
+      const legacy = JSON.parse(readFileSync(LEGACY_STATS_FILE, "utf-8")) as {
+        version?: number;
+        lastBackfill?: string;
+        dailyStats?: Record<string, DailyStats>;
+        processedTranscripts?: Record<string, boolean>;
+      };
+      // v1 stats lack time reconstruction - leave them out so backfill rebuilds them
+      if ((legacy.version ?? 1) >= 2) {
+        for (const stats of Object.values(legacy.dailyStats ?? {})) {
+          events.push({
+            type: "daily_stats_imported",
+            ts: new Date(`${stats.date}T00:00:00`).toISOString(),
+            stats,
+          });
+        }
+        const now = new Date().toISOString();
+        for (const [transcriptPath, processed] of Object.entries(legacy.processedTranscripts ?? {})) {
+          if (processed) events.push({ type: "transcript_processed", ts: now, transcriptPath });
+        }
+        if (legacy.lastBackfill) {
+          events.push({ type: "backfill_complete", ts: legacy.lastBackfill });
+        }
+      }
+    }
+  } catch (err) {
+    console.error("[EventStore] Failed to read legacy historical stats:", err);
+  }
+
+  try {
+    if (existsSync(LEGACY_SESSIONS_FILE)) {
+      const legacy = JSON.parse(readFileSync(LEGACY_SESSIONS_FILE, "utf-8")) as {
+        history?: HistoricalSession[];
+      };
+      // History is stored newest first; replay it oldest first
+      const history = [...(legacy.history ?? [])].reverse();
+      for (const session of history) {
+        events.push({ type: "session_imported", ts: session.endTime, session });
+      }
+    }
+  } catch (err) {
+    console.error("[EventStore] Failed to read legacy sessions:", err);
+  }
+
+  return events;
+}
+
+class EventStore {
+  // Derived views, rebuilt by replaying segments on startup
+  private history: HistoricalSession[] = [];
+  private dailyStats: Record<string, DailyStats> = {};
+  private processedTranscripts: Record<string, boolean> = {};
+  private lastBackfill = "";
+  // Retention window; null keeps everything (set by the server on startup)
+  private retentionDays: RetentionDays = null;
+  private lastPruneDateKey = "";
+
+  constructor() {
+    if (!existsSync(EVENTS_DIR)) {
+      this.migrateLegacyFiles();
+    }
+    this.replay();
+  }
+
+  // One-time import of sessions.json / historical-stats.json into the event log
+  private migrateLegacyFiles(): void {
+    const events = buildMigrationEvents();
+    // Write into a temp dir and rename it into place so a crash mid-migration just retries
+    const tmpDir = `${EVENTS_DIR}.tmp`;
+    try {
+      rmSync(tmpDir, { recursive: true, force: true });
+      mkdirSync(tmpDir, { recursive: true });
+
+      const linesBySegment = new Map<string, string[]>();
+      for (const event of events) {
+        const dateKey = getDateKey(new Date(event.ts));
+        const lines = linesBySegment.get(dateKey) ?? [];
+        lines.push(JSON.stringify(event));
+        linesBySegment.set(dateKey, lines);
+      }
+      for (const [dateKey, lines] of linesBySegment) {
+        appendFileSync(segmentPath(tmpDir, dateKey), lines.join("\n") + "\n");
+      }
+
+      renameSync(tmpDir, EVENTS_DIR);
+    } catch (err) {
+      console.error("[EventStore] Migration failed:", err);
+      return;
+    }
+
+    // Keep the old files around as a backup, out of the way of future migrations
+    for (const file of [LEGACY_SESSIONS_FILE, LEGACY_STATS_FILE]) {
+      if (existsSync(file)) {
+        try {
+          renameSync(file, `${file}.migrated`);
+        } catch (err) {
+          console.error(`[EventStore] Failed to rename ${file}:`, err);
+        }
+      }
+    }
+
+    if (events.length > 0) {
+      console.log(`[EventStore] Migrated ${events.length} events from legacy JSON files`);
+    }
+  }
+
+  private replay(): void {
+    let count = 0;
+    for (const file of listSegments(EVENTS_DIR)) {
+      let content: string;
+      try {
+        content = readFileSync(path.join(EVENTS_DIR, file), "utf-8");
+      } catch (err) {
+        console.error(`[EventStore] Failed to read segment ${file}:`, err);
+        continue;
+      }
+
+      for (const line of content.split("\n")) {
+        if (!line.trim() || line.startsWith(LEGACY_HOOK_LINE_PREFIX)) continue;
+        try {
+          this.applyEvent(JSON.parse(line) as StoreEvent);
+          count++;
+        } catch {
+          // Skip torn or invalid lines (e.g. a crash mid-append)
+        }
+      }
+    }
+    console.log(`[EventStore] Replayed ${count} events (${this.history.length} historical sessions)`);
+  }
+
+  // Fold a single event into the derived views
+  private applyEvent(event: StoreEvent): void {
+    switch (event.type) {
+      case "session_started": {
+        this.getOrCreateDailyStats(getDateKey(new Date(event.ts))).sessionsStarted++;
+        break;
+      }
+
+      case "session_imported": {
+        // Already counted in the imported daily stats - history only
+        this.upsertHistory(event.session);
+        break;
+      }
+
+      case "session_ended": {
+        const { session } = event;
+        this.upsertHistory(session);
+
+        const existing = this.getOrCreateDailyStats(getDateKey(new Date(session.endTime)));
+        existing.sessionsEnded++;
+        existing.totalWorkingMs += session.totalWorkingMs ?? 0;
+        existing.totalWaitingMs += session.totalWaitingMs ?? 0;
+        existing.totalIdleMs += session.totalIdleMs ?? 0;
+        existing.totalInputTokens += session.inputTokens;
+        existing.totalOutputTokens += session.outputTokens;
+        existing.totalCacheCreationTokens += session.cacheCreationTokens;
+        existing.totalCacheReadTokens += session.cacheReadTokens;
+        existing.totalCostUsd += session.costUsd;
+        mergeModelBreakdown(existing, session.modelBreakdown);
+
+        // Mark transcript as processed to avoid double-counting in backfill
+        if (event.transcriptPath) {
+          this.processedTranscripts[event.transcriptPath] = true;
+        }
+        break;
+      }
+
+      case "transcript_processed": {
+        this.processedTranscripts[event.transcriptPath] = true;
+        if (!event.dateKey || !event.usage) break;
+
+        const { usage } = event;
+        const existing = this.getOrCreateDailyStats(event.dateKey);
+        existing.sessionsStarted++;
+        existing.sessionsEnded++;
+        existing.totalWorkingMs += usage.totalWorkingMs;
+        existing.totalWaitingMs += usage.totalWaitingMs;
+        existing.totalIdleMs += usage.totalIdleMs;
+        existing.totalInputTokens += usage.inputTokens;
+        existing.totalOutputTokens += usage.outputTokens;
+        existing.totalCacheCreationTokens += usage.cacheCreationTokens;
+        existing.totalCacheReadTokens += usage.cacheReadTokens;
+        existing.totalCostUsd += usage.costUsd;
+        mergeModelBreakdown(existing, usage.modelBreakdown);
+        break;
+      }
+
+      case "daily_stats_imported": {
+        this.dailyStats[event.stats.date] = { ...event.stats };
+        break;
+      }
+
+      case "backfill_complete": {
+        this.lastBackfill = event.ts;
+        break;
+      }
+    }
+  }
+
+  // Resumed sessions replace their earlier entry and move to the front
+  private upsertHistory(session: HistoricalSession): void {
+    const existingIndex = this.history.findIndex((h) => h.id === session.id);
+    if (existingIndex !== -1) {
+      this.history.splice(existingIndex, 1);
+    }
+    this.history.unshift(session);
+  }
+
+  private getOrCreateDailyStats(dateKey: string): DailyStats {
+    if (!this.dailyStats[dateKey]) {
+      this.dailyStats[dateKey] = createEmptyDailyStats(dateKey);
+    }
+    return this.dailyStats[dateKey];
+  }
+
+  // Append synchronously so an event is on disk before anything reacts to it
+  private append(event: StoreEvent): void {
+    this.appendLine(EVENTS_DIR, event.ts, event, `${event.type} event`);
+    this.applyEvent(event);
+  }
+
+  private appendLine(dir: string, ts: string, record: StoreEvent | HookRecord, label: string): void {
+    // Prune once per day, on the first event after midnight
+    if (getDateKey(new Date()) !== this.lastPruneDateKey) {
+      this.prune();
+    }
+
+    try {
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      appendFileSync(segmentPath(dir, getDateKey(new Date(ts))), JSON.stringify(record) + "\n");
+    } catch (err) {
+      console.error(`[EventStore] Failed to append ${label}:`, err);
+    }
+  }
+
+  // Oldest date key (inclusive) kept under the current policy, or null when keeping everything
+  private getCutoffDateKey(): string | null {
+    if (this.retentionDays === null) return null;
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - this.retentionDays + 1);
+    return getDateKey(cutoff);
+  }
+
+  // Drop segments and derived data outside the retention window
+  private prune(): void {
+    this.lastPruneDateKey = getDateKey(new Date());
+    const cutoffKey = this.getCutoffDateKey();
+    if (!cutoffKey) return;
+
+    let removedSegments = 0;
+    for (const dir of [EVENTS_DIR, HOOKS_DIR]) {
+      for (const file of listSegments(dir)) {
+        if (file.slice(0, 10) >= cutoffKey) continue;
+        try {
+          rmSync(path.join(dir, file));
+          removedSegments++;
+        } catch (err) {
+          console.error(`[EventStore] Failed to remove segment ${file}:`, err);
+        }
+      }
+    }
+
+    // Later segments can still reference older dates (e.g. backfilled transcripts)
+    const historyBefore = this.history.length;
+    this.history = this.history.filter((h) => getDateKey(new Date(h.endTime)) >= cutoffKey);
+    for (const dateKey of Object.keys(this.dailyStats)) {
+      if (dateKey < cutoffKey) delete this.dailyStats[dateKey];
+    }
+
+    // Compact processed transcripts: forget ones that are gone or outside the window
+    // (backfill skips those, so they won't be re-processed)
+    let removedTranscripts = 0;
+    for (const transcriptPath of Object.keys(this.processedTranscripts)) {
+      if (!this.isTranscriptInRetention(transcriptPath)) {
+        delete this.processedTranscripts[transcriptPath];
+        removedTranscripts++;
+      }
+    }
+
+    const removedSessions = historyBefore - this.history.length;
+    if (removedSegments > 0 || removedSessions > 0 || removedTranscripts > 0) {
+      console.log(
+        `[EventStore] Pruned to ${this.retentionDays} days: ${removedSegments} segments, ${removedSessions} sessions, ${removedTranscripts} transcript entries`
+      );
+    }
+  }
+
+  setRetention(retentionDays: RetentionDays): void {
+    this.retentionDays = retentionDays;
+    this.prune();
+  }
+
+  getRetention(): RetentionDays {
+    return this.retentionDays;
+  }
+
+  isDateInRetention(dateKey: string): boolean {
+    const cutoffKey = this.getCutoffDateKey();
+    return cutoffKey === null || dateKey >= cutoffKey;
+  }
+
+  // Transcript still exists and was last modified inside the retention window
+  isTranscriptInRetention(transcriptPath: string): boolean {
+    try {
+      return this.isDateInRetention(getDateKey(statSync(transcriptPath).mtime));
+    } catch {
+      return false;
+    }
+  }
+
+  // Audit log only: nothing is derived from raw hooks
+  recordHook(payload: HookPayload): void {
+    const ts = new Date().toISOString();
+    this.appendLine(HOOKS_DIR, ts, { ts, payload: compactHookPayload(payload) }, "hook");
+  }
+
+  recordSessionStarted(sessionId: string, at: Date = new Date()): void {
+    this.append({ type: "session_started", ts: at.toISOString(), sessionId });
+  }
+
+  recordSessionEnded(session: HistoricalSession, transcriptPath?: string): void {
+    this.append({ type: "session_ended", ts: session.endTime, session, transcriptPath });
+  }
+
+  recordTranscriptProcessed(
+    transcriptPath: string,
+    dateKey?: string,
+    usage?: TranscriptUsageSummary
+  ): void {
+    this.append({
+      type: "transcript_processed",
+      ts: new Date().toISOString(),
+      transcriptPath,
+      dateKey,
+      usage,
+    });
+  }
+
+  recordBackfillComplete(): void {
+    this.append({ type: "backfill_complete", ts: new Date().toISOString() });
+  }
+
+  // Most recent first
+  getHistory(): HistoricalSession[] {
+    return this.history;
+  }
+
+  findHistoricalSession(sessionId: string): HistoricalSession | undefined {
+    return this.history.find((h) => h.id === sessionId);
+  }
+
+  getDailyStats(): Record<string, DailyStats> {
+    return this.dailyStats;
+  }
+
+  getProcessedTranscripts(): Record<string, boolean> {
+    return this.processedTranscripts;
+  }
+
+  isTranscriptProcessed(transcriptPath: string): boolean {
+    return this.processedTranscripts[transcriptPath] === true;
+  }
+
+  getLastBackfill(): string {
+    return this.lastBackfill;
+  }
+}
+
+export const eventStore = new EventStore();
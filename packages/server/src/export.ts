@@ -0,0 +1,260 @@
+import type { DailyStats, HistoricalSession } from "./types.js";
+import { calculateCost } from "./price-resolver.js";
+import { getDateKey, createEmptyDailyStats } from "./event-store.js";
+
+export type ExportFormat = "csv" | "json" | "ndjson";
+export type ExportKind = "sessions" | "daily" | "models";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "ndjson"];
+export const EXPORT_KINDS: ExportKind[] = ["sessions", "daily", "models"];
+
+// Default range when `from` is omitted
+const DEFAULT_EXPORT_DAYS = 30;
+
+// Longest range one export may cover, so a request can't make the server build millions of rows
+export const MAX_EXPORT_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExportRow = Record<string, string | number | null>;
+
+export interface ExportRequest {
+  kind: ExportKind;
+  format: ExportFormat;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ExportResult {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+// Column order for each kind (CSV header, and key order for JSON rows)
+const COLUMNS: Record<ExportKind, string[]> = {
+  sessions: [
+    "id",
+    "projectName",
+    "initialCwd",
+    "cwd",
+    "startTime",
+    "endTime",
+    "totalDurationMs",
+    "totalWorkingMs",
+    "totalWaitingMs",
+    "totalIdleMs",
+    "toolCount",
+    "lastTool",
+    "model",
+    "inputTokens",
+    "outputTokens",
+    "cacheCreationTokens",
+    "cacheReadTokens",
+    "totalTokens",
+    "costUsd",
+  ],
+  daily: [
+    "date",
+    "sessionsStarted",
+    "sessionsEnded",
+    "totalWorkingMs",
+    "totalWaitingMs",
+    "totalIdleMs",
+    "totalInputTokens",
+    "totalOutputTokens",
+    "totalCacheCreationTokens",
+    "totalCacheReadTokens",
+    "totalCostUsd",
+  ],
+  models: [
+    "date",
+    "model",
+    "inputTokens",
+    "outputTokens",
+    "cacheCreationTokens",
+    "cacheReadTokens",
+    "costUsd",
+  ],
+};
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate and fill in defaults for export query params; returns an error message on bad input
+export function parseExportRequest(params: URLSearchParams): ExportRequest | string {
+  const kind = (params.get("kind") || "daily") as ExportKind;
+  if (!EXPORT_KINDS.includes(kind)) {
+    return `Invalid kind (expected ${EXPORT_KINDS.join(", ")})`;
+  }
+
+  const format = (params.get("format") || "json") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return `Invalid format (expected ${EXPORT_FORMATS.join(", ")})`;
+  }
+
+  const to = params.get("to") || getDateKey(new Date());
+  let from = params.get("from");
+  if (!from) {
+    const start = new Date(`${to}T00:00:00`);
+    start.setDate(start.getDate() - DEFAULT_EXPORT_DAYS + 1);
+    from = getDateKey(start);
+  }
+
+  if (!DATE_KEY_PATTERN.test(from) || !DATE_KEY_PATTERN.test(to)) {
+    return "Invalid date format (expected YYYY-MM-DD)";
+  }
+  const fromTime = new Date(`${from}T00:00:00`).getTime();
+  const toTime = new Date(`${to}T00:00:00`).getTime();
+  if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+    return "Invalid date";
+  }
+  if (fromTime > toTime) {
+    return "from must not be after to";
+  }
+  // Rounded: a range across a DST change isn't a whole number of 24h days
+  if (Math.round((toTime - fromTime) / DAY_MS) + 1 > MAX_EXPORT_DAYS) {
+    return `Range too long (at most ${MAX_EXPORT_DAYS} days)`;
+  }
+
+  return { kind, format, from, to };
+}
+
+// Every date key from `from` to `to`, inclusive
+function getDateKeysInRange(from: string, to: string): string[] {
+  const keys: string[] = [];
+  const cursor = new Date(`${from}T00:00:00`);
+  // Compare timestamps, not keys: past year 9999 the keys no longer sort by date
+  const end = new Date(`${to}T00:00:00`).getTime();
+  while (cursor.getTime() <= end) {
+    keys.push(getDateKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return keys;
+}
+
+function buildSessionRows(history: HistoricalSession[], from: string, to: string): ExportRow[] {
+  return history
+    .filter((session) => {
+      const dateKey = getDateKey(new Date(session.endTime));
+      return dateKey >= from && dateKey <= to;
+    })
+    .sort((a, b) => a.endTime.localeCompare(b.endTime))
+    .map((session) => ({
+      id: session.id,
+      projectName: session.projectName,
+      initialCwd: session.initialCwd ?? null,
+      cwd: session.cwd ?? null,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      totalDurationMs: session.totalDurationMs,
+      totalWorkingMs: session.totalWorkingMs ?? 0,
+      totalWaitingMs: session.totalWaitingMs ?? 0,
+      totalIdleMs: session.totalIdleMs ?? 0,
+      toolCount: session.toolCount,
+      lastTool: session.lastTool ?? null,
+      model: session.model ?? null,
+      inputTokens: session.inputTokens,
+      outputTokens: session.outputTokens,
+      cacheCreationTokens: session.cacheCreationTokens,
+      cacheReadTokens: session.cacheReadTokens,
+      totalTokens: session.totalTokens,
+      costUsd: session.costUsd,
+    }));
+}
+
+// One row per day in the range, including empty days so spreadsheets get a continuous series
+function buildDailyRows(dailyStats: Record<string, DailyStats>, from: string, to: string): ExportRow[] {
+  return getDateKeysInRange(from, to).map((dateKey) => {
+    const stats = dailyStats[dateKey] || createEmptyDailyStats(dateKey);
+    return {
+      date: dateKey,
+      sessionsStarted: stats.sessionsStarted,
+      sessionsEnded: stats.sessionsEnded,
+      totalWorkingMs: stats.totalWorkingMs,
+      totalWaitingMs: stats.totalWaitingMs,
+      totalIdleMs: stats.totalIdleMs,
+      totalInputTokens: stats.totalInputTokens,
+      totalOutputTokens: stats.totalOutputTokens,
+      totalCacheCreationTokens: stats.totalCacheCreationTokens,
+      totalCacheReadTokens: stats.totalCacheReadTokens,
+      totalCostUsd: stats.totalCostUsd,
+    };
+  });
+}
+
+// One row per (day, model) that has usage
+function buildModelRows(dailyStats: Record<string, DailyStats>, from: string, to: string): ExportRow[] {
+  const rows: ExportRow[] = [];
+  for (const dateKey of getDateKeysInRange(from, to)) {
+    const breakdown = dailyStats[dateKey]?.modelBreakdown;
+    if (!breakdown) continue;
+    for (const [model, tokens] of Object.entries(breakdown)) {
+      rows.push({
+        date: dateKey,
+        model,
+        inputTokens: tokens.inputTokens,
+        outputTokens: tokens.outputTokens,
+        cacheCreationTokens: tokens.cacheCreationTokens,
+        cacheReadTokens: tokens.cacheReadTokens,
+        costUsd: calculateCost(tokens, model),
+      });
+    }
+  }
+  return rows;
+}
+
+// Quote CSV fields that contain separators, quotes or newlines
+function toCsvField(value: string | number | null): string {
+  if (value === null) return "";
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function serializeRows(rows: ExportRow[], columns: string[], format: ExportFormat): string {
+  switch (format) {
+    case "csv": {
+      const lines = [columns.join(",")];
+      for (const row of rows) {
+        lines.push(columns.map((column) => toCsvField(row[column] ?? null)).join(","));
+      }
+      return lines.join("\r\n") + "\r\n";
+    }
+    case "ndjson":
+      return rows.map((row) => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "");
+    case "json":
+      return JSON.stringify(rows, null, 2);
+  }
+}
+
+export function buildExport(
+  request: ExportRequest,
+  history: HistoricalSession[],
+  dailyStats: Record<string, DailyStats>
+): ExportResult {
+  const { kind, format, from, to } = request;
+
+  let rows: ExportRow[];
+  switch (kind) {
+    case "sessions":
+      rows = buildSessionRows(history, from, to);
+      break;
+    case "daily":
+      rows = buildDailyRows(dailyStats, from, to);
+      break;
+    case "models":
+      rows = buildModelRows(dailyStats, from, to);
+      break;
+  }
+
+  return {
+    body: serializeRows(rows, COLUMNS[kind], format),
+    contentType: CONTENT_TYPES[format],
+    filename: `claude-blocker-${kind}-${from}-to-${to}.${format}`,
+  };
+}
@@ -0,0 +1,145 @@
+import path from "path";
+import { execFileSync } from "child_process";
+import { ActionError } from "./actions.js";
+import {
+  findExecutable,
+  focusProcessWindow,
+  getProcessCwd,
+  listProcesses,
+  type FocusedTarget,
+  type ProcessInfo,
+} from "./platform.js";
+
+// Claude Code runs as a `claude` binary, or as node with the npm package's cli.js
+const CLAUDE_PROGRAM_PATTERN = /(^|\/)claude$|\/@anthropic-ai\/claude-code\//;
+const SESSION_FLAGS = ["--resume", "-r", "--session-id"];
+
+interface TmuxPane {
+  paneId: string; // e.g. "%3"
+  panePid: number;
+}
+
+function isClaudeProcess(candidate: ProcessInfo): boolean {
+  return candidate.pid !== process.pid && candidate.args.slice(0, 2).some((arg) => CLAUDE_PROGRAM_PATTERN.test(arg));
+}
+
+// `claude --resume <id>`, `claude -r <id>`, `claude --resume=<id>` ...
+function runsSession(candidate: ProcessInfo, sessionId: string): boolean {
+  return candidate.args.some(
+    (arg, i) =>
+      (arg === sessionId && SESSION_FLAGS.includes(candidate.args[i - 1])) ||
+      SESSION_FLAGS.some((flag) => arg === `${flag}=${sessionId}`)
+  );
+}
+
+// Parent chain from the process's parent up to init
+function getAncestors(target: ProcessInfo, processes: ProcessInfo[]): ProcessInfo[] {
+  const byPid = new Map(processes.map((p) => [p.pid, p]));
+  const ancestors: ProcessInfo[] = [];
+  let current = byPid.get(target.ppid);
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = byPid.get(current.ppid);
+  }
+  return ancestors;
+}
+
+// Find the Claude process running a session: by session ID on its command line, otherwise by
+// working directory (only for live sessions, since the directory may have a newer session)
+export function findSessionProcess(
+  sessionId: string,
+  liveDirectories: string[] | null,
+  processes: ProcessInfo[]
+): ProcessInfo | null {
+  const claudeProcesses = processes.filter(isClaudeProcess);
+
+  const byId = claudeProcesses.find((candidate) => runsSession(candidate, sessionId));
+  if (byId) return byId;
+  if (!liveDirectories || liveDirectories.length === 0) return null;
+
+  const byCwd = claudeProcesses.filter((candidate) => {
+    const cwd = getProcessCwd(candidate.pid);
+    return cwd !== null && liveDirectories.includes(path.resolve(cwd));
+  });
+  if (byCwd.length > 1) {
+    // Opening a new terminal here would fork one of them, so refuse instead of guessing
+    throw new ActionError(
+      "not_focusable",
+      `${byCwd.length} Claude processes run in ${liveDirectories[0]}; can't tell which one is this session`
+    );
+  }
+  return byCwd[0] ?? null;
+}
+
+function runTmux(args: string[]): string {
+  return execFileSync("tmux", args, { encoding: "utf-8", timeout: 2000 });
+}
+
+function listTmuxPanes(): TmuxPane[] {
+  if (!findExecutable("tmux")) return [];
+  try {
+    return runTmux(["list-panes", "-a", "-F", "#{pane_id} #{pane_pid}"])
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [paneId, panePid] = line.split(" ");
+        return { paneId, panePid: Number(panePid) };
+      });
+  } catch {
+    return []; // No tmux server running
+  }
+}
+
+// Select the pane, switch the most recently active client to it and raise that client's terminal
+async function focusTmuxPane(pane: TmuxPane, processes: ProcessInfo[]): Promise<void> {
+  runTmux(["select-window", "-t", pane.paneId]);
+  runTmux(["select-pane", "-t", pane.paneId]);
+
+  let clients: Array<{ pid: number; tty: string; activity: number }> = [];
+  try {
+    clients = runTmux(["list-clients", "-F", "#{client_pid} #{client_tty} #{client_activity}"])
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [pid, tty, activity] = line.split(" ");
+        return { pid: Number(pid), tty, activity: Number(activity) };
+      });
+  } catch {
+    return;
+  }
+
+  const client = clients.sort((a, b) => b.activity - a.activity)[0];
+  if (!client) return; // Detached session - the pane is selected for the next attach
+  runTmux(["switch-client", "-c", client.tty, "-t", pane.paneId]);
+
+  const clientProcess = processes.find((p) => p.pid === client.pid);
+  if (clientProcess) {
+    // Best effort: tmux already switched even if the window can't be raised
+    await focusProcessWindow(clientProcess, getAncestors(clientProcess, processes)).catch(() => null);
+  }
+}
+
+// Focus the terminal running a session. Returns null when no live process was found
+// (the caller then opens a new terminal); throws not_focusable when it runs somewhere we can't reach
+export async function focusSession(sessionId: string, liveDirectories: string[] | null): Promise<FocusedTarget | null> {
+  const processes = listProcesses();
+  const target = findSessionProcess(sessionId, liveDirectories, processes);
+  if (!target) return null;
+
+  const ancestors = getAncestors(target, processes);
+
+  // tmux first: the pane's shell is an ancestor of the Claude process
+  const pane = listTmuxPanes().find((p) => p.panePid === target.pid || ancestors.some((a) => a.pid === p.panePid));
+  if (pane) {
+    await focusTmuxPane(pane, processes);
+    return "window";
+  }
+
+  const focused = await focusProcessWindow(target, ancestors);
+  if (focused) return focused;
+
+  throw new ActionError(
+    "not_focusable",
+    `Session is already running (pid ${target.pid}), but its terminal can't be brought to the front`
+  );
+}
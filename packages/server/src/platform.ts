@@ -0,0 +1,462 @@
+import path from "path";
+import { execFile, execFileSync, spawn } from "child_process";
+import { accessSync, existsSync, readFileSync, readdirSync, readlinkSync, constants } from "fs";
+import { homedir } from "os";
+import type { TerminalApp, EditorApp, PlatformId, PlatformCapabilities } from "./types.js";
+import { EDITOR_COMMANDS } from "./types.js";
+import { ActionError, toActionError } from "./actions.js";
+
+// Terminal detection is cached briefly so installing a terminal doesn't need a restart
+const DETECTION_TTL_MS = 60 * 1000;
+const EXEC_TIMEOUT_MS = 10 * 1000;
+
+// A running process, as far as session discovery needs it
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  args: string[];
+  tty?: string; // Controlling terminal (macOS only, e.g. "/dev/ttys003")
+}
+
+// What focusing brought to the front: the window/tab hosting the process, or only the terminal app
+export type FocusedTarget = "window" | "app";
+
+// Quick actions implemented per platform. Commands are argument vectors, never shell strings
+interface PlatformBackend {
+  id: PlatformId;
+  fileManager: string;
+  canOpenFolder(): boolean;
+  detectTerminals(): TerminalApp[];
+  openFolder(dir: string): Promise<void>;
+  openTerminal(app: TerminalApp, cwd: string, argv: string[]): Promise<void>;
+  listProcesses(): ProcessInfo[];
+  getProcessCwd(pid: number): string | null;
+  // Bring the terminal window/tab hosting `target` to the front; null if that isn't possible
+  focusProcessWindow(target: ProcessInfo, ancestors: ProcessInfo[]): Promise<FocusedTarget | null>;
+}
+
+// Look up an executable on PATH (no shell involved)
+export function findExecutable(name: string): string | null {
+  for (const dir of (process.env.PATH || "").split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, name);
+    try {
+      accessSync(candidate, constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+// Quote one argument for a POSIX shell (only for text typed into an interactive terminal)
+function quoteShellArg(arg: string): string {
+  return /^[A-Za-z0-9_\/.:=@%+-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+// Start a GUI program without tying it to the server process; rejects if it can't be started
+function launchDetached(program: string, args: string[], cwd?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(program, args, { cwd, detached: true, stdio: "ignore" });
+    child.once("error", (error) => reject(toActionError(error, program)));
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+// Run a short-lived helper (open, osascript) and wait for it to finish; resolves with its stdout
+function runProgram(program: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(program, args, { timeout: EXEC_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        reject(toActionError(stderr.trim() ? new Error(stderr.trim()) : error, program));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+// Wrap AppleScript lines so arguments arrive as `argv` instead of being spliced into the script
+function getOsascriptArgs(script: string[], argv: string[]): string[] {
+  return [...["on run argv", ...script, "end run"].flatMap((line) => ["-e", line]), ...argv];
+}
+
+// ============ macOS ============
+
+// App bundles checked in /Applications and ~/Applications
+const MACOS_TERMINAL_BUNDLES: Array<{ app: TerminalApp; bundles: string[] }> = [
+  { app: "warp", bundles: ["Warp.app"] },
+  { app: "iterm2", bundles: ["iTerm.app"] },
+  { app: "terminal", bundles: ["/System/Applications/Utilities/Terminal.app", "Utilities/Terminal.app"] },
+  { app: "ghostty", bundles: ["Ghostty.app"] },
+];
+
+// AppleScript for each terminal; the command to type arrives as `item 1 of argv`
+const MACOS_TERMINAL_SCRIPTS: Partial<Record<TerminalApp, string[]>> = {
+  warp: [
+    'tell application "Warp" to activate',
+    "delay 0.3",
+    'tell application "System Events" to tell process "Warp" to keystroke "t" using command down',
+    "delay 0.2",
+    'tell application "System Events" to tell process "Warp" to keystroke (item 1 of argv)',
+    'tell application "System Events" to tell process "Warp" to key code 36',
+  ],
+  iterm2: [
+    'tell application "iTerm2"',
+    "activate",
+    "create window with default profile",
+    "tell current session of current window to write text (item 1 of argv)",
+    "end tell",
+  ],
+  terminal: ['tell application "Terminal" to do script (item 1 of argv)'],
+  ghostty: [
+    'tell application "Ghostty" to activate',
+    "delay 0.3",
+    'tell application "System Events" to tell process "Ghostty" to keystroke "t" using command down',
+    "delay 0.2",
+    'tell application "System Events" to tell process "Ghostty" to keystroke (item 1 of argv)',
+    'tell application "System Events" to tell process "Ghostty" to key code 36',
+  ],
+};
+
+// AppleScript that selects the tab whose tty is `item 1 of argv`; prints "found" on success
+const MACOS_FOCUS_SCRIPTS: Partial<Record<TerminalApp, string[]>> = {
+  iterm2: [
+    'tell application "iTerm2"',
+    "repeat with aWindow in windows",
+    "repeat with aTab in tabs of aWindow",
+    "repeat with aSession in sessions of aTab",
+    "if tty of aSession is (item 1 of argv) then",
+    "select aWindow",
+    "select aTab",
+    "select aSession",
+    "activate",
+    'return "found"',
+    "end if",
+    "end repeat",
+    "end repeat",
+    "end repeat",
+    "end tell",
+  ],
+  terminal: [
+    'tell application "Terminal"',
+    "repeat with aWindow in windows",
+    "repeat with aTab in tabs of aWindow",
+    "if tty of aTab is (item 1 of argv) then",
+    "set selected of aTab to true",
+    "set index of aWindow to 1",
+    "activate",
+    'return "found"',
+    "end if",
+    "end repeat",
+    "end repeat",
+    "end tell",
+  ],
+};
+
+// Which terminal app a process runs in, from the app bundle in its ancestors' command lines
+const MACOS_TERMINAL_PROCESS_PATTERNS: Array<{ app: TerminalApp; pattern: RegExp }> = [
+  { app: "iterm2", pattern: /\/iTerm\.app\// },
+  { app: "terminal", pattern: /\/Terminal\.app\// },
+  { app: "warp", pattern: /\/Warp\.app\// },
+  { app: "ghostty", pattern: /\/Ghostty\.app\// },
+];
+
+// Application names for `activate` (Warp and Ghostty can't select a tab, only come to the front)
+const MACOS_APP_NAMES: Partial<Record<TerminalApp, string>> = {
+  warp: "Warp",
+  ghostty: "Ghostty",
+};
+
+function isMacAppInstalled(bundles: string[]): boolean {
+  const roots = ["/Applications", path.join(homedir(), "Applications")];
+  return bundles.some((bundle) =>
+    path.isAbsolute(bundle) ? existsSync(bundle) : roots.some((root) => existsSync(path.join(root, bundle)))
+  );
+}
+
+const macosBackend: PlatformBackend = {
+  id: "macos",
+  fileManager: "Finder",
+
+  canOpenFolder: () => true,
+
+  detectTerminals: () =>
+    MACOS_TERMINAL_BUNDLES.filter(({ bundles }) => isMacAppInstalled(bundles)).map(({ app }) => app),
+
+  async openFolder(dir) {
+    await runProgram("open", [dir]);
+  },
+
+  async openTerminal(app, cwd, argv) {
+    const script = MACOS_TERMINAL_SCRIPTS[app];
+    if (!script) {
+      throw new ActionError("unsupported", `${app} is not supported on macOS`);
+    }
+    // These terminals only accept typed text, so this is the one place arguments get shell-quoted
+    const typedCommand = `cd ${quoteShellArg(cwd)} && ${argv.map(quoteShellArg).join(" ")}`;
+    await runProgram("osascript", getOsascriptArgs(script, [typedCommand]));
+  },
+
+  listProcesses() {
+    const output = execFileSync("ps", ["-axww", "-o", "pid=,ppid=,tty=,args="], {
+      encoding: "utf-8",
+      timeout: EXEC_TIMEOUT_MS,
+    });
+    const processes: ProcessInfo[] = [];
+    for (const line of output.split("\n")) {
+      const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\S+)\s+(.*)$/);
+      if (!match) continue;
+      processes.push({
+        pid: Number(match[1]),
+        ppid: Number(match[2]),
+        tty: match[3] === "??" ? undefined : `/dev/${match[3]}`,
+        args: match[4].split(/\s+/),
+      });
+    }
+    return processes;
+  },
+
+  getProcessCwd(pid) {
+    try {
+      const output = execFileSync("lsof", ["-a", "-p", String(pid), "-d", "cwd", "-Fn"], {
+        encoding: "utf-8",
+        timeout: EXEC_TIMEOUT_MS,
+      });
+      return output.split("\n").find((line) => line.startsWith("n"))?.slice(1) ?? null;
+    } catch {
+      return null;
+    }
+  },
+
+  async focusProcessWindow(target, ancestors) {
+    const app = MACOS_TERMINAL_PROCESS_PATTERNS.find(({ pattern }) =>
+      ancestors.some((ancestor) => pattern.test(ancestor.args.join(" ")))
+    )?.app;
+    if (!app) return null;
+
+    const focusScript = MACOS_FOCUS_SCRIPTS[app];
+    if (focusScript && target.tty) {
+      const result = await runProgram("osascript", getOsascriptArgs(focusScript, [target.tty]));
+      return result.trim() === "found" ? "window" : null;
+    }
+
+    // No tab matching: the session's tab may not be the one in front
+    const appName = MACOS_APP_NAMES[app];
+    if (!appName) return null;
+    await runProgram("osascript", getOsascriptArgs([`tell application "${appName}" to activate`], []));
+    return "app";
+  },
+};
+
+// ============ Linux ============
+
+// Preference order when the configured terminal isn't installed
+const LINUX_TERMINALS: TerminalApp[] = ["gnome-terminal", "konsole", "kitty", "alacritty", "wezterm", "tmux"];
+
+// Run argv in a login shell, then keep an interactive shell open like the macOS terminals do.
+// argv is passed as positional parameters, so the shell never parses it
+function getShellArgs(argv: string[]): string[] {
+  const shell = process.env.SHELL || "/bin/sh";
+  return [shell, "-lc", '"$@"; exec "$SHELL"', "claude-blocker", ...argv];
+}
+
+// argv for opening a command in a new window/tab of each terminal, starting in `cwd`
+function getLinuxTerminalArgs(app: TerminalApp, cwd: string, argv: string[]): [string, string[]] {
+  const shellArgs = getShellArgs(argv);
+  switch (app) {
+    case "gnome-terminal":
+      return ["gnome-terminal", [`--working-directory=${cwd}`, "--", ...shellArgs]];
+    case "konsole":
+      return ["konsole", ["--workdir", cwd, "-e", ...shellArgs]];
+    case "kitty":
+      return ["kitty", ["--directory", cwd, ...shellArgs]];
+    case "alacritty":
+      return ["alacritty", ["--working-directory", cwd, "-e", ...shellArgs]];
+    case "wezterm":
+      return ["wezterm", ["start", "--cwd", cwd, "--", ...shellArgs]];
+    case "tmux":
+      // Opens a window in the most recently used tmux session
+      return ["tmux", ["new-window", "-c", cwd, ...shellArgs]];
+    default:
+      throw new ActionError("unsupported", `${app} is not supported on Linux`);
+  }
+}
+
+// tmux only works as a target while a tmux server is running
+function isTmuxServerRunning(): boolean {
+  try {
+    execFileSync("tmux", ["list-sessions"], { stdio: "ignore", timeout: 2000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// First window owned by the process or one of its ancestors (X11 only, needs xdotool)
+async function findX11Window(chain: ProcessInfo[]): Promise<string | null> {
+  if (!process.env.DISPLAY || !findExecutable("xdotool")) return null;
+  for (const candidate of chain) {
+    try {
+      const windows = await runProgram("xdotool", ["search", "--pid", String(candidate.pid)]);
+      const windowId = windows.split("\n").find((line) => line.trim());
+      if (windowId) return windowId.trim();
+    } catch {
+      // xdotool exits non-zero when nothing matches
+    }
+  }
+  return null;
+}
+
+const linuxBackend: PlatformBackend = {
+  id: "linux",
+  fileManager: "File Manager",
+
+  canOpenFolder: () => findExecutable("xdg-open") !== null,
+
+  detectTerminals: () =>
+    LINUX_TERMINALS.filter((app) => findExecutable(app) !== null && (app !== "tmux" || isTmuxServerRunning())),
+
+  openFolder(dir) {
+    return launchDetached("xdg-open", [dir]);
+  },
+
+  async openTerminal(app, cwd, argv) {
+    const [program, args] = getLinuxTerminalArgs(app, cwd, argv);
+    // tmux exits right after creating the window, so wait for it to report errors
+    if (app === "tmux") {
+      await runProgram(program, args);
+      return;
+    }
+    await launchDetached(program, args, cwd);
+  },
+
+  listProcesses() {
+    const processes: ProcessInfo[] = [];
+    for (const entry of readdirSync("/proc")) {
+      if (!/^\d+$/.test(entry)) continue;
+      try {
+        const args = readFileSync(`/proc/${entry}/cmdline`, "utf-8").split("\0").filter(Boolean);
+        if (args.length === 0) continue; // Kernel threads
+        const ppid = readFileSync(`/proc/${entry}/status`, "utf-8").match(/^PPid:\s+(\d+)/m)?.[1];
+        processes.push({ pid: Number(entry), ppid: Number(ppid ?? 0), args });
+      } catch {
+        // Exited while we were reading, or not ours to read
+      }
+    }
+    return processes;
+  },
+
+  getProcessCwd(pid) {
+    try {
+      return readlinkSync(`/proc/${pid}/cwd`);
+    } catch {
+      return null;
+    }
+  },
+
+  async focusProcessWindow(target, ancestors) {
+    const windowId = await findX11Window([target, ...ancestors]);
+    if (!windowId) return null;
+    await runProgram("xdotool", ["windowactivate", windowId]);
+    return "window";
+  },
+};
+
+// ============ Other platforms ============
+
+const unsupportedBackend: PlatformBackend = {
+  id: "unsupported",
+  fileManager: "File Manager",
+  canOpenFolder: () => false,
+  detectTerminals: () => [],
+  openFolder: async () => {
+    throw new ActionError("unsupported", `Opening folders is not supported on ${process.platform}`);
+  },
+  openTerminal: async () => {
+    throw new ActionError("unsupported", `Opening terminals is not supported on ${process.platform}`);
+  },
+  listProcesses: () => [],
+  getProcessCwd: () => null,
+  focusProcessWindow: async () => null,
+};
+
+function getBackend(): PlatformBackend {
+  switch (process.platform) {
+    case "darwin":
+      return macosBackend;
+    case "linux":
+      return linuxBackend;
+    default:
+      return unsupportedBackend;
+  }
+}
+
+const backend = getBackend();
+
+let cachedCapabilities: PlatformCapabilities | null = null;
+let cachedAt = 0;
+
+export function getPlatformCapabilities(): PlatformCapabilities {
+  if (cachedCapabilities && Date.now() - cachedAt < DETECTION_TTL_MS) {
+    return cachedCapabilities;
+  }
+
+  const terminals = backend.detectTerminals();
+  const editors = (Object.keys(EDITOR_COMMANDS) as EditorApp[]).filter(
+    (app) => findExecutable(EDITOR_COMMANDS[app]) !== null
+  );
+
+  cachedCapabilities = {
+    platform: backend.id,
+    fileManager: backend.fileManager,
+    actions: {
+      openFolder: backend.canOpenFolder(),
+      openTerminal: terminals.length > 0,
+      openEditor: backend.id !== "unsupported" && editors.length > 0,
+    },
+    terminals,
+    editors,
+  };
+  cachedAt = Date.now();
+  return cachedCapabilities;
+}
+
+export function openFolder(dir: string): Promise<void> {
+  return backend.openFolder(dir);
+}
+
+// Open argv in the requested terminal, or the first detected one if it isn't installed
+export async function openTerminal(app: TerminalApp, cwd: string, argv: string[]): Promise<TerminalApp> {
+  const { terminals } = getPlatformCapabilities();
+  const resolved = terminals.includes(app) ? app : terminals[0];
+  if (!resolved) {
+    throw new ActionError("unsupported", `No supported terminal found on ${process.platform}`);
+  }
+  await backend.openTerminal(resolved, cwd, argv);
+  return resolved;
+}
+
+export function listProcesses(): ProcessInfo[] {
+  return backend.listProcesses();
+}
+
+export function getProcessCwd(pid: number): string | null {
+  return backend.getProcessCwd(pid);
+}
+
+export function focusProcessWindow(target: ProcessInfo, ancestors: ProcessInfo[]): Promise<FocusedTarget | null> {
+  return backend.focusProcessWindow(target, ancestors);
+}
+
+// Editor CLIs take the folder as their only argument on every platform
+export function openEditor(app: EditorApp, dir: string): Promise<void> {
+  if (backend.id === "unsupported") {
+    return Promise.reject(new ActionError("unsupported", `Opening editors is not supported on ${process.platform}`));
+  }
+  return launchDetached(EDITOR_COMMANDS[app], [dir], dir);
+}
@@ -1,9 +1,23 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "http";
-import { execSync } from "child_process";
 import { WebSocketServer, WebSocket } from "ws";
-import type { HookPayload, ClientMessage, ServerMessage, DailyStats } from "./types.js";
-import { DEFAULT_PORT } from "./types.js";
+import type { HookPayload, ClientMessage, ServerMessage, DailyStats, TerminalApp, EditorApp } from "./types.js";
+import { TERMINAL_OPTIONS, EDITOR_COMMANDS, buildDailyReport } from "./types.js";
 import { state } from "./state.js";
+import { eventStore } from "./event-store.js";
+import { loadServerConfig, saveServerConfig, parseRetentionDays, parseBudgetConfig } from "./config.js";
+import { parseExportRequest, buildExport } from "./export.js";
+import { getPlatformCapabilities, openFolder, openTerminal, openEditor } from "./platform.js";
+import { focusSession } from "./focus.js";
+import { ActionError, getActionErrorResponse, parseActionBody, parseSessionId, resolveActionPath } from "./actions.js";
+import {
+  AUTH_HEADER,
+  isAuthorized,
+  isAllowedOrigin,
+  isExtensionOrigin,
+  startPairing,
+  completePairing,
+  getAuthToken,
+} from "./auth.js";
 import {
   runBackfill,
   getHistoricalStats,
@@ -107,12 +121,38 @@ function sendJson(res: ServerResponse, data: unknown, status = 200): void {
   res.end(JSON.stringify(data));
 }
 
-export function startServer(port: number = DEFAULT_PORT): void {
+// Quick action failures carry a code the extension uses to pick its fallback
+function sendActionError(res: ServerResponse, error: unknown): void {
+  const { status, body } = getActionErrorResponse(error);
+  sendJson(res, body, status);
+}
+
+// Typing signal duration; undefined uses the default, null means invalid
+function parseTypingTtl(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Port and host default to ~/.claude-blocker/config.json (which the hooks also target)
+export function startServer(
+  port: number = loadServerConfig().port,
+  host: string = loadServerConfig().host
+): void {
+  // Apply the persisted retention policy (prunes old events right away)
+  eventStore.setRetention(loadServerConfig().retentionDays);
+
+  // Make sure the pairing token exists before hooks or the extension need it
+  getAuthToken();
+
   const server = createServer(async (req, res) => {
-    // CORS headers for local development
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    // CORS only for paired extension origins (websites must not reach the local API)
+    const origin = req.headers.origin;
+    if (isAllowedOrigin(origin)) {
+      res.setHeader("Access-Control-Allow-Origin", origin!);
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", `Content-Type, ${AUTH_HEADER}`);
+      res.setHeader("Vary", "Origin");
+    }
 
     if (req.method === "OPTIONS") {
       res.writeHead(204);
@@ -120,7 +160,50 @@ export function startServer(port: number = DEFAULT_PORT): void {
       return;
     }
 
-    const url = new URL(req.url || "/", `http://localhost:${port}`);
+    const url = new URL(req.url || "/", `http://${host}:${port}`);
+
+    // Actions run commands on this machine, config changes can delete data and hooks/statusline feed
+    // the session state and known directories (a web page can send no-cors POSTs) - require the token
+    const requiresAuth =
+      url.pathname.startsWith("/action/") ||
+      (req.method === "POST" &&
+        ["/config", "/typing", "/hook", "/statusline", "/stats/backfill"].includes(url.pathname));
+    if (requiresAuth && !isAuthorized(req)) {
+      sendJson(res, { error: "Unauthorized - pair the extension in its settings" }, 401);
+      return;
+    }
+
+    // Pairing: the code is printed in this terminal, the extension exchanges it for the token
+    if (req.method === "POST" && url.pathname === "/pair/start") {
+      if (!isExtensionOrigin(origin)) {
+        sendJson(res, { error: "Pairing is only available to the browser extension" }, 403);
+        return;
+      }
+      sendJson(res, { ok: true, expiresInMs: startPairing() });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/pair/complete") {
+      if (!isExtensionOrigin(origin)) {
+        sendJson(res, { error: "Pairing is only available to the browser extension" }, 403);
+        return;
+      }
+      try {
+        const body = await parseBody(req);
+        const { code } = JSON.parse(body) as { code?: unknown };
+        const result = completePairing(code, origin!);
+        sendJson(res, result, "error" in result ? 400 : 200);
+      } catch {
+        sendJson(res, { error: "Invalid JSON" }, 400);
+      }
+      return;
+    }
+
+    // Lets the extension tell "not paired" apart from "server offline"
+    if (req.method === "GET" && url.pathname === "/pair/status") {
+      sendJson(res, { paired: isAuthorized(req) });
+      return;
+    }
 
     // Health check / status endpoint
     if (req.method === "GET" && url.pathname === "/status") {
@@ -134,6 +217,47 @@ export function startServer(port: number = DEFAULT_PORT): void {
       return;
     }
 
+    // Server config (retention policy)
+    if (req.method === "GET" && url.pathname === "/config") {
+      sendJson(res, loadServerConfig());
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/config") {
+      try {
+        const body = await parseBody(req);
+        const payload = JSON.parse(body) as Record<string, unknown>;
+        const config = { ...loadServerConfig() };
+
+        if ("retentionDays" in payload) {
+          const retentionDays = parseRetentionDays(payload.retentionDays);
+          if (retentionDays === undefined) {
+            sendJson(res, { error: "retentionDays must be a positive number of days or null (forever)" }, 400);
+            return;
+          }
+          config.retentionDays = retentionDays;
+        }
+
+        if ("budget" in payload) {
+          const budget = parseBudgetConfig(payload.budget);
+          if (typeof budget === "string") {
+            sendJson(res, { error: budget }, 400);
+            return;
+          }
+          config.budget = budget;
+        }
+
+        saveServerConfig(config);
+        eventStore.setRetention(config.retentionDays);
+        broadcastStatsUpdate();
+        state.refresh();
+        sendJson(res, config);
+      } catch {
+        sendJson(res, { error: "Invalid JSON" }, 400);
+      }
+      return;
+    }
+
     // Hook endpoint - receives notifications from Claude Code
     if (req.method === "POST" && url.pathname === "/hook") {
       try {
@@ -160,6 +284,23 @@ export function startServer(port: number = DEFAULT_PORT): void {
       return;
     }
 
+    // Typing endpoint - keeps sites unblocked while a prompt is being written ({ ttlMs } optional)
+    if (req.method === "POST" && url.pathname === "/typing") {
+      try {
+        const body = await parseBody(req);
+        const payload = (body.trim() ? JSON.parse(body) : {}) as Record<string, unknown>;
+        const ttlMs = parseTypingTtl(payload.ttlMs);
+        if (ttlMs === null) {
+          sendJson(res, { error: "ttlMs must be a positive number of milliseconds" }, 400);
+          return;
+        }
+        sendJson(res, { ok: true, typingUntil: state.markTyping(ttlMs) });
+      } catch {
+        sendJson(res, { error: "Invalid JSON" }, 400);
+      }
+      return;
+    }
+
     // Statusline endpoint - receives token and cost data from statusline script
     if (req.method === "POST" && url.pathname === "/statusline") {
       try {
@@ -194,123 +335,88 @@ export function startServer(port: number = DEFAULT_PORT): void {
       return;
     }
 
-    // Action: Open in Finder (macOS)
+    // Platform capabilities - lets the extension hide actions this machine can't run
+    if (req.method === "GET" && url.pathname === "/capabilities") {
+      sendJson(res, getPlatformCapabilities());
+      return;
+    }
+
+    // Action: Open folder in the platform's file manager
     if (req.method === "POST" && url.pathname === "/action/open-finder") {
       try {
-        const body = await parseBody(req);
-        const { path } = JSON.parse(body) as { path: string };
-
-        if (!path) {
-          sendJson(res, { success: false, error: "Path is required" }, 400);
-          return;
-        }
-
-        // Use 'open' command on macOS to open folder in Finder
-        execSync(`open "${path.replace(/"/g, '\\"')}"`);
+        const body = parseActionBody(await parseBody(req));
+        const dir = resolveActionPath(body.path, state.getKnownDirectories());
+        await openFolder(dir);
         sendJson(res, { success: true });
       } catch (error) {
-        sendJson(res, { success: false, error: String(error) }, 500);
+        sendActionError(res, error);
       }
       return;
     }
 
-    // Action: Open in Terminal (macOS)
+    // Action: Resume a session in a terminal (falls back to the first detected terminal)
     if (req.method === "POST" && url.pathname === "/action/open-terminal") {
       try {
-        const body = await parseBody(req);
-        const { path, command, app } = JSON.parse(body) as {
-          path: string;
-          command: string;
-          app: "warp" | "iterm2" | "terminal" | "ghostty";
-        };
-
-        if (!path || !command || !app) {
-          sendJson(res, { success: false, error: "path, command, and app are required" }, 400);
-          return;
-        }
-
-        const escapedPath = path.replace(/'/g, "'\\''");
-        const escapedCommand = command.replace(/'/g, "'\\''");
-        const fullCommand = `cd '${escapedPath}' && ${escapedCommand}`;
-
-        switch (app) {
-          case "warp":
-            // Warp: Use LaunchServices URL scheme
-            execSync(
-              `osascript -e 'tell application "Warp" to activate' -e 'delay 0.3' -e 'tell application "System Events" to tell process "Warp" to keystroke "t" using command down' -e 'delay 0.2' -e 'tell application "System Events" to tell process "Warp" to keystroke "${fullCommand.replace(/"/g, '\\"')}"' -e 'tell application "System Events" to tell process "Warp" to key code 36'`
-            );
-            break;
-          case "iterm2":
-            execSync(
-              `osascript -e 'tell application "iTerm2"
-                activate
-                create window with default profile
-                tell current session of current window
-                  write text "${fullCommand.replace(/"/g, '\\"')}"
-                end tell
-              end tell'`
-            );
-            break;
-          case "terminal":
-            execSync(
-              `osascript -e 'tell application "Terminal" to do script "${fullCommand.replace(/"/g, '\\"')}"'`
-            );
-            break;
-          case "ghostty":
-            // Ghostty: Open app and use System Events
-            execSync(
-              `osascript -e 'tell application "Ghostty" to activate' -e 'delay 0.3' -e 'tell application "System Events" to tell process "Ghostty" to keystroke "t" using command down' -e 'delay 0.2' -e 'tell application "System Events" to tell process "Ghostty" to keystroke "${fullCommand.replace(/"/g, '\\"')}"' -e 'tell application "System Events" to tell process "Ghostty" to key code 36'`
-            );
-            break;
-          default:
-            sendJson(res, { success: false, error: `Unknown terminal app: ${app}` }, 400);
-            return;
+        const body = parseActionBody(await parseBody(req));
+        const app = body.app as TerminalApp;
+        if (!TERMINAL_OPTIONS.some((option) => option.value === app)) {
+          throw new ActionError("invalid_request", `Unknown terminal app: ${String(body.app)}`);
         }
+        const dir = resolveActionPath(body.path, state.getKnownDirectories());
+        const sessionId = parseSessionId(body.sessionId);
 
-        sendJson(res, { success: true });
+        const openedWith = await openTerminal(app, dir, ["claude", "--resume", sessionId]);
+        sendJson(res, { success: true, app: openedWith });
       } catch (error) {
-        sendJson(res, { success: false, error: String(error) }, 500);
+        sendActionError(res, error);
       }
       return;
     }
 
-    // Action: Open in Editor (macOS)
-    if (req.method === "POST" && url.pathname === "/action/open-editor") {
+    // Action: Focus the terminal already running a session, or resume it in a new one if it isn't running
+    if (req.method === "POST" && url.pathname === "/action/focus-session") {
       try {
-        const body = await parseBody(req);
-        const { path, app } = JSON.parse(body) as {
-          path: string;
-          app: "cursor" | "vscode" | "windsurf" | "zed" | "sublime" | "webstorm";
-        };
+        const body = parseActionBody(await parseBody(req));
+        const app = body.app as TerminalApp;
+        if (!TERMINAL_OPTIONS.some((option) => option.value === app)) {
+          throw new ActionError("invalid_request", `Unknown terminal app: ${String(body.app)}`);
+        }
+        const dir = resolveActionPath(body.path, state.getKnownDirectories());
+        const sessionId = parseSessionId(body.sessionId);
 
-        if (!path || !app) {
-          sendJson(res, { success: false, error: "path and app are required" }, 400);
+        const focused = await focusSession(sessionId, state.getLiveSessionDirectories(sessionId));
+        if (focused === "window") {
+          sendJson(res, { success: true, focused: true });
           return;
         }
-
-        // CLI commands for each editor
-        const editorCommands: Record<string, string> = {
-          cursor: "cursor",
-          vscode: "code",
-          windsurf: "windsurf",
-          zed: "zed",
-          sublime: "subl",
-          webstorm: "webstorm",
-        };
-
-        const editorCommand = editorCommands[app];
-        if (!editorCommand) {
-          sendJson(res, { success: false, error: `Unknown editor app: ${app}` }, 400);
+        if (focused === "app") {
+          // Warp and Ghostty only come to the front; the session's tab may not be the one showing
+          sendJson(res, { success: true, focused: false, appActivated: true });
           return;
         }
 
-        // Editors typically open via their CLI directly
-        const escapedPath = path.replace(/"/g, '\\"');
-        execSync(`${editorCommand} "${escapedPath}"`);
+        const openedWith = await openTerminal(app, dir, ["claude", "--resume", sessionId]);
+        sendJson(res, { success: true, focused: false, app: openedWith });
+      } catch (error) {
+        sendActionError(res, error);
+      }
+      return;
+    }
 
+    // Action: Open in Editor
+    if (req.method === "POST" && url.pathname === "/action/open-editor") {
+      try {
+        const body = parseActionBody(await parseBody(req));
+        const app = body.app as EditorApp;
+        if (typeof app !== "string" || !Object.hasOwn(EDITOR_COMMANDS, app)) {
+          throw new ActionError("invalid_request", `Unknown editor app: ${String(body.app)}`);
+        }
+        const dir = resolveActionPath(body.path, state.getKnownDirectories());
+
+        await openEditor(app, dir);
         sendJson(res, { success: true });
       } catch (error) {
-        sendJson(res, { success: false, error: String(error) }, 500);
+        sendActionError(res, error);
       }
       return;
     }
@@ -428,6 +534,53 @@ export function startServer(port: number = DEFAULT_PORT): void {
       return;
     }
 
+    // End-of-day report (the extension's report also counts blocked-site attempts, which the server doesn't see)
+    if (req.method === "GET" && url.pathname.startsWith("/report/")) {
+      try {
+        const dateKey = url.pathname.replace("/report/", "");
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
+          sendJson(res, { error: "Invalid date format (expected YYYY-MM-DD)" }, 400);
+          return;
+        }
+        sendJson(res, {
+          report: buildDailyReport({
+            date: dateKey,
+            stats: getDailyStatsRange([dateKey])[0],
+            history: state.getHistory(),
+          }),
+        });
+      } catch (error) {
+        sendJson(res, { error: String(error) }, 500);
+      }
+      return;
+    }
+
+    // Export sessions, daily stats or per-model usage for a date range
+    if (req.method === "GET" && url.pathname === "/export") {
+      try {
+        const exportRequest = parseExportRequest(url.searchParams);
+        if (typeof exportRequest === "string") {
+          sendJson(res, { error: exportRequest }, 400);
+          return;
+        }
+
+        const result = buildExport(
+          exportRequest,
+          state.getHistory(),
+          getHistoricalStats().dailyStats
+        );
+        res.writeHead(200, {
+          "Content-Type": result.contentType,
+          "Content-Disposition": `attachment; filename="${result.filename}"`,
+          "Access-Control-Expose-Headers": "Content-Disposition",
+        });
+        res.end(result.body);
+      } catch (error) {
+        sendJson(res, { error: String(error) }, 500);
+      }
+      return;
+    }
+
     // Trigger manual backfill
     if (req.method === "POST" && url.pathname === "/stats/backfill") {
       if (backfillInProgress) {
@@ -459,7 +612,11 @@ export function startServer(port: number = DEFAULT_PORT): void {
   });
 
   // WebSocket server for Chrome extension
-  const wss = new WebSocketServer({ server, path: "/ws" });
+  const wss = new WebSocketServer({
+    server,
+    path: "/ws",
+    verifyClient: ({ req }: { req: IncomingMessage }) => isAuthorized(req),
+  });
 
   wss.on("connection", (ws: WebSocket) => {
     console.log("Extension connected");
@@ -482,6 +639,11 @@ export function startServer(port: number = DEFAULT_PORT): void {
           ws.send(JSON.stringify({ type: "pong" }));
         }
 
+        if (message.type === "typing") {
+          const ttlMs = parseTypingTtl(message.ttlMs);
+          if (ttlMs !== null) state.markTyping(ttlMs);
+        }
+
         // Handle subscribe_stats message
         if ((message as Record<string, unknown>).type === "subscribe_stats") {
           statsSubscribers.add(ws);
@@ -505,14 +667,14 @@ export function startServer(port: number = DEFAULT_PORT): void {
     });
   });
 
-  server.listen(port, () => {
+  server.listen(port, host, () => {
     console.log(`
 ┌───────────────────────────────────────────┐
 │                                           │
 │   Claude Blocker Advanced Server          │
 │                                           │
-│   HTTP:      http://localhost:${port}        │
-│   WebSocket: ws://localhost:${port}/ws       │
+│   HTTP:      http://${host}:${port}        │
+│   WebSocket: ws://${host}:${port}/ws       │
 │                                           │
 │   Waiting for Claude Code hooks...        │
 │                                           │
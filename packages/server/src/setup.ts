@@ -1,124 +1,150 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
-import { DEFAULT_PORT } from "@claude-blocker-advanced/shared";
+import { getServerUrl } from "./config.js";
+import { AUTH_HEADER, getAuthToken } from "./auth.js";
 
 interface ClaudeSettings {
   hooks?: Record<string, unknown[]>;
   [key: string]: unknown;
 }
 
-const HOOK_COMMAND = `curl -s -X POST http://localhost:${DEFAULT_PORT}/hook -H 'Content-Type: application/json' -d "$(cat)" > /dev/null 2>&1 &`;
-
-const HOOKS_CONFIG = {
-  UserPromptSubmit: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  PreToolUse: [
-    {
-      matcher: "*",
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  PostToolUse: [
-    {
-      matcher: "*",
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  Stop: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  SessionStart: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  SessionEnd: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  SubagentStart: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-  SubagentStop: [
-    {
-      hooks: [
-        {
-          type: "command",
-          command: HOOK_COMMAND,
-        },
-      ],
-    },
-  ],
-};
-
-function setupStatuslineIntegration(): void {
+const STATUSLINE_START_MARKER = "## CLAUDE BLOCKER SCRIPT - START";
+const STATUSLINE_END_MARKER = "## CLAUDE BLOCKER SCRIPT - END";
+
+// Hook command posting to the configured server address (~/.claude-blocker/config.json) with the pairing token
+function getHookCommand(serverUrl: string, token: string): string {
+  return `curl -s -X POST ${serverUrl}/hook -H '${AUTH_HEADER}: ${token}' -H 'Content-Type: application/json' -d "$(cat)" > /dev/null 2>&1 &`;
+}
+
+function getHooksConfig(serverUrl: string, token: string): Record<string, unknown[]> {
+  const command = getHookCommand(serverUrl, token);
+  return {
+    UserPromptSubmit: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    PreToolUse: [
+      {
+        matcher: "*",
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    PostToolUse: [
+      {
+        matcher: "*",
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    Stop: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    SessionStart: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    SessionEnd: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    SubagentStart: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+    SubagentStop: [
+      {
+        hooks: [
+          {
+            type: "command",
+            command,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const HOOK_EVENTS = Object.keys(getHooksConfig("", ""));
+
+// Remove our section from statusline.sh content (returns content unchanged if absent)
+function stripStatuslineSection(content: string): string {
+  const startIndex = content.indexOf(STATUSLINE_START_MARKER);
+  const endIndex = content.indexOf(STATUSLINE_END_MARKER);
+  if (startIndex === -1 || endIndex === -1) return content;
+  const after = content.substring(endIndex + STATUSLINE_END_MARKER.length).replace(/^\n+/, "");
+  return content.substring(0, startIndex) + after;
+}
+
+function setupStatuslineIntegration(serverUrl: string, token: string): void {
   const claudeDir = join(homedir(), ".claude");
   const statuslinePath = join(claudeDir, "statusline.sh");
 
   // Claude Blocker section to append to statusline
-  const claudeBlockerSection = `## CLAUDE BLOCKER SCRIPT - START
+  const claudeBlockerSection = `${STATUSLINE_START_MARKER}
 # Send statusline JSON to Claude Blocker server for token/cost metrics tracking
 # This happens silently in the background (doesn't block statusline output)
 if [[ -n "$session_id" ]]; then
-  echo "$input" | curl -s -X POST http://localhost:8765/statusline \\
+  echo "$input" | curl -s -X POST ${serverUrl}/statusline \\
+    -H '${AUTH_HEADER}: ${token}' \\
     -H 'Content-Type: application/json' \\
     -d @- > /dev/null 2>&1 &
 fi
-## CLAUDE BLOCKER SCRIPT - END`;
+${STATUSLINE_END_MARKER}`;
 
   // Check if statusline.sh exists and needs updating
   if (existsSync(statuslinePath)) {
     try {
-      const content = readFileSync(statuslinePath, "utf-8");
-
-      // Check if our section already exists
-      if (content.includes("## CLAUDE BLOCKER SCRIPT - START")) {
-        console.log("✓ Claude Blocker integration already in statusline.sh");
-        return;
+      let content = readFileSync(statuslinePath, "utf-8");
+
+      // Check if our section already exists (and targets the current address)
+      if (content.includes(STATUSLINE_START_MARKER)) {
+        if (content.includes(`${serverUrl}/statusline`) && content.includes(token)) {
+          console.log("✓ Claude Blocker integration already in statusline.sh");
+          return;
+        }
+        // Server address or token changed - replace the old section
+        content = stripStatuslineSection(content);
       }
 
       // Append our section before the final display section
@@ -168,17 +194,20 @@ export function setupHooks(): void {
     }
   }
 
+  const serverUrl = getServerUrl();
+  const token = getAuthToken(); // Generated on first setup
+
   // Merge hooks (don't overwrite existing hooks for other events)
   settings.hooks = {
     ...settings.hooks,
-    ...HOOKS_CONFIG,
+    ...getHooksConfig(serverUrl, token),
   };
 
   // Write settings
   writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
 
   // Setup statusline integration
-  setupStatuslineIntegration();
+  setupStatuslineIntegration(serverUrl, token);
 
   console.log(`
 ┌───────────────────────────────────────────────────────┐
@@ -187,6 +216,11 @@ export function setupHooks(): void {
 │                                                       │
 │   Hooks configured in:                                │
 │   ${settingsPath}
+│   Posting to: ${serverUrl}
+│                                                       │
+│   Pair the extension: Settings → Server Connection    │
+│   (the pairing code is shown here when the server     │
+│   is running)                                         │
 │                                                       │
 │   Configured hooks:                                   │
 │   - UserPromptSubmit (work starting)                  │
@@ -224,7 +258,7 @@ export function areHooksConfigured(): boolean {
     }
 
     // Check if at least one of our hooks is configured
-    return Object.keys(HOOKS_CONFIG).some(
+    return HOOK_EVENTS.some(
       (hookName) => hookName in settings.hooks!
     );
   } catch {
@@ -232,6 +266,21 @@ export function areHooksConfigured(): boolean {
   }
 }
 
+// Whether the installed hooks post to the configured server address with the current token
+export function doHooksTargetServer(): boolean {
+  const settingsPath = join(homedir(), ".claude", "settings.json");
+
+  try {
+    const content = readFileSync(settingsPath, "utf-8");
+    const settings: ClaudeSettings = JSON.parse(content);
+    // Compare JSON-escaped, as the command contains quotes
+    const command = JSON.stringify(getHookCommand(getServerUrl(), getAuthToken())).slice(1, -1);
+    return JSON.stringify(settings.hooks ?? {}).includes(command);
+  } catch {
+    return false;
+  }
+}
+
 function removeStatuslineIntegration(): void {
   const claudeDir = join(homedir(), ".claude");
   const statuslinePath = join(claudeDir, "statusline.sh");
@@ -243,19 +292,11 @@ function removeStatuslineIntegration(): void {
   try {
     const content = readFileSync(statuslinePath, "utf-8");
 
-    if (content.includes("## CLAUDE BLOCKER SCRIPT - START")) {
+    if (content.includes(STATUSLINE_START_MARKER)) {
       // Remove the Claude Blocker section
-      const startMarker = "## CLAUDE BLOCKER SCRIPT - START";
-      const endMarker = "## CLAUDE BLOCKER SCRIPT - END";
-
-      const startIndex = content.indexOf(startMarker);
-      const endIndex = content.indexOf(endMarker);
-
-      if (startIndex !== -1 && endIndex !== -1) {
-        const before = content.substring(0, startIndex);
-        const after = content.substring(endIndex + endMarker.length);
-
-        writeFileSync(statuslinePath, before + after);
+      const stripped = stripStatuslineSection(content);
+      if (stripped !== content) {
+        writeFileSync(statuslinePath, stripped);
         console.log("✓ Claude Blocker integration removed from statusline.sh");
       }
     }
@@ -278,7 +319,7 @@ export function removeHooks(): void {
 
     if (settings.hooks) {
       // Remove our hooks
-      for (const hookName of Object.keys(HOOKS_CONFIG)) {
+      for (const hookName of HOOK_EVENTS) {
         delete settings.hooks[hookName];
       }
 
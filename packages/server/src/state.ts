@@ -1,10 +1,12 @@
 import path from "path";
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
 import { homedir } from "os";
-import type { Session, HookPayload, ServerMessage, InternalSession, ToolCall, InternalToolCall, TokenBreakdown, TrackedSubagent } from "./types.js";
-import { SESSION_TIMEOUT_MS, USER_INPUT_TOOLS } from "./types.js";
+import type { Session, HookPayload, ServerMessage, InternalSession, ToolCall, InternalToolCall, TokenBreakdown, TrackedSubagent, HistoricalSession } from "./types.js";
+import { SESSION_TIMEOUT_MS, TYPING_TTL_MS, MAX_TYPING_TTL_MS, USER_INPUT_TOOLS } from "./types.js";
 import { initializePricing, getPricing, calculateCost, type ModelPricing } from "./price-resolver.js";
-import { loadHistoricalStats, saveHistoricalStats, getDateKey } from "./backfill.js";
+import { eventStore } from "./event-store.js";
+import { loadServerConfig } from "./config.js";
+import { computeBudgetStatus } from "./budget.js";
 
 // Initialize pricing on module load (non-blocking)
 initializePricing();
@@ -187,40 +189,34 @@ type StateChangeCallback = (message: ServerMessage) => void;
 
 // Persistence configuration
 const DATA_DIR = path.join(homedir(), ".claude-blocker");
-const DATA_FILE = path.join(DATA_DIR, "sessions.json");
-const HISTORY_MAX_DAYS = 7;
+const LIVE_SESSIONS_FILE = path.join(DATA_DIR, "live-sessions.json");
 
-interface PersistedData {
+// Snapshot of in-flight sessions (Dates serialized as ISO strings)
+interface LiveSessionsSnapshot {
   version: number;
-  history: HistoricalSession[];
-  lastSaved: string;
+  savedAt: string;
+  sessions: SerializedSession[];
+  sessionInitialCwds: Record<string, string>;
+  activeSubagents: Record<string, SerializedSubagent[]>;
 }
 
-interface HistoricalSession {
-  id: string;
-  projectName: string;
-  initialCwd?: string; // Original project directory
-  cwd?: string; // Current directory at session end
+type SerializedToolCall = Omit<InternalToolCall, "timestamp"> & { timestamp: string };
+
+type SerializedSession = Omit<
+  InternalSession,
+  "startTime" | "lastActivity" | "recentTools" | "waitingForInputSince" | "lastStatusChangeTime"
+> & {
   startTime: string;
-  endTime: string;
-  lastTool?: string;
-  toolCount: number;
-  totalDurationMs: number;
-  // Token tracking (detailed breakdown)
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationTokens: number;
-  cacheReadTokens: number;
-  totalTokens: number;
-  costUsd: number;
-  // Model tracking
-  model?: string;
-  modelBreakdown?: Record<string, TokenBreakdown>;
-  // Time breakdown
-  totalWorkingMs?: number;
-  totalWaitingMs?: number;
-  totalIdleMs?: number;
-}
+  lastActivity: string;
+  recentTools: SerializedToolCall[];
+  waitingForInputSince?: string;
+  lastStatusChangeTime: string;
+};
+
+type SerializedSubagent = Omit<TrackedSubagent, "startTime" | "endTime"> & {
+  startTime: string;
+  endTime?: string;
+};
 
 // Derive project name from cwd or use truncated session ID
 function getProjectName(cwd?: string, sessionId?: string): string {
@@ -233,41 +229,64 @@ function getProjectName(cwd?: string, sessionId?: string): string {
   return "Unknown";
 }
 
-// Load persisted data from disk
-function loadPersistedData(): PersistedData {
+function serializeSession(session: InternalSession): SerializedSession {
+  return {
+    ...session,
+    startTime: session.startTime.toISOString(),
+    lastActivity: session.lastActivity.toISOString(),
+    recentTools: session.recentTools.map((t) => ({ ...t, timestamp: t.timestamp.toISOString() })),
+    waitingForInputSince: session.waitingForInputSince?.toISOString(),
+    lastStatusChangeTime: session.lastStatusChangeTime.toISOString(),
+  };
+}
+
+function deserializeSession(session: SerializedSession): InternalSession {
+  return {
+    ...session,
+    startTime: new Date(session.startTime),
+    lastActivity: new Date(session.lastActivity),
+    recentTools: (session.recentTools ?? []).map((t) => ({ ...t, timestamp: new Date(t.timestamp) })),
+    waitingForInputSince: session.waitingForInputSince ? new Date(session.waitingForInputSince) : undefined,
+    lastStatusChangeTime: new Date(session.lastStatusChangeTime),
+  };
+}
+
+// Load the in-flight session snapshot written before the last shutdown/crash
+function loadLiveSessionsSnapshot(): LiveSessionsSnapshot | null {
   try {
-    if (existsSync(DATA_FILE)) {
-      const raw = readFileSync(DATA_FILE, "utf-8");
-      const data = JSON.parse(raw) as PersistedData;
-      // Clean up old history entries
-      const cutoff = Date.now() - HISTORY_MAX_DAYS * 24 * 60 * 60 * 1000;
-      data.history = data.history.filter((h) => new Date(h.endTime).getTime() > cutoff);
-      return data;
+    if (existsSync(LIVE_SESSIONS_FILE)) {
+      const raw = readFileSync(LIVE_SESSIONS_FILE, "utf-8");
+      return JSON.parse(raw) as LiveSessionsSnapshot;
     }
   } catch (err) {
-    console.error("Failed to load persisted data:", err);
+    console.error("Failed to load live sessions snapshot:", err);
   }
-  return { version: 1, history: [], lastSaved: new Date().toISOString() };
+  return null;
 }
 
-// Save data to disk
-function savePersistedData(data: PersistedData): void {
+// Write the snapshot to a temp file and rename it into place so a crash mid-write
+// never leaves a truncated snapshot behind
+function saveLiveSessionsSnapshot(snapshot: LiveSessionsSnapshot): void {
   try {
     if (!existsSync(DATA_DIR)) {
       mkdirSync(DATA_DIR, { recursive: true });
     }
-    data.lastSaved = new Date().toISOString();
-    writeFileSync(DATA_FILE, JSON.stringify(data, null, 2));
-
-    // Calculate totals for logging
-    const totalTokens = data.history.reduce((sum, h) => sum + h.totalTokens, 0);
-    const totalCost = data.history.reduce((sum, h) => sum + h.costUsd, 0);
-    console.log(`[Save] ${DATA_FILE} - ${data.history.length} sessions, ${totalTokens} total tokens, $${totalCost.toFixed(4)} total cost`);
+    const tmpFile = `${LIVE_SESSIONS_FILE}.tmp`;
+    writeFileSync(tmpFile, JSON.stringify(snapshot));
+    renameSync(tmpFile, LIVE_SESSIONS_FILE);
   } catch (err) {
-    console.error("Failed to save persisted data:", err);
+    console.error("Failed to save live sessions snapshot:", err);
   }
 }
 
+// AskUserQuestion sends { questions: [{ question }] }; other input tools a plain question string
+function getQuestionText(input: Record<string, unknown>): string | undefined {
+  if (typeof input.question === "string") return input.question;
+  if (!Array.isArray(input.questions)) return undefined;
+  const first = input.questions[0] as { question?: unknown } | undefined;
+  return typeof first?.question === "string" ? first.question : undefined;
+}
+
 // Convert internal tool call to shared ToolCall format
 function toToolCall(internal: InternalToolCall): ToolCall {
   const toolCall: ToolCall = {
@@ -282,6 +301,8 @@ function toToolCall(internal: InternalToolCall): ToolCall {
     if (typeof internal.input.command === "string") input.command = internal.input.command;
     if (typeof internal.input.pattern === "string") input.pattern = internal.input.pattern;
     if (typeof internal.input.description === "string") input.description = internal.input.description;
+    const question = getQuestionText(internal.input);
+    if (question) input.question = question;
     if (Object.keys(input).length > 0) toolCall.input = input;
   }
 
@@ -319,15 +340,15 @@ class SessionState {
   // Track first-seen cwd for each session ID to preserve original project directory
   private sessionInitialCwds: Map<string, string> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
-  private persistedData: PersistedData;
-  private saveDebounceTimer: NodeJS.Timeout | null = null;
+  private snapshotDebounceTimer: NodeJS.Timeout | null = null;
   // Track active subagents by session ID -> agent ID -> TrackedSubagent
   private activeSubagents: Map<string, Map<string, TrackedSubagent>> = new Map();
+  // Until when the user is typing a prompt (keeps sites unblocked in the extension)
+  private typingUntil = 0;
 
   constructor() {
-    // Load persisted data on startup
-    this.persistedData = loadPersistedData();
-    console.log(`Loaded ${this.persistedData.history.length} historical sessions`);
+    // Pick up sessions that were running when the server last stopped
+    this.restoreLiveSessions();
 
     // Start cleanup interval for stale sessions
     this.cleanupInterval = setInterval(() => {
@@ -335,68 +356,105 @@ class SessionState {
     }, 30_000); // Check every 30 seconds
   }
 
-  // Debounced save to avoid too frequent disk writes
-  private scheduleSave(): void {
-    if (this.saveDebounceTimer) {
-      clearTimeout(this.saveDebounceTimer);
+  // Write the in-flight sessions snapshot immediately
+  private persistLiveSessions(): void {
+    if (this.snapshotDebounceTimer) {
+      clearTimeout(this.snapshotDebounceTimer);
+      this.snapshotDebounceTimer = null;
     }
-    this.saveDebounceTimer = setTimeout(() => {
-      savePersistedData(this.persistedData);
-    }, 5000); // Save after 5 seconds of inactivity
+
+    const activeSubagents: Record<string, SerializedSubagent[]> = {};
+    for (const [sessionId, subagents] of this.activeSubagents) {
+      if (subagents.size === 0) continue;
+      activeSubagents[sessionId] = Array.from(subagents.values()).map((subagent) => ({
+        ...subagent,
+        startTime: subagent.startTime.toISOString(),
+        endTime: subagent.endTime?.toISOString(),
+      }));
+    }
+
+    saveLiveSessionsSnapshot({
+      version: 1,
+      savedAt: new Date().toISOString(),
+      sessions: Array.from(this.sessions.values()).map(serializeSession),
+      sessionInitialCwds: Object.fromEntries(this.sessionInitialCwds),
+      activeSubagents,
+    });
   }
 
-  // Add or update a session in history when it ends
-  // If session already exists (resumed session), update it instead of adding duplicate
-  private addToHistory(session: InternalSession): void {
-    const now = new Date();
+  // Debounced snapshot for high-frequency updates (statusline metrics)
+  private scheduleLiveSnapshot(): void {
+    if (this.snapshotDebounceTimer) {
+      clearTimeout(this.snapshotDebounceTimer);
+    }
+    this.snapshotDebounceTimer = setTimeout(() => {
+      this.persistLiveSessions();
+    }, 1000);
+  }
 
-    // Check if this session already exists in history
-    const existingIndex = this.persistedData.history.findIndex((h) => h.id === session.id);
+  // Restore sessions from the last snapshot, ending the ones that went stale while we were down
+  private restoreLiveSessions(): void {
+    const snapshot = loadLiveSessionsSnapshot();
+    if (!snapshot) return;
 
-    if (existingIndex !== -1) {
-      // Update existing entry - transcript gives cumulative totals
-      const existing = this.persistedData.history[existingIndex];
-      const oldTokens = existing.totalTokens;
-      const oldCost = existing.costUsd;
+    for (const [sessionId, cwd] of Object.entries(snapshot.sessionInitialCwds ?? {})) {
+      this.sessionInitialCwds.set(sessionId, cwd);
+    }
 
-      existing.endTime = now.toISOString();
-      existing.lastTool = session.lastTool;
-      existing.toolCount = session.toolCount;
-      existing.totalDurationMs = now.getTime() - new Date(existing.startTime).getTime();
-      // Token data from transcript is cumulative, so just use new values
-      existing.inputTokens = session.inputTokens;
-      existing.outputTokens = session.outputTokens;
-      existing.cacheCreationTokens = session.cacheCreationTokens;
-      existing.cacheReadTokens = session.cacheReadTokens;
-      existing.totalTokens = session.totalTokens;
-      existing.costUsd = session.costUsd;
-      existing.model = session.model;
-      existing.modelBreakdown = session.modelBreakdown;
-      // Time breakdown (cumulative from all runs)
-      existing.totalWorkingMs = session.accumulatedWorkingMs;
-      existing.totalWaitingMs = session.accumulatedWaitingMs;
-      existing.totalIdleMs = session.accumulatedIdleMs;
+    for (const [sessionId, subagents] of Object.entries(snapshot.activeSubagents ?? {})) {
+      const sessionSubagents = new Map<string, TrackedSubagent>();
+      for (const subagent of subagents) {
+        sessionSubagents.set(subagent.id, {
+          ...subagent,
+          startTime: new Date(subagent.startTime),
+          endTime: subagent.endTime ? new Date(subagent.endTime) : undefined,
+        });
+      }
+      this.activeSubagents.set(sessionId, sessionSubagents);
+    }
+
+    const now = Date.now();
+    let restored = 0;
+    let expired = 0;
 
-      // Move to front of history (most recent)
-      this.persistedData.history.splice(existingIndex, 1);
-      this.persistedData.history.unshift(existing);
+    for (const serialized of snapshot.sessions ?? []) {
+      const session = deserializeSession(serialized);
+      if (now - session.lastActivity.getTime() > SESSION_TIMEOUT_MS) {
+        // Close it out at its last known activity so server downtime isn't counted
+        this.finalizeTimeTracking(session, session.lastActivity.getTime());
+        this.addToHistory(session, undefined, session.lastActivity);
+        this.activeSubagents.delete(session.id);
+        expired++;
+      } else {
+        this.sessions.set(session.id, session);
+        restored++;
+      }
+    }
 
-      this.scheduleSave();
-      console.log(`[History] Updated: ${session.projectName} (resumed) tokens=${existing.totalTokens} (was ${oldTokens}) cost=$${existing.costUsd.toFixed(4)} (was $${oldCost.toFixed(4)})`);
-      return;
+    console.log(`Restored ${restored} live sessions (${expired} expired while offline)`);
+    if (expired > 0) {
+      this.persistLiveSessions();
     }
+  }
+
+  // Record a session end in the event store, which updates history and daily stats
+  // If session already exists (resumed session), its history entry is replaced instead of duplicated
+  private addToHistory(session: InternalSession, transcriptPath?: string, now: Date = new Date()): void {
+    const existing = eventStore.findHistoricalSession(session.id);
+    // Resumed sessions keep their original start time
+    const startTime = existing ? existing.startTime : session.startTime.toISOString();
 
-    // New session - add to history
     const historicalSession: HistoricalSession = {
       id: session.id,
       projectName: session.projectName,
       initialCwd: session.initialCwd,
       cwd: session.cwd,
-      startTime: session.startTime.toISOString(),
+      startTime,
       endTime: now.toISOString(),
       lastTool: session.lastTool,
       toolCount: session.toolCount,
-      totalDurationMs: now.getTime() - session.startTime.getTime(),
+      totalDurationMs: now.getTime() - new Date(startTime).getTime(),
+      // Token data from transcript is cumulative, so just use new values
       inputTokens: session.inputTokens,
       outputTokens: session.outputTokens,
       cacheCreationTokens: session.cacheCreationTokens,
@@ -405,118 +463,47 @@ class SessionState {
       costUsd: session.costUsd,
       model: session.model,
       modelBreakdown: session.modelBreakdown,
+      // Time breakdown (cumulative from all runs)
       totalWorkingMs: session.accumulatedWorkingMs,
       totalWaitingMs: session.accumulatedWaitingMs,
       totalIdleMs: session.accumulatedIdleMs,
     };
 
-    // Add to beginning of history
-    this.persistedData.history.unshift(historicalSession);
+    eventStore.recordSessionEnded(historicalSession, transcriptPath);
 
-    // Keep only last 7 days
-    const cutoff = Date.now() - HISTORY_MAX_DAYS * 24 * 60 * 60 * 1000;
-    this.persistedData.history = this.persistedData.history.filter(
-      (h) => new Date(h.endTime).getTime() > cutoff
-    );
-
-    this.scheduleSave();
-    console.log(`[History] Added: ${session.projectName} tokens=${historicalSession.totalTokens} cost=$${historicalSession.costUsd.toFixed(4)}`);
-  }
-
-  // Update daily stats in historical-stats.json when a session ends
-  private updateDailyStatsOnSessionEnd(session: InternalSession, transcriptPath?: string): void {
-    try {
-      const stats = loadHistoricalStats();
-      const dateKey = getDateKey(new Date());
-
-      const existing = stats.dailyStats[dateKey] || {
-        date: dateKey,
-        totalWorkingMs: 0,
-        totalWaitingMs: 0,
-        totalIdleMs: 0,
-        sessionsStarted: 0,
-        sessionsEnded: 0,
-        totalInputTokens: 0,
-        totalOutputTokens: 0,
-        totalCacheCreationTokens: 0,
-        totalCacheReadTokens: 0,
-        totalCostUsd: 0,
-        modelBreakdown: {},
-      };
-
-      existing.sessionsEnded++;
-      existing.totalWorkingMs += session.accumulatedWorkingMs;
-      existing.totalWaitingMs += session.accumulatedWaitingMs;
-      existing.totalIdleMs += session.accumulatedIdleMs;
-      existing.totalInputTokens += session.inputTokens;
-      existing.totalOutputTokens += session.outputTokens;
-      existing.totalCacheCreationTokens += session.cacheCreationTokens;
-      existing.totalCacheReadTokens += session.cacheReadTokens;
-      existing.totalCostUsd += session.costUsd;
-
-      // Merge model breakdown
-      if (session.modelBreakdown) {
-        if (!existing.modelBreakdown) existing.modelBreakdown = {};
-        for (const [model, tokens] of Object.entries(session.modelBreakdown)) {
-          const m = existing.modelBreakdown[model] || {
-            inputTokens: 0,
-            outputTokens: 0,
-            cacheCreationTokens: 0,
-            cacheReadTokens: 0,
-          };
-          m.inputTokens += tokens.inputTokens;
-          m.outputTokens += tokens.outputTokens;
-          m.cacheCreationTokens += tokens.cacheCreationTokens;
-          m.cacheReadTokens += tokens.cacheReadTokens;
-          existing.modelBreakdown[model] = m;
-        }
-      }
-
-      stats.dailyStats[dateKey] = existing;
-
-      // Mark transcript as processed to avoid double-counting in backfill
-      if (transcriptPath) {
-        stats.processedTranscripts[transcriptPath] = true;
-      }
-
-      saveHistoricalStats(stats);
-    } catch (err) {
-      console.error("[DailyStats] Error updating on session end:", err);
+    if (existing) {
+      console.log(`[History] Updated: ${session.projectName} (resumed) tokens=${historicalSession.totalTokens} (was ${existing.totalTokens}) cost=$${historicalSession.costUsd.toFixed(4)} (was $${existing.costUsd.toFixed(4)})`);
+    } else {
+      console.log(`[History] Added: ${session.projectName} tokens=${historicalSession.totalTokens} cost=$${historicalSession.costUsd.toFixed(4)}`);
     }
   }
 
-  // Increment sessionsStarted in daily stats
-  private incrementSessionsStarted(): void {
-    try {
-      const stats = loadHistoricalStats();
-      const dateKey = getDateKey(new Date());
-
-      const existing = stats.dailyStats[dateKey] || {
-        date: dateKey,
-        totalWorkingMs: 0,
-        totalWaitingMs: 0,
-        totalIdleMs: 0,
-        sessionsStarted: 0,
-        sessionsEnded: 0,
-        totalInputTokens: 0,
-        totalOutputTokens: 0,
-        totalCacheCreationTokens: 0,
-        totalCacheReadTokens: 0,
-        totalCostUsd: 0,
-        modelBreakdown: {},
-      };
+  // Get session history
+  getHistory(): HistoricalSession[] {
+    return eventStore.getHistory();
+  }
 
-      existing.sessionsStarted++;
-      stats.dailyStats[dateKey] = existing;
-      saveHistoricalStats(stats);
-    } catch (err) {
-      console.error("[DailyStats] Error incrementing sessionsStarted:", err);
-    }
+  // Directories of a live session (null if it isn't running) - used to find its process
+  getLiveSessionDirectories(sessionId: string): string[] | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    const dirs = [session.cwd, session.initialCwd].filter((dir): dir is string => !!dir && path.isAbsolute(dir));
+    return Array.from(new Set(dirs.map((dir) => path.resolve(dir))));
   }
 
-  // Get session history
-  getHistory(): HistoricalSession[] {
-    return this.persistedData.history;
+  // Directories of live and recorded sessions - the only paths quick actions may open
+  getKnownDirectories(): Set<string> {
+    const directories = new Set<string>();
+    const sessions: Array<{ cwd?: string; initialCwd?: string }> = [
+      ...this.sessions.values(),
+      ...eventStore.getHistory(),
+    ];
+    for (const session of sessions) {
+      for (const dir of [session.cwd, session.initialCwd]) {
+        if (dir && path.isAbsolute(dir)) directories.add(path.resolve(dir));
+      }
+    }
+    return directories;
   }
 
   subscribe(callback: StateChangeCallback): () => void {
@@ -540,18 +527,42 @@ class SessionState {
     const waitingForInput = internalSessions.filter(
       (s) => s.status === "waiting_for_input"
     ).length;
+    const budget = computeBudgetStatus(
+      loadServerConfig().budget,
+      eventStore.getDailyStats(),
+      eventStore.getHistory(),
+      sessions
+    );
     return {
       type: "state",
       blocked: working === 0,
       sessions,
       working,
       waitingForInput,
+      budget,
+      typingUntil: this.typingUntil > Date.now() ? this.typingUntil : null,
     };
   }
 
+  // Re-send state to subscribers (e.g. after budget limits change)
+  refresh(): void {
+    this.broadcast();
+  }
+
+  // Typing signal from the terminal side; each signal extends the window. Returns when it ends
+  markTyping(ttlMs: number = TYPING_TTL_MS): number {
+    const ttl = Math.min(Math.max(ttlMs, 1000), MAX_TYPING_TTL_MS);
+    this.typingUntil = Math.max(this.typingUntil, Date.now() + ttl);
+    this.broadcast();
+    return this.typingUntil;
+  }
+
   handleHook(payload: HookPayload): void {
     const { session_id, hook_event_name } = payload;
 
+    // Write-ahead: the raw event is on disk before we act on it
+    eventStore.recordHook(payload);
+
     switch (hook_event_name) {
       case "SessionStart": {
         const now = new Date();
@@ -562,7 +573,7 @@ class SessionState {
         const initialCwd = this.sessionInitialCwds.get(session_id);
 
         // Check if this session exists in history (resumed session)
-        const existingHistoricalSession = this.persistedData.history.find((h) => h.id === session_id);
+        const existingHistoricalSession = eventStore.findHistoricalSession(session_id);
 
         const newSession: InternalSession = {
           id: session_id,
@@ -595,7 +606,7 @@ class SessionState {
         if (existingHistoricalSession) {
           console.log(`Session resumed: ${newSession.projectName} (${existingHistoricalSession.totalTokens} tokens, $${existingHistoricalSession.costUsd.toFixed(4)} from previous run)`);
         } else {
-          this.incrementSessionsStarted();
+          eventStore.recordSessionStarted(session_id, now);
           console.log(`Session started: ${getProjectName(initialCwd || payload.cwd, session_id)}`);
         }
         break;
@@ -630,22 +641,9 @@ class SessionState {
             }
           }
           // Finalize time tracking — accumulate remaining time in current state
-          const finalNow = Date.now();
-          const timeInFinalState = finalNow - endingSession.lastStatusChangeTime.getTime();
-          switch (endingSession.status) {
-            case "working":
-              endingSession.accumulatedWorkingMs += timeInFinalState;
-              break;
-            case "waiting_for_input":
-              endingSession.accumulatedWaitingMs += timeInFinalState;
-              break;
-            case "idle":
-              endingSession.accumulatedIdleMs += timeInFinalState;
-              break;
-          }
+          this.finalizeTimeTracking(endingSession, Date.now());
 
-          this.addToHistory(endingSession);
-          this.updateDailyStatsOnSessionEnd(endingSession, transcriptPath);
+          this.addToHistory(endingSession, transcriptPath);
           console.log(
             `Session ended: ${endingSession.projectName} ` +
             `(working=${Math.round(endingSession.accumulatedWorkingMs / 1000)}s ` +
@@ -832,6 +830,7 @@ class SessionState {
       }
     }
 
+    this.persistLiveSessions();
     this.broadcast();
   }
 
@@ -896,6 +895,23 @@ class SessionState {
     session.lastStatusChangeTime = new Date(now);
   }
 
+  // Accumulate time spent in the current state up to `until` (ms timestamp)
+  private finalizeTimeTracking(session: InternalSession, until: number): void {
+    const timeInFinalState = Math.max(0, until - session.lastStatusChangeTime.getTime());
+    switch (session.status) {
+      case "working":
+        session.accumulatedWorkingMs += timeInFinalState;
+        break;
+      case "waiting_for_input":
+        session.accumulatedWaitingMs += timeInFinalState;
+        break;
+      case "idle":
+        session.accumulatedIdleMs += timeInFinalState;
+        break;
+    }
+    session.lastStatusChangeTime = new Date(until);
+  }
+
   // Accumulate token counts from hook payload
   private accumulateTokens(session: InternalSession, payload: HookPayload): void {
     if (payload.input_tokens) {
@@ -922,21 +938,9 @@ class SessionState {
     for (const [id, session] of this.sessions) {
       if (now - session.lastActivity.getTime() > SESSION_TIMEOUT_MS) {
         // Finalize time tracking before adding to history
-        const timeInFinalState = now - session.lastStatusChangeTime.getTime();
-        switch (session.status) {
-          case "working":
-            session.accumulatedWorkingMs += timeInFinalState;
-            break;
-          case "waiting_for_input":
-            session.accumulatedWaitingMs += timeInFinalState;
-            break;
-          case "idle":
-            session.accumulatedIdleMs += timeInFinalState;
-            break;
-        }
+        this.finalizeTimeTracking(session, now);
         // Add to history before removing
         this.addToHistory(session);
-        this.updateDailyStatsOnSessionEnd(session);
         console.log(`Session timed out: ${session.projectName}`);
         this.sessions.delete(id);
         removed++;
@@ -944,6 +948,7 @@ class SessionState {
     }
 
     if (removed > 0) {
+      this.persistLiveSessions();
       this.broadcast();
     }
   }
@@ -978,15 +983,13 @@ class SessionState {
     session.totalTokens = metrics.totalTokens;
     session.lastActivity = new Date();
 
+    this.scheduleLiveSnapshot();
     this.broadcast();
   }
 
   destroy(): void {
-    // Save any pending changes immediately
-    if (this.saveDebounceTimer) {
-      clearTimeout(this.saveDebounceTimer);
-    }
-    savePersistedData(this.persistedData);
+    // Keep live sessions on disk so they are restored on next start
+    this.persistLiveSessions();
 
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
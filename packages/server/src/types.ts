@@ -12,12 +12,34 @@ export type {
   ModelPricing,
   DailyStats,
   HistoricalSession as SharedHistoricalSession,
+  RetentionDays,
+  ServerConfig,
+  BudgetPeriod,
+  BudgetLimits,
+  BudgetConfig,
+  BudgetPeriodStatus,
+  BudgetStatus,
+  TerminalApp,
+  EditorApp,
+  PlatformId,
+  PlatformCapabilities,
+  ActionErrorCode,
+  ActionResponse,
+  DailyReport,
 } from "@claude-blocker-advanced/shared";
 
 export {
   DEFAULT_PORT,
+  DEFAULT_HOST,
   SESSION_TIMEOUT_MS,
+  TYPING_TTL_MS,
+  MAX_TYPING_TTL_MS,
   USER_INPUT_TOOLS,
+  DEFAULT_RETENTION_DAYS,
+  DEFAULT_BUDGET_CONFIG,
+  EDITOR_COMMANDS,
+  TERMINAL_OPTIONS,
+  buildDailyReport,
 } from "@claude-blocker-advanced/shared";
 
 // Internal tool call (with Date objects for easier manipulation)
@@ -66,3 +88,30 @@ export interface TrackedSubagent {
   tokens?: TokenBreakdown;
   model?: string;
 }
+
+// Completed session as recorded in history (ISO timestamps)
+export interface HistoricalSession {
+  id: string;
+  projectName: string;
+  initialCwd?: string; // Original project directory
+  cwd?: string; // Current directory at session end
+  startTime: string;
+  endTime: string;
+  lastTool?: string;
+  toolCount: number;
+  totalDurationMs: number;
+  // Token tracking (detailed breakdown)
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  // Model tracking
+  model?: string;
+  modelBreakdown?: Record<string, TokenBreakdown>;
+  // Time breakdown
+  totalWorkingMs?: number;
+  totalWaitingMs?: number;
+  totalIdleMs?: number;
+}
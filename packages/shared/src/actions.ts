@@ -1,9 +1,87 @@
 // Shared action handlers for session management
 
-import type { EditorApp } from "./types";
-import { EDITOR_COMMANDS } from "./types";
+import type { EditorApp, ActionErrorCode } from "./types";
+import { EDITOR_COMMANDS, DEFAULT_HOST, DEFAULT_PORT } from "./types";
 
-const SERVER_URL = "http://localhost:8765";
+/**
+ * Outcome of a server action request (code and error come from the server's error response)
+ */
+export interface ServerActionResult {
+  ok: boolean;
+  statusText: string;
+  code?: ActionErrorCode;
+  error?: string;
+  focused?: boolean; // focus-session: an existing terminal was focused
+  appActivated?: boolean; // focus-session: only the terminal app came to the front
+}
+
+/**
+ * Sends a POST to a server action route and reports whether it succeeded
+ */
+export type ServerActionRequest = (
+  path: string,
+  body: Record<string, unknown>
+) => Promise<ServerActionResult>;
+
+let sendServerAction: ServerActionRequest = async (path, body) => {
+  const response = await fetch(`http://${DEFAULT_HOST}:${DEFAULT_PORT}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  return {
+    ok: response.ok,
+    statusText: response.statusText,
+    code: data?.code,
+    error: data?.error,
+    focused: data?.focused,
+    appActivated: data?.appActivated,
+  };
+};
+
+/**
+ * Error thrown when a server action fails; `code` is missing when the server wasn't reached
+ */
+export class SessionActionError extends Error {
+  readonly code?: ActionErrorCode;
+
+  constructor(message: string, code?: ActionErrorCode) {
+    super(message);
+    this.name = "SessionActionError";
+    this.code = code;
+  }
+}
+
+/**
+ * Failures where copying a command to the clipboard wouldn't help (the path itself is the problem)
+ */
+const NO_FALLBACK_CODES: ActionErrorCode[] = ["invalid_request", "unknown_path", "path_not_found", "not_focusable"];
+
+function shouldFallBack(err: unknown): boolean {
+  const code = err instanceof SessionActionError ? err.code : undefined;
+  return !code || !NO_FALLBACK_CODES.includes(code);
+}
+
+async function requestServerAction(
+  path: string,
+  body: Record<string, unknown>,
+  failure: string
+): Promise<ServerActionResult> {
+  const response = await sendServerAction(path, body);
+  if (!response.ok) {
+    throw new SessionActionError(`${failure}: ${response.error || response.statusText}`, response.code);
+  }
+  return response;
+}
+
+/**
+ * Route action requests through another transport
+ * (the extension proxies them through its service worker, which holds the server address and pairing token)
+ */
+export function setServerActionHandler(handler: ServerActionRequest): void {
+  sendServerAction = handler;
+}
 
 export interface SessionActionParams {
   sessionId?: string;
@@ -37,46 +115,56 @@ export async function copyCwd(cwd: string): Promise<void> {
  * Open folder in Finder
  */
 export async function openInFinder(cwd: string): Promise<void> {
-  const response = await fetch(`${SERVER_URL}/action/open-finder`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ path: cwd }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to open folder: ${response.statusText}`);
-  }
+  await requestServerAction("/action/open-finder", { path: cwd }, "Failed to open folder");
 }
 
 /**
- * Open project in terminal and run resume command
- * Falls back to copying command to clipboard if server request fails
+ * Open project in terminal and run resume command (the server builds the command from the session ID)
+ * Falls back to copying command to clipboard if the server can't launch the terminal
  */
 export async function openInTerminal(
   cwd: string,
   sessionId: string,
   terminalApp: string = "warp"
 ): Promise<void> {
-  const command = `claude --resume ${sessionId}`;
-
   try {
-    const response = await fetch(`${SERVER_URL}/action/open-terminal`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        path: cwd,
-        command,
-        app: terminalApp,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to open terminal: ${response.statusText}`);
+    await requestServerAction(
+      "/action/open-terminal",
+      { path: cwd, sessionId, app: terminalApp },
+      "Failed to open terminal"
+    );
+  } catch (err) {
+    if (shouldFallBack(err)) {
+      // Fallback: copy full command with cd
+      await navigator.clipboard.writeText(`cd "${cwd}" && claude --resume ${sessionId}`);
     }
+    throw err; // Re-throw so caller knows it failed
+  }
+}
+
+/**
+ * Focus the terminal already running a live session; the server resumes it in a new terminal
+ * only when no running process is found. `focused` is true if an existing terminal was focused,
+ * `appActivated` if only its app could be brought to the front
+ */
+export async function focusSession(
+  cwd: string,
+  sessionId: string,
+  terminalApp: string = "warp"
+): Promise<{ focused: boolean; appActivated: boolean }> {
+  try {
+    const response = await requestServerAction(
+      "/action/focus-session",
+      { path: cwd, sessionId, app: terminalApp },
+      "Failed to focus session"
+    );
+    return { focused: !!response.focused, appActivated: !!response.appActivated };
   } catch (err) {
-    // Fallback: copy full command with cd
-    await navigator.clipboard.writeText(`cd "${cwd}" && ${command}`);
-    throw err; // Re-throw so caller knows it fell back
+    if (shouldFallBack(err)) {
+      // Fallback: copy full command with cd
+      await navigator.clipboard.writeText(`cd "${cwd}" && claude --resume ${sessionId}`);
+    }
+    throw err;
   }
 }
 
@@ -89,23 +177,14 @@ export async function openInEditor(
   editorApp: EditorApp = "cursor"
 ): Promise<void> {
   try {
-    const response = await fetch(`${SERVER_URL}/action/open-editor`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        path: cwd,
-        app: editorApp,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to open editor: ${response.statusText}`);
-    }
+    await requestServerAction("/action/open-editor", { path: cwd, app: editorApp }, "Failed to open editor");
   } catch (err) {
-    // Fallback: copy editor command to clipboard
-    const editorCommand = EDITOR_COMMANDS[editorApp];
-    await navigator.clipboard.writeText(`${editorCommand} "${cwd}"`);
-    throw err; // Re-throw so caller knows it fell back
+    if (shouldFallBack(err)) {
+      // Fallback: copy editor command to clipboard
+      const editorCommand = EDITOR_COMMANDS[editorApp];
+      await navigator.clipboard.writeText(`${editorCommand} "${cwd}"`);
+    }
+    throw err;
   }
 }
 
@@ -115,7 +194,14 @@ export async function openInEditor(
 export async function executeSessionAction(
   action: string,
   params: SessionActionParams
-): Promise<{ success: boolean; fallback?: boolean; error?: string }> {
+): Promise<{
+  success: boolean;
+  fallback?: boolean;
+  focused?: boolean;
+  appActivated?: boolean;
+  error?: string;
+  code?: ActionErrorCode;
+}> {
   try {
     switch (action) {
       case "copy-id":
@@ -146,8 +232,22 @@ export async function executeSessionAction(
           await openInTerminal(params.cwd, params.sessionId, params.terminalApp);
           return { success: true };
         } catch (err) {
+          if (!shouldFallBack(err)) throw err;
+          // Fallback succeeded (copied to clipboard)
+          return { success: true, fallback: true, code: (err as SessionActionError).code };
+        }
+
+      case "focus-session":
+        if (!params.cwd || !params.sessionId) {
+          throw new Error("Working directory and session ID required");
+        }
+        try {
+          const { focused, appActivated } = await focusSession(params.cwd, params.sessionId, params.terminalApp);
+          return { success: true, focused, appActivated };
+        } catch (err) {
+          if (!shouldFallBack(err)) throw err;
           // Fallback succeeded (copied to clipboard)
-          return { success: true, fallback: true };
+          return { success: true, fallback: true, code: (err as SessionActionError).code };
         }
 
       case "open-editor":
@@ -158,8 +258,9 @@ export async function executeSessionAction(
           await openInEditor(params.cwd, params.editorApp);
           return { success: true };
         } catch (err) {
+          if (!shouldFallBack(err)) throw err;
           // Fallback succeeded (copied to clipboard)
-          return { success: true, fallback: true };
+          return { success: true, fallback: true, code: (err as SessionActionError).code };
         }
 
       default:
@@ -169,6 +270,7 @@ export async function executeSessionAction(
     return {
       success: false,
       error: err instanceof Error ? err.message : String(err),
+      code: err instanceof SessionActionError ? err.code : undefined,
     };
   }
 }
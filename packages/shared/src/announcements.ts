@@ -0,0 +1,102 @@
+// Spoken announcements for the "say" sound: user-editable templates with session variables
+import type { ToolCall } from "./types.js";
+
+export type AnnouncementEvent = "onWaiting" | "onReminder" | "onFinished" | "onDisconnected";
+
+export type AnnouncementVariable = "project" | "tool" | "wait" | "cost" | "question";
+
+export interface SpeechConfig {
+  voice: string; // voiceURI from speechSynthesis.getVoices(); empty picks an English voice
+  rate: number; // 0.5-2
+  pitch: number; // 0-2
+  templates: Record<AnnouncementEvent, string>;
+}
+
+export const DEFAULT_ANNOUNCEMENT_TEMPLATES: Record<AnnouncementEvent, string> = {
+  onWaiting: "{project} is waiting for your input. {question}",
+  onReminder: "{project} has been waiting for your input for {wait}",
+  onFinished: "{project} has completed its task",
+  onDisconnected: "{project} has ended",
+};
+
+export const DEFAULT_SPEECH_CONFIG: SpeechConfig = {
+  voice: "",
+  rate: 1,
+  pitch: 1,
+  templates: DEFAULT_ANNOUNCEMENT_TEMPLATES,
+};
+
+export const ANNOUNCEMENT_VARIABLES: Array<{ name: AnnouncementVariable; description: string }> = [
+  { name: "project", description: "Project name" },
+  { name: "tool", description: "Last tool Claude used" },
+  { name: "wait", description: "How long the session has been waiting, e.g. 5 minutes" },
+  { name: "cost", description: "Session cost so far, e.g. $1.20" },
+  { name: "question", description: "The question Claude asked, when it asked one" },
+];
+
+// Values shown in the options page preview
+export const SAMPLE_ANNOUNCEMENT_VALUES: Record<AnnouncementVariable, string> = {
+  project: "my-app",
+  tool: "Bash",
+  wait: "5 minutes",
+  cost: "$1.20",
+  question: "Should I run the migrations too?",
+};
+
+// The parts of a session the variables are read from
+export interface AnnouncementSession {
+  projectName: string;
+  status?: string;
+  lastTool?: string;
+  waitingForInputSince?: string;
+  costUsd?: number;
+  recentTools?: ToolCall[];
+}
+
+// Stored configs may predate some fields or events
+export function normalizeSpeechConfig(speech: Partial<SpeechConfig> | undefined): SpeechConfig {
+  return {
+    ...DEFAULT_SPEECH_CONFIG,
+    ...speech,
+    templates: { ...DEFAULT_ANNOUNCEMENT_TEMPLATES, ...speech?.templates },
+  };
+}
+
+// "less than a minute", "1 minute", "1 hour 5 minutes"
+export function formatSpokenDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60_000);
+  if (totalMinutes < 1) return "less than a minute";
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} hour${hours === 1 ? "" : "s"}`);
+  if (minutes > 0) parts.push(`${minutes} minute${minutes === 1 ? "" : "s"}`);
+  return parts.join(" ");
+}
+
+export function getAnnouncementValues(
+  session: AnnouncementSession,
+  now = Date.now()
+): Partial<Record<AnnouncementVariable, string>> {
+  const waitingSince = session.waitingForInputSince ? Date.parse(session.waitingForInputSince) : NaN;
+  // Only a pending question: the latest tool call is the question while the session waits on it
+  const question = session.status === "waiting_for_input" ? session.recentTools?.[0]?.input?.question : undefined;
+  return {
+    project: session.projectName,
+    tool: session.lastTool,
+    wait: Number.isNaN(waitingSince) ? undefined : formatSpokenDuration(now - waitingSince),
+    cost: session.costUsd ? `$${session.costUsd.toFixed(2)}` : undefined,
+    question,
+  };
+}
+
+// Replace {variable} placeholders; unknown placeholders are kept, missing values are left out
+export function renderAnnouncement(template: string, values: Partial<Record<AnnouncementVariable, string>>): string {
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      Object.hasOwn(SAMPLE_ANNOUNCEMENT_VALUES, name) ? values[name as AnnouncementVariable] ?? "" : placeholder
+    )
+    .replace(/\s+([.,!?])/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
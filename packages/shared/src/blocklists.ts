@@ -0,0 +1,195 @@
+// Default blocked sites, built-in category presets and the shareable blocklist bundle format
+import type { BlockSchedule } from "./types.js";
+import { normalizeUrlRule, parseUrlRule } from "./url-rules.js";
+
+// Blocked on a fresh install
+export const DEFAULT_BLOCKED_DOMAINS = ["x.com", "youtube.com"];
+
+export type DomainCategoryId = "social" | "video" | "news" | "shopping" | "gaming";
+
+export interface DomainCategory {
+  id: DomainCategoryId;
+  label: string;
+  domains: string[]; // URL rule patterns, already normalized
+}
+
+// Rules match subdomains too, so sites whose subdomains are work tools (amazon.com and the AWS console)
+// are left out
+export const DOMAIN_CATEGORIES: DomainCategory[] = [
+  {
+    id: "social",
+    label: "Social",
+    domains: ["x.com", "twitter.com", "facebook.com", "instagram.com", "reddit.com", "tiktok.com", "threads.net", "bsky.app"],
+  },
+  {
+    id: "video",
+    label: "Video",
+    domains: ["youtube.com", "twitch.tv", "netflix.com", "vimeo.com", "disneyplus.com", "hulu.com"],
+  },
+  {
+    id: "news",
+    label: "News",
+    domains: ["news.ycombinator.com", "cnn.com", "bbc.com", "nytimes.com", "theguardian.com", "washingtonpost.com"],
+  },
+  {
+    id: "shopping",
+    label: "Shopping",
+    domains: ["ebay.com", "etsy.com", "aliexpress.com", "temu.com", "walmart.com"],
+  },
+  {
+    id: "gaming",
+    label: "Gaming",
+    domains: ["store.steampowered.com", "steamcommunity.com", "epicgames.com", "roblox.com", "chess.com", "ign.com"],
+  },
+];
+
+// How many of a category's sites are in a blocklist; "all" when the category is fully on
+export function getCategoryCoverage(category: DomainCategory, blockedDomains: string[]): "all" | "some" | "none" {
+  const count = category.domains.filter((domain) => blockedDomains.includes(domain)).length;
+  if (count === 0) return "none";
+  return count === category.domains.length ? "all" : "some";
+}
+
+// Turn a whole category on or off; other entries keep their order
+export function setCategoryEnabled(category: DomainCategory, blockedDomains: string[], enabled: boolean): string[] {
+  if (!enabled) return blockedDomains.filter((domain) => !category.domains.includes(domain));
+  const missing = category.domains.filter((domain) => !blockedDomains.includes(domain));
+  return [...blockedDomains, ...missing];
+}
+
+export const BLOCKLIST_BUNDLE_FORMAT = "claude-blocker-blocklist";
+export const BLOCKLIST_BUNDLE_VERSION = 1;
+
+/**
+ * A shareable blocklist file. Newer versions may add fields; older readers reject bundles with a higher version
+ */
+export interface BlocklistBundle {
+  format: typeof BLOCKLIST_BUNDLE_FORMAT;
+  version: number;
+  name?: string;
+  exportedAt?: string; // ISO timestamp
+  blockedDomains: string[];
+  allowedUrls: string[];
+  blockSchedules: BlockSchedule[];
+}
+
+// The parts of the extension's settings a bundle carries
+export type BlocklistContents = Pick<BlocklistBundle, "blockedDomains" | "allowedUrls" | "blockSchedules">;
+
+export function createBlocklistBundle(contents: BlocklistContents, name?: string): BlocklistBundle {
+  return {
+    format: BLOCKLIST_BUNDLE_FORMAT,
+    version: BLOCKLIST_BUNDLE_VERSION,
+    ...(name ? { name } : {}),
+    exportedAt: new Date().toISOString(),
+    blockedDomains: contents.blockedDomains,
+    allowedUrls: contents.allowedUrls,
+    blockSchedules: contents.blockSchedules,
+  };
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Normalize and validate a list of rules; returns an error message for the first invalid one
+function parseRuleList(value: unknown, field: string): string[] | string {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return `"${field}" must be a list of rules`;
+
+  const rules: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== "string") return `"${field}" must only contain strings`;
+    const pattern = normalizeUrlRule(entry);
+    const rule = parseUrlRule(pattern);
+    if (typeof rule === "string") return `Invalid rule "${entry}" in "${field}": ${rule}`;
+    if (!rules.includes(pattern)) rules.push(pattern);
+  }
+  return rules;
+}
+
+function isBlockSchedule(value: unknown): value is BlockSchedule {
+  const schedule = value as BlockSchedule;
+  return (
+    typeof schedule === "object" &&
+    schedule !== null &&
+    typeof schedule.id === "string" &&
+    typeof schedule.domain === "string" &&
+    Array.isArray(schedule.days) &&
+    schedule.days.length > 0 &&
+    schedule.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    TIME_PATTERN.test(schedule.start) &&
+    TIME_PATTERN.test(schedule.end) &&
+    typeof schedule.enabled === "boolean"
+  );
+}
+
+/**
+ * Parse and validate a bundle file; returns an error message when it can't be imported.
+ * Schedules for sites the bundle doesn't block are dropped
+ */
+export function parseBlocklistBundle(json: string): BlocklistBundle | string {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return "The file isn't valid JSON";
+  }
+
+  if (typeof data !== "object" || data === null || data.format !== BLOCKLIST_BUNDLE_FORMAT) {
+    return "The file isn't a Claude Blocker blocklist";
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    return "The blocklist has no valid version";
+  }
+  if (data.version > BLOCKLIST_BUNDLE_VERSION) {
+    return `The blocklist is version ${data.version}; update the extension to import it`;
+  }
+
+  const blockedDomains = parseRuleList(data.blockedDomains, "blockedDomains");
+  if (typeof blockedDomains === "string") return blockedDomains;
+  const allowedUrls = parseRuleList(data.allowedUrls, "allowedUrls");
+  if (typeof allowedUrls === "string") return allowedUrls;
+
+  const schedules = data.blockSchedules ?? [];
+  if (!Array.isArray(schedules)) return `"blockSchedules" must be a list`;
+  const invalid = schedules.find((schedule) => !isBlockSchedule(schedule));
+  if (invalid !== undefined) return `Invalid schedule: ${JSON.stringify(invalid)}`;
+
+  return {
+    format: BLOCKLIST_BUNDLE_FORMAT,
+    version: data.version,
+    ...(typeof data.name === "string" && data.name ? { name: data.name } : {}),
+    ...(typeof data.exportedAt === "string" ? { exportedAt: data.exportedAt } : {}),
+    blockedDomains,
+    allowedUrls,
+    blockSchedules: (schedules as BlockSchedule[]).filter((schedule) => blockedDomains.includes(schedule.domain)),
+  };
+}
+
+/**
+ * Apply an imported bundle. "merge" adds its rules and schedules (a schedule with the same id is replaced);
+ * "replace" swaps the current lists for the bundle's
+ */
+export function applyBlocklistBundle(
+  current: BlocklistContents,
+  bundle: BlocklistContents,
+  mode: "merge" | "replace"
+): BlocklistContents {
+  if (mode === "replace") {
+    return {
+      blockedDomains: [...bundle.blockedDomains],
+      allowedUrls: [...bundle.allowedUrls],
+      blockSchedules: [...bundle.blockSchedules],
+    };
+  }
+
+  const union = (a: string[], b: string[]) => [...a, ...b.filter((entry) => !a.includes(entry))];
+  const importedIds = new Set(bundle.blockSchedules.map((schedule) => schedule.id));
+  return {
+    blockedDomains: union(current.blockedDomains, bundle.blockedDomains),
+    allowedUrls: union(current.allowedUrls, bundle.allowedUrls),
+    blockSchedules: [
+      ...current.blockSchedules.filter((schedule) => !importedIds.has(schedule.id)),
+      ...bundle.blockSchedules,
+    ],
+  };
+}
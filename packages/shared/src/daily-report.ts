@@ -0,0 +1,145 @@
+// End-of-day report: built by the extension (with blocked-site attempts) and by the server's GET /report/:date
+import type { DailyStats } from "./types.js";
+
+export interface DailyReportProject {
+  projectName: string;
+  sessions: number;
+  workingMs: number;
+  costUsd: number;
+}
+
+export interface DailyReportSite {
+  domain: string;
+  attempts: number;
+}
+
+export interface DailyReport {
+  date: string; // YYYY-MM-DD
+  workingMs: number;
+  waitingMs: number;
+  idleMs: number;
+  sessionsStarted: number;
+  sessionsEnded: number;
+  totalTokens: number;
+  costUsd: number;
+  topProjects: DailyReportProject[];
+  // Only the extension records these; null in reports from the server
+  blockedAttempts: number | null;
+  topBlockedSites: DailyReportSite[];
+}
+
+// The parts of a historical session the report reads
+export interface ReportSession {
+  projectName: string;
+  endTime: string; // ISO
+  totalDurationMs: number;
+  totalWorkingMs?: number;
+  costUsd?: number;
+}
+
+export interface DailyReportInput {
+  date: string;
+  stats: Pick<
+    DailyStats,
+    | "totalWorkingMs"
+    | "totalWaitingMs"
+    | "totalIdleMs"
+    | "sessionsStarted"
+    | "sessionsEnded"
+    | "totalInputTokens"
+    | "totalOutputTokens"
+    | "totalCacheCreationTokens"
+    | "totalCacheReadTokens"
+    | "totalCostUsd"
+  > | null;
+  history: ReportSession[];
+  distractions?: { domains: Record<string, { attempts: number }> } | null;
+}
+
+export const DAILY_REPORT_TOP_COUNT = 5;
+
+// Local YYYY-MM-DD, matching the daily stats keys
+function toLocalDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Sessions count toward the day they ended on, like sessionsEnded in the daily stats.
+ * Projects are ranked by cost, then by working time
+ */
+export function buildDailyReport({ date, stats, history, distractions }: DailyReportInput): DailyReport {
+  const projects = new Map<string, DailyReportProject>();
+  for (const session of history) {
+    if (toLocalDateKey(new Date(session.endTime)) !== date) continue;
+    const project = projects.get(session.projectName) ?? {
+      projectName: session.projectName,
+      sessions: 0,
+      workingMs: 0,
+      costUsd: 0,
+    };
+    project.sessions++;
+    project.workingMs += session.totalWorkingMs ?? 0;
+    project.costUsd += session.costUsd ?? 0;
+    projects.set(session.projectName, project);
+  }
+
+  const sites = Object.entries(distractions?.domains ?? {})
+    .map(([domain, site]) => ({ domain, attempts: site.attempts }))
+    .filter((site) => site.attempts > 0)
+    .sort((a, b) => b.attempts - a.attempts);
+
+  return {
+    date,
+    workingMs: stats?.totalWorkingMs ?? 0,
+    waitingMs: stats?.totalWaitingMs ?? 0,
+    idleMs: stats?.totalIdleMs ?? 0,
+    sessionsStarted: stats?.sessionsStarted ?? 0,
+    sessionsEnded: stats?.sessionsEnded ?? 0,
+    totalTokens: stats
+      ? stats.totalInputTokens + stats.totalOutputTokens + stats.totalCacheCreationTokens + stats.totalCacheReadTokens
+      : 0,
+    costUsd: stats?.totalCostUsd ?? 0,
+    topProjects: [...projects.values()]
+      .sort((a, b) => b.costUsd - a.costUsd || b.workingMs - a.workingMs)
+      .slice(0, DAILY_REPORT_TOP_COUNT),
+    blockedAttempts: distractions === undefined || distractions === null
+      ? null
+      : sites.reduce((sum, site) => sum + site.attempts, 0),
+    topBlockedSites: sites.slice(0, DAILY_REPORT_TOP_COUNT),
+  };
+}
+
+// Nothing tracked: no summary notification for the day
+export function isDailyReportEmpty(report: DailyReport): boolean {
+  return (
+    report.workingMs === 0 &&
+    report.waitingMs === 0 &&
+    report.sessionsStarted === 0 &&
+    report.sessionsEnded === 0 &&
+    report.topProjects.length === 0 &&
+    !report.blockedAttempts
+  );
+}
+
+// "3h 20m", "45m"
+export function formatReportDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60_000);
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours}h ${totalMinutes % 60}m` : `${totalMinutes}m`;
+}
+
+// Short plain-text lines, for the notification and the CLI
+export function formatDailyReportLines(report: DailyReport): string[] {
+  const lines = [
+    `Working ${formatReportDuration(report.workingMs)} · waiting ${formatReportDuration(report.waitingMs)} · idle ${formatReportDuration(report.idleMs)}`,
+    `${report.sessionsEnded} session${report.sessionsEnded === 1 ? "" : "s"} · $${report.costUsd.toFixed(2)}`,
+  ];
+  if (report.topProjects.length > 0) {
+    lines.push(`Top: ${report.topProjects.slice(0, 3).map((p) => `${p.projectName} ($${p.costUsd.toFixed(2)})`).join(", ")}`);
+  }
+  if (report.blockedAttempts) {
+    const top = report.topBlockedSites[0];
+    lines.push(`${report.blockedAttempts} blocked-site attempt${report.blockedAttempts === 1 ? "" : "s"}${top ? ` (most: ${top.domain})` : ""}`);
+  }
+  return lines;
+}
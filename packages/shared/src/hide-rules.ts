@@ -0,0 +1,95 @@
+// Soft hiding: parts of otherwise allowed sites (feeds, recommendations) hidden with CSS while Claude is idle
+import { matchesUrlRule, parseUrlRule } from "./url-rules.js";
+
+// A custom rule from the options page
+export interface HideRule {
+  id: string;
+  site: string; // URL rule pattern (see url-rules.ts)
+  selector: string; // CSS selector hidden on matching pages
+}
+
+// Built-in selectors for a common site; turned on or off as a whole
+export interface HidePack {
+  id: string;
+  label: string;
+  description: string;
+  site: string;
+  selectors: string[];
+}
+
+// Sites change their markup; custom rules cover what these miss
+export const HIDE_PACKS: HidePack[] = [
+  {
+    id: "youtube-recommendations",
+    label: "YouTube recommendations",
+    description: "Home feed, related videos, end screens and Shorts shelves",
+    site: "youtube.com",
+    selectors: [
+      'ytd-browse[page-subtype="home"] ytd-rich-grid-renderer',
+      "ytd-watch-flexy #related",
+      ".ytp-endscreen-content",
+      ".ytp-ce-element",
+      "ytd-reel-shelf-renderer",
+      "ytd-rich-shelf-renderer[is-shorts]",
+    ],
+  },
+  {
+    id: "x-feed",
+    label: "X home feed",
+    description: "Home timeline, trends and follow suggestions",
+    site: "x.com",
+    selectors: [
+      'div[aria-label="Home timeline"]',
+      'div[aria-label="Timeline: Trending now"]',
+      'aside[aria-label="Who to follow"]',
+    ],
+  },
+  {
+    id: "linkedin-feed",
+    label: "LinkedIn feed",
+    description: "Home feed, LinkedIn News and follow suggestions",
+    site: "linkedin.com/feed",
+    selectors: ["main .scaffold-finite-scroll", "#feed-news-module", ".feed-follows-module"],
+  },
+  {
+    id: "facebook-feed",
+    label: "Facebook feed",
+    description: "News feed and stories",
+    site: "facebook.com",
+    selectors: ['div[role="feed"]', 'div[aria-label="Stories"]'],
+  },
+];
+
+// Rules from the enabled packs followed by the custom ones
+export function getActiveHideRules(packIds: string[], customRules: HideRule[]): HideRule[] {
+  const packRules = HIDE_PACKS.filter((pack) => packIds.includes(pack.id)).flatMap((pack) =>
+    pack.selectors.map((selector, i) => ({ id: `${pack.id}:${i}`, site: pack.site, selector }))
+  );
+  return [...packRules, ...customRules];
+}
+
+// Selectors whose site rule matches the URL (invalid site patterns never match)
+export function getHideSelectors(href: string, rules: HideRule[]): string[] {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return [];
+  }
+  const selectors = rules
+    .filter((rule) => {
+      const site = parseUrlRule(rule.site);
+      return typeof site !== "string" && matchesUrlRule(site, url);
+    })
+    .map((rule) => rule.selector);
+  return [...new Set(selectors)];
+}
+
+// One CSS rule per selector, so a selector the browser rejects doesn't disable the others. Braces and
+// comments would let a selector break out of its rule, so those are skipped
+export function buildHideStylesheet(selectors: string[]): string {
+  return selectors
+    .filter((selector) => !/[{}]|\/\*/.test(selector))
+    .map((selector) => `${selector} { display: none !important; }`)
+    .join("\n");
+}
@@ -1,2 +1,9 @@
 export * from "./types.js";
 export * from "./actions.js";
+export * from "./url-rules.js";
+export * from "./blocklists.js";
+export * from "./hide-rules.js";
+export * from "./notification-profiles.js";
+export * from "./sounds.js";
+export * from "./announcements.js";
+export * from "./daily-report.js";
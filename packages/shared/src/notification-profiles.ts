@@ -0,0 +1,68 @@
+// Per-project notification and sound profiles, shared by the service worker and the options page
+import type { SoundStyle } from "./types.js";
+
+export type ProfileEvent = "onWaiting" | "onFinished" | "onDisconnected";
+
+/**
+ * Overrides for the sessions of one project. Unset fields fall back to the global notification and sound settings.
+ * `match` is a glob (`*` matches anything) tested against the project name, or against the project directory
+ * when it contains a slash, e.g. `api-*` or `/Users/me/work/*`
+ */
+export interface NotificationProfile {
+  id: string;
+  match: string;
+  muted: boolean; // No notifications, sounds or reminders at all
+  notify: Partial<Record<ProfileEvent, boolean>>;
+  sounds: Partial<Record<ProfileEvent, SoundStyle>>;
+  volume?: number; // 0-100
+}
+
+// The parts of a session a profile is matched against
+export interface ProfileSession {
+  projectName: string;
+  cwd?: string;
+  initialCwd?: string;
+}
+
+// What one alert for a session should do after its profile is applied
+export interface SessionAlert {
+  notify: boolean;
+  sound: SoundStyle;
+  volume: number;
+}
+
+function compileGlob(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+export function matchesProfile(profile: Pick<NotificationProfile, "match">, session: ProfileSession): boolean {
+  const match = profile.match.trim();
+  if (!match) return false;
+  if (!match.includes("/")) return compileGlob(match).test(session.projectName);
+
+  const directory = session.initialCwd || session.cwd;
+  return !!directory && compileGlob(match.replace(/\/+$/, "")).test(directory.replace(/\/+$/, ""));
+}
+
+// The first profile in the list that matches wins
+export function findNotificationProfile(
+  profiles: NotificationProfile[],
+  session: ProfileSession
+): NotificationProfile | null {
+  return profiles.find((profile) => matchesProfile(profile, session)) ?? null;
+}
+
+export function resolveSessionAlert(
+  profile: NotificationProfile | null,
+  event: ProfileEvent,
+  defaults: SessionAlert
+): SessionAlert {
+  if (!profile) return defaults;
+  if (profile.muted) return { notify: false, sound: "none", volume: 0 };
+  return {
+    notify: profile.notify[event] ?? defaults.notify,
+    sound: profile.sounds[event] ?? defaults.sound,
+    volume: profile.volume ?? defaults.volume,
+  };
+}
@@ -0,0 +1,51 @@
+// Sound identifiers: built-in presets synthesized by the offscreen document, plus clips uploaded to the sound library
+import type { SoundStyle } from "./types.js";
+
+export interface BuiltinSound {
+  id: SoundStyle;
+  label: string;
+}
+
+// "none" and "say" aren't presets: one plays nothing, the other speaks the alert text
+export const BUILTIN_SOUNDS: BuiltinSound[] = [
+  { id: "subtle", label: "Subtle chime" },
+  { id: "clear", label: "Attention bell" },
+  { id: "marimba", label: "Marimba" },
+  { id: "droplet", label: "Droplet" },
+  { id: "pulse", label: "Double beep" },
+  { id: "rise", label: "Rising sweep" },
+  { id: "gong", label: "Soft gong" },
+  { id: "say", label: "Voice (say)" },
+];
+
+// Played instead of a library clip that was deleted or can't be decoded
+export const FALLBACK_SOUND: SoundStyle = "subtle";
+
+const CUSTOM_SOUND_PREFIX = "custom:";
+
+// A clip in the sound library; the audio itself is stored in IndexedDB under the same id
+export interface SoundClip {
+  id: string;
+  name: string;
+  type: string; // MIME type of the uploaded file
+  size: number; // Bytes
+  duration: number; // Seconds
+  addedAt: number;
+}
+
+export const MAX_SOUND_CLIP_BYTES = 1024 * 1024;
+export const MAX_SOUND_CLIP_SECONDS = 15;
+export const MAX_SOUND_CLIPS = 20;
+
+export function getCustomSoundId(clipId: string): SoundStyle {
+  return `${CUSTOM_SOUND_PREFIX}${clipId}`;
+}
+
+// The library clip a sound refers to, or null for built-in sounds
+export function getSoundClipId(sound: SoundStyle): string | null {
+  return sound.startsWith(CUSTOM_SOUND_PREFIX) ? sound.slice(CUSTOM_SOUND_PREFIX.length) : null;
+}
+
+export function isBuiltinSound(sound: SoundStyle): boolean {
+  return sound === "none" || BUILTIN_SOUNDS.some((builtin) => builtin.id === sound);
+}
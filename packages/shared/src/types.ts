@@ -1,3 +1,5 @@
+import { DEFAULT_SPEECH_CONFIG, type SpeechConfig } from "./announcements.js";
+
 // Tool call record (for tracking recent tools)
 export interface ToolCall {
   name: string;
@@ -7,6 +9,7 @@ export interface ToolCall {
     command?: string;
     pattern?: string;
     description?: string;
+    question?: string; // First question of AskUserQuestion and similar input tools
   };
 }
 
@@ -87,6 +90,8 @@ export type ServerMessage =
       sessions: Session[]; // Full session array for rich display
       working: number;
       waitingForInput: number;
+      budget: BudgetStatus;
+      typingUntil: number | null; // Set while the user is typing a prompt (see POST /typing)
     }
   | { type: "pong" }
   | {
@@ -100,11 +105,23 @@ export type ServerMessage =
     };
 
 // WebSocket messages from extension to server
-export type ClientMessage = { type: "ping" } | { type: "subscribe" };
+export type ClientMessage = { type: "ping" } | { type: "subscribe" } | { type: "typing"; ttlMs?: number };
+
+// When a blocked domain is eligible for blocking. Domains without an enabled schedule are blocked around the clock
+export interface BlockSchedule {
+  id: string;
+  domain: string; // One of the blockedDomains patterns
+  days: number[]; // 0 = Sunday ... 6 = Saturday (Date.getDay())
+  start: string; // "HH:MM", local time
+  end: string; // "HH:MM"; earlier than start = runs past midnight, equal = all day
+  enabled: boolean;
+}
 
 // Extension storage schema
 export interface ExtensionState {
-  blockedDomains: string[];
+  blockedDomains: string[]; // URL rule patterns (see url-rules.ts)
+  allowedUrls: string[]; // Patterns that are never blocked, even when a blocked pattern matches
+  blockSchedules: BlockSchedule[];
   lastBypassDate: string | null; // ISO date string, e.g. "2025-01-15"
   bypassUntil: number | null; // timestamp when current bypass expires
 }
@@ -120,7 +137,8 @@ export interface OverlayConfig {
 }
 
 // Sound configuration
-export type SoundStyle = "none" | "subtle" | "clear" | "say";
+// "none", "say", a built-in preset id or "custom:<clip id>" for the sound library (see sounds.ts)
+export type SoundStyle = string;
 
 export interface SoundConfig {
   enabled: boolean;
@@ -130,6 +148,7 @@ export interface SoundConfig {
     onFinished: SoundStyle;
     onDisconnected: SoundStyle;
   };
+  speech: SpeechConfig; // What "say" speaks and how
 }
 
 export const DEFAULT_SOUND_CONFIG: SoundConfig = {
@@ -140,11 +159,9 @@ export const DEFAULT_SOUND_CONFIG: SoundConfig = {
     onFinished: "subtle",
     onDisconnected: "subtle",
   },
+  speech: DEFAULT_SPEECH_CONFIG,
 };
 
-// Default blocked domains
-export const DEFAULT_BLOCKED_DOMAINS = ["x.com", "twitter.com"];
-
 // Default overlay config
 export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
   enabled: true,
@@ -156,14 +173,89 @@ export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
 
 // Server configuration
 export const DEFAULT_PORT = 8765;
+export const DEFAULT_HOST = "localhost";
 export const SESSION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 export const KEEPALIVE_INTERVAL_MS = 20 * 1000; // 20 seconds
+export const TYPING_TTL_MS = 15 * 1000; // How long one typing signal keeps sites unblocked
+export const MAX_TYPING_TTL_MS = 2 * 60 * 1000;
+
+// History retention in days (null = keep forever)
+export type RetentionDays = number | null;
+
+export const DEFAULT_RETENTION_DAYS: RetentionDays = 90;
+
+export const RETENTION_OPTIONS: { value: RetentionDays; label: string }[] = [
+  { value: 7, label: "7 days" },
+  { value: 30, label: "30 days" },
+  { value: 90, label: "90 days" },
+  { value: null, label: "Forever" },
+];
+
+// Budget periods (weeks start on Monday)
+export type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+// USD limit per period (null = no limit)
+export type BudgetLimits = Record<BudgetPeriod, number | null>;
+
+export interface BudgetConfig {
+  limits: BudgetLimits;
+  // Per-project overrides keyed by project name (only the periods that are set)
+  projectLimits: Record<string, Partial<BudgetLimits>>;
+  // Percentages of a limit that trigger an alert
+  thresholds: number[];
+  // Opt-in: block sites once any budget is exhausted
+  blockWhenExhausted: boolean;
+}
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  limits: { daily: null, weekly: null, monthly: null },
+  projectLimits: {},
+  thresholds: [50, 80, 100],
+  blockWhenExhausted: false,
+};
+
+export interface BudgetPeriodStatus {
+  period: BudgetPeriod;
+  periodStart: string; // YYYY-MM-DD
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number; // Never negative
+  percentUsed: number;
+}
+
+// Budget status computed by the server and sent with every state message
+export interface BudgetStatus {
+  global: BudgetPeriodStatus[]; // Only periods with a limit
+  projects: Array<{ projectName: string; periods: BudgetPeriodStatus[] }>;
+  thresholds: number[];
+  exhausted: boolean; // Any global or project limit reached
+  blockWhenExhausted: boolean;
+}
+
+// Persisted server settings (~/.claude-blocker/config.json), exposed via GET/POST /config
+export interface ServerConfig {
+  // Address the server listens on and that the Claude Code hooks post to
+  host: string;
+  port: number;
+  retentionDays: RetentionDays;
+  budget: BudgetConfig;
+}
 
 // Tools that indicate Claude is waiting for user input
 export const USER_INPUT_TOOLS = ["AskUserQuestion", "ask_user", "ask_human"];
 
-// Terminal application options
-export type TerminalApp = "warp" | "iterm2" | "terminal" | "ghostty";
+// Terminal application options (macOS: warp..ghostty, Linux: gnome-terminal..tmux)
+export type TerminalApp =
+  | "warp"
+  | "iterm2"
+  | "terminal"
+  | "ghostty"
+  | "gnome-terminal"
+  | "konsole"
+  | "kitty"
+  | "alacritty"
+  | "wezterm"
+  | "tmux";
 
 export interface TerminalConfig {
   app: TerminalApp;
@@ -178,6 +270,12 @@ export const TERMINAL_OPTIONS: { value: TerminalApp; label: string }[] = [
   { value: "iterm2", label: "iTerm2" },
   { value: "terminal", label: "Terminal.app" },
   { value: "ghostty", label: "Ghostty" },
+  { value: "gnome-terminal", label: "GNOME Terminal" },
+  { value: "konsole", label: "Konsole" },
+  { value: "kitty", label: "kitty" },
+  { value: "alacritty", label: "Alacritty" },
+  { value: "wezterm", label: "WezTerm" },
+  { value: "tmux", label: "tmux (new window)" },
 ];
 
 // Editor application options
@@ -216,6 +314,41 @@ export const EDITOR_COMMANDS: Record<EditorApp, string> = {
   webstorm: "webstorm",
 };
 
+// Platform the server runs on (quick actions are implemented per platform)
+export type PlatformId = "macos" | "linux" | "unsupported";
+
+// What the server can do on this machine, reported via GET /capabilities
+export interface PlatformCapabilities {
+  platform: PlatformId;
+  fileManager: string; // Name shown for the open-folder action, e.g. "Finder"
+  actions: {
+    openFolder: boolean;
+    openTerminal: boolean;
+    openEditor: boolean;
+  };
+  terminals: TerminalApp[]; // Detected on this machine, in preference order
+  editors: EditorApp[]; // Editor CLIs found on PATH
+}
+
+// Why a quick action failed (returned by /action/* as { success: false, code, error })
+export type ActionErrorCode =
+  | "invalid_request" // Missing or malformed parameters
+  | "unknown_path" // Path isn't the directory of a known session
+  | "path_not_found" // Directory no longer exists
+  | "unsupported" // Action or app isn't supported on the server's platform
+  | "app_not_found" // App or CLI isn't installed
+  | "launch_failed" // The app was found but failed to start
+  | "not_focusable"; // The session is running, but its terminal can't be brought to the front
+
+export interface ActionResponse {
+  success: boolean;
+  code?: ActionErrorCode;
+  error?: string;
+  app?: TerminalApp; // open-terminal/focus-session: the terminal actually used
+  focused?: boolean; // focus-session: true if an existing terminal was focused instead of opening one
+  appActivated?: boolean; // focus-session: only the terminal app came to the front, not the session's tab
+}
+
 // Historical session - session that has ended (for history display)
 export interface HistoricalSession {
   id: string;
@@ -270,6 +403,21 @@ export interface DailyStats {
   modelBreakdown?: Record<string, TokenBreakdown>;
 }
 
+// Distractions on one blocked site (hostname without www) for a day
+export interface DomainDistractionStats {
+  attempts: number; // Page views that opened blocked
+  bypasses: number; // Bypasses started from this site's block screen
+  unblockedMs: number; // Time the site was open while it wasn't blocked
+}
+
+// Per-day record of blocked page views, bypasses and time on blocked sites (kept by the extension)
+export interface DistractionStats {
+  date: string; // YYYY-MM-DD
+  domains: Record<string, DomainDistractionStats>;
+  hourlyAttempts: number[]; // 24 entries, local hour of day
+  bypasses: number; // All bypasses, including ones started from the popup or settings
+}
+
 // Project stats for breakdown display
 export interface ProjectStats {
   projectName: string;
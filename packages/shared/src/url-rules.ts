@@ -0,0 +1,104 @@
+// URL rules for blocked and allowed pages, shared by the service worker, content script and options page
+
+/**
+ * A parsed rule. Patterns are written as:
+ * - `example.com`: the site and its subdomains
+ * - `example.com/path`: pages at or below the path (the query string counts); `*` matches anything
+ * - `/regex/` or `/regex/i`: tested against the full URL
+ */
+export type UrlRule =
+  | { kind: "domain"; pattern: string; host: string }
+  | { kind: "path"; pattern: string; host: string; path: RegExp }
+  | { kind: "regex"; pattern: string; regex: RegExp };
+
+/**
+ * How a URL was decided; allow rules win over block rules
+ */
+export interface UrlRuleMatch {
+  blocked: boolean;
+  blockedBy?: string;
+  allowedBy?: string;
+}
+
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*\.[a-z]{2,}$/;
+const REGEX_PATTERN = /^\/(.+)\/(i?)$/;
+
+function isRegexPattern(input: string): boolean {
+  return REGEX_PATTERN.test(input);
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, "");
+}
+
+function matchesHost(hostname: string, host: string): boolean {
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+// Glob to an anchored regex; a path without a trailing wildcard also covers everything below it
+function compilePathGlob(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}(?:[/?#&].*)?$`);
+}
+
+// Canonical form for storage: no scheme, no www, lowercase host, no trailing slash
+export function normalizeUrlRule(input: string): string {
+  const trimmed = input.trim();
+  if (isRegexPattern(trimmed)) return trimmed;
+
+  const withoutScheme = trimmed.replace(/^[a-z]+:\/\//i, "");
+  const slash = withoutScheme.indexOf("/");
+  const host = stripWww((slash === -1 ? withoutScheme : withoutScheme.slice(0, slash)).toLowerCase());
+  const path = slash === -1 ? "" : withoutScheme.slice(slash).replace(/\/+$/, "");
+  return host + path;
+}
+
+// Parse a normalized pattern; returns an error message when it isn't a valid rule
+export function parseUrlRule(pattern: string): UrlRule | string {
+  const regexMatch = pattern.match(REGEX_PATTERN);
+  if (regexMatch) {
+    try {
+      return { kind: "regex", pattern, regex: new RegExp(regexMatch[1], regexMatch[2]) };
+    } catch (err) {
+      return (err as Error).message;
+    }
+  }
+
+  const slash = pattern.indexOf("/");
+  const host = slash === -1 ? pattern : pattern.slice(0, slash);
+  if (!HOST_PATTERN.test(host)) {
+    return host ? `"${host}" is not a valid domain` : "Enter a domain, a domain with a path, or /regex/";
+  }
+  if (slash === -1) return { kind: "domain", pattern, host };
+  return { kind: "path", pattern, host, path: compilePathGlob(pattern.slice(slash)) };
+}
+
+export function matchesUrlRule(rule: UrlRule, url: URL): boolean {
+  if (rule.kind === "regex") return rule.regex.test(url.href);
+  if (!matchesHost(stripWww(url.hostname), rule.host)) return false;
+  if (rule.kind === "domain") return true;
+  return rule.path.test(url.pathname + url.search);
+}
+
+// First stored pattern that matches the URL (invalid patterns never match)
+function findMatchingPattern(url: URL, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => {
+    const rule = parseUrlRule(pattern);
+    return typeof rule !== "string" && matchesUrlRule(rule, url);
+  });
+}
+
+export function evaluateUrl(href: string, blockPatterns: string[], allowPatterns: string[]): UrlRuleMatch {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return { blocked: false };
+  }
+
+  const blockedBy = findMatchingPattern(url, blockPatterns);
+  if (!blockedBy) return { blocked: false };
+
+  const allowedBy = findMatchingPattern(url, allowPatterns);
+  return allowedBy ? { blocked: false, blockedBy, allowedBy } : { blocked: true, blockedBy };
+}